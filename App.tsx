@@ -1,17 +1,29 @@
 import React, { useState, useEffect, useRef, useMemo } from 'react';
 import PackOpener from './components/PackOpener';
 import BlockGame from './components/BlockGame';
+import DailyChallenge from './components/DailyChallenge';
+import LevelSelect from './components/LevelSelect';
+import VersusGame from './components/VersusGame';
+import BattleScreen from './components/BattleScreen';
 import Collection from './components/Collection';
 import Navigation from './components/Navigation';
 import ErrorBoundary from './components/ErrorBoundary';
-import { ViewState, MonsterCard } from './types';
+import WildEncounter from './components/WildEncounter';
+import { ViewState, MonsterCard, BlockGameMode, EncounterTrigger } from './types';
 import { playSoftClick, playSwitchSound, playSuccessSound, playMagicalSparkle, playPopSound, resumeAudioContext, musicManager } from './utils/audio';
 import { storageService } from './services/storageService';
+import { generateWildMonster, pickFallbackCard } from './services/geminiService';
 import { MELD_REWARDS } from './constants';
-import { getXpForNextLevel, DAILY_REWARDS, ECONOMY_CONFIG } from './config/gameConfig';
+import { getXpForNextLevel, getBlockGameRewards, DAILY_REWARDS, ECONOMY_CONFIG, BATTLE_CONFIG, ENCOUNTER_CONFIG } from './config/gameConfig';
+import { getDayStart } from './utils/dailyChallenge';
+import { pickWildRarity, rollEncounter } from './utils/encounters';
+
+// Versus is local play between two people, so it sits next to the modes that pay out rewards
+type GameTab = BlockGameMode | 'VERSUS';
 
 const App: React.FC = () => {
   const [currentView, setCurrentView] = useState<ViewState>('GAME');
+  const [gameMode, setGameMode] = useState<GameTab>('FREE_PLAY');
   const [coins, setCoins] = useState<number>(ECONOMY_CONFIG.STARTING_COINS);
   const [level, setLevel] = useState<number>(1);
   const [currentXP, setCurrentXP] = useState<number>(0);
@@ -37,6 +49,12 @@ const App: React.FC = () => {
 
   // UI Animation State
   const [xpChanged, setXpChanged] = useState(false);
+
+  // Wild Encounter
+  const [wildMonster, setWildMonster] = useState<MonsterCard | null>(null);
+  const isEncounterPendingRef = useRef(false);
+  // Set after each render, so the open effect starts an encounter with the current collection
+  const startEncounterRef = useRef<(trigger: EncounterTrigger) => void>(() => {});
   const prevXpRef = useRef(0);
 
   // Global Audio Context Resume on Interaction & Music Init
@@ -105,8 +123,8 @@ const App: React.FC = () => {
       const lastClaim = new Date(lastClaimDate);
       
       // Reset hours to compare dates only
-      const todayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
-      const lastClaimStart = new Date(lastClaim.getFullYear(), lastClaim.getMonth(), lastClaim.getDate()).getTime();
+      const todayStart = getDayStart(now);
+      const lastClaimStart = getDayStart(lastClaim);
       
       // If last claim was before today
       if (lastClaimStart < todayStart) {
@@ -126,6 +144,12 @@ const App: React.FC = () => {
       }
   }, [isLoaded, showIntroGift]);
 
+  // A wild monster may greet the player once the intro is out of the way
+  useEffect(() => {
+      if (!isLoaded || showIntroGift) return;
+      startEncounterRef.current('APP_OPEN');
+  }, [isLoaded, showIntroGift]);
+
   // Save data on change
   useEffect(() => {
     if (isLoaded) {
@@ -200,6 +224,20 @@ const App: React.FC = () => {
     }
   };
 
+  // Shared by all block game modes; the daily challenge only reports its scored attempt
+  // and puzzle levels only their first completion
+  const handleBlockGameOver = (score: number, mode: BlockGameMode, goldCollected: number = 0) => {
+      const { coins: coinsEarned, xp } = getBlockGameRewards(score, mode, goldCollected);
+      addCoins(coinsEarned);
+      handleGainXP(xp);
+      setTimeout(() => startEncounter('AFTER_GAME'), ENCOUNTER_CONFIG.AFTER_GAME_DELAY);
+  };
+
+  const handleBattleWon = () => {
+      addCoins(BATTLE_CONFIG.WIN_COINS);
+      handleGainXP(BATTLE_CONFIG.WIN_XP);
+  };
+
   const handleClaimDailyReward = () => {
       if (!dailyReward || !dailyReward.available) return;
       
@@ -236,6 +274,36 @@ const App: React.FC = () => {
     handleGainXP(150); 
   };
 
+  // The cooldown starts when the monster appears, so slow generation can't lead to a second one
+  const startEncounter = async (trigger: EncounterTrigger) => {
+      if (isEncounterPendingRef.current || !rollEncounter(trigger, storageService.loadLastEncounterAt())) return;
+      isEncounterPendingRef.current = true;
+      storageService.saveLastEncounterAt(Date.now());
+      const card = Math.random() < ENCOUNTER_CONFIG.GENERATED_CHANCE
+          ? await generateWildMonster(pickWildRarity())
+          : pickFallbackCard();
+      setWildMonster(card);
+  };
+  startEncounterRef.current = startEncounter;
+
+  const handleWildMonsterEscaped = (score: number, target: number) => {
+      if (!wildMonster) return;
+      storageService.recordEscapedMonster({
+          name: wildMonster.name,
+          type: wildMonster.type,
+          rarity: wildMonster.rarity,
+          isShiny: !!wildMonster.isShiny,
+          score,
+          target,
+          escapedAt: Date.now()
+      });
+  };
+
+  const closeEncounter = () => {
+      setWildMonster(null);
+      isEncounterPendingRef.current = false;
+  };
+
   const handleUpdateCardState = (cardId: string) => {
      // Mark the image as 'stored' in the main state to prevent re-fetching/saving loop
      setInventory(prev => prev.map(c => 
@@ -433,21 +501,82 @@ const App: React.FC = () => {
         {/* We keep all views mounted to preserve state (game progress, preloaded packs) */}
         
         <div className={`w-full h-full transition-opacity duration-300 ${currentView === 'GAME' ? 'opacity-100 pointer-events-auto relative z-10' : 'opacity-0 pointer-events-none absolute inset-0 z-0'}`}>
-           <BlockGame 
-             onGameOver={(score) => {
-                 const coinsEarned = Math.floor(score / 10);
-                 addCoins(coinsEarned);
-                 handleGainXP(score);
-             }} 
-             isActive={currentView === 'GAME'} 
-             coins={coins}
-             deductCoins={deductCoins}
-             level={level}
-             currentXP={currentXP}
-             xpNeeded={xpNeeded}
-           />
+           <div className="w-full h-full flex flex-col">
+             {/* Game Mode Switch */}
+             <div className="flex justify-center gap-1 mb-2 shrink-0">
+               {([['FREE_PLAY', 'Fritt spill'], ['DAILY', 'Dagens'], ['BLITZ', 'Blitz'], ['LEVEL', 'Nivåer'], ['VERSUS', 'Duell']] as const).map(([mode, label]) => (
+                 <button
+                   key={mode}
+                   onClick={() => { playSoftClick(); setGameMode(mode); }}
+                   className={`px-3 py-1 rounded-full text-[10px] font-bold font-cute uppercase tracking-wider transition-all ${gameMode === mode ? 'bg-pink-500/30 text-white border border-pink-500/50' : 'bg-white/5 text-white/50 border border-white/5'}`}
+                 >
+                   {label}
+                 </button>
+               ))}
+             </div>
+
+             {/* Both boards stay mounted so switching never loses a run */}
+             <div className={`flex-1 min-h-0 relative ${gameMode === 'FREE_PLAY' ? '' : 'hidden'}`}>
+               <BlockGame 
+                 onGameOver={(score, gold) => handleBlockGameOver(score, 'FREE_PLAY', gold)}
+                 cards={inventory} 
+                 isActive={currentView === 'GAME' && gameMode === 'FREE_PLAY'} 
+                 coins={coins}
+                 deductCoins={deductCoins}
+                 level={level}
+                 currentXP={currentXP}
+                 xpNeeded={xpNeeded}
+               />
+             </div>
+             <div className={`flex-1 min-h-0 relative ${gameMode === 'DAILY' ? '' : 'hidden'}`}>
+               <DailyChallenge
+                 onGameOver={(score, gold) => handleBlockGameOver(score, 'DAILY', gold)}
+                 isActive={currentView === 'GAME' && gameMode === 'DAILY'}
+                 coins={coins}
+                 deductCoins={deductCoins}
+                 level={level}
+                 currentXP={currentXP}
+                 xpNeeded={xpNeeded}
+               />
+             </div>
+             <div className={`flex-1 min-h-0 relative ${gameMode === 'BLITZ' ? '' : 'hidden'}`}>
+               <BlockGame
+                 mode="BLITZ"
+                 onGameOver={(score, gold) => handleBlockGameOver(score, 'BLITZ', gold)}
+                 cards={inventory}
+                 isActive={currentView === 'GAME' && gameMode === 'BLITZ'}
+                 coins={coins}
+                 deductCoins={deductCoins}
+                 level={level}
+                 currentXP={currentXP}
+                 xpNeeded={xpNeeded}
+               />
+             </div>
+             <div className={`flex-1 min-h-0 relative ${gameMode === 'LEVEL' ? '' : 'hidden'}`}>
+               <LevelSelect
+                 onGameOver={(score) => handleBlockGameOver(score, 'LEVEL')}
+                 isActive={currentView === 'GAME' && gameMode === 'LEVEL'}
+                 coins={coins}
+                 deductCoins={deductCoins}
+                 level={level}
+                 currentXP={currentXP}
+                 xpNeeded={xpNeeded}
+               />
+             </div>
+             <div className={`flex-1 min-h-0 relative ${gameMode === 'VERSUS' ? '' : 'hidden'}`}>
+               <VersusGame isActive={currentView === 'GAME' && gameMode === 'VERSUS'} />
+             </div>
+           </div>
         </div>
         
+        <div className={`w-full h-full transition-opacity duration-300 ${currentView === 'BATTLE' ? 'opacity-100 pointer-events-auto relative z-10' : 'opacity-0 pointer-events-none absolute inset-0 z-0'}`}>
+             <BattleScreen
+                cards={inventory}
+                isActive={currentView === 'BATTLE'}
+                onBattleWon={handleBattleWon}
+             />
+        </div>
+
         <div className={`w-full h-full transition-opacity duration-300 ${currentView === 'SHOP' ? 'opacity-100 pointer-events-auto relative z-10' : 'opacity-0 pointer-events-none absolute inset-0 z-0'}`}>
              <PackOpener 
                coins={coins} 
@@ -503,6 +632,17 @@ const App: React.FC = () => {
           </div>
       )}
 
+      {/* Wild Encounter, held back while the advent door is open */}
+      {wildMonster && !dailyReward?.available && (
+          <WildEncounter
+            key={wildMonster.id}
+            card={wildMonster}
+            onCaught={(card) => addToCollection([card])}
+            onEscaped={handleWildMonsterEscaped}
+            onClose={closeEncounter}
+          />
+      )}
+
       {/* Love Letter Modal */}
       {showLoveLetter && (
           <div 
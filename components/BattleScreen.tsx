@@ -0,0 +1,232 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { BattleAction, BattleEvent, BattleFighter, BattleState, MonsterCard } from '../types';
+import { ELEMENT_ICONS, RARITY_COLORS, RARITY_TRANSLATIONS } from '../constants';
+import { BATTLE_CONFIG } from '../config/gameConfig';
+import { applyBattleAction, canAffordMove, chooseBattleAction, createBattle, getAttackDamage, getMoveDamage } from '../utils/battle';
+import { describeMoveEffect, MOVE_EFFECT_ICONS } from '../utils/moves';
+import { createFallbackCards } from '../services/geminiService';
+import { playSoftClick, playPopSound, playHardClick, playSuccessSound, playErrorSound } from '../utils/audio';
+
+interface BattleScreenProps {
+  cards: MonsterCard[];
+  isActive: boolean;
+  onBattleWon: () => void;
+}
+
+const LOG_LENGTH = 4;
+
+/** Any other card from the collection, or one of the standard monsters when there are none */
+const pickOpponent = (cards: MonsterCard[], playerCard: MonsterCard): MonsterCard => {
+  const others = cards.filter(card => card.id !== playerCard.id);
+  const pool = others.length > 0 ? others : createFallbackCards();
+  return pool[Math.floor(Math.random() * pool.length)];
+};
+
+const describeEvent = (event: BattleEvent, battle: BattleState): string | null => {
+  switch (event.type) {
+    case 'MOVE_USED': {
+      const fighter = battle.fighters[event.side];
+      const verdict = event.effectiveness > 1 ? ' Supereffektivt!' : event.effectiveness < 1 ? ' Ikke så effektivt...' : '';
+      const hits = event.hits > 1 ? ` (${event.hits} treff)` : '';
+      const blocked = event.blocked > 0 ? ` Skjoldet tok ${event.blocked}.` : '';
+      return `${fighter.card.name} bruker ${fighter.card.moves[event.moveIndex].name}: ${event.damage} skade${hits}!${verdict}${blocked}`;
+    }
+    case 'EFFECT_APPLIED':
+      return `${battle.fighters[event.side].card.name}: ${describeMoveEffect(event.effect)}`;
+    case 'BURN_DAMAGE':
+      return `${battle.fighters[event.side].card.name} brenner og mister ${event.damage} HP.`;
+    case 'TURN_SKIPPED':
+      return `${battle.fighters[event.side].card.name} er lammet og står over.`;
+    case 'RESTED':
+      return `${battle.fighters[event.side].card.name} hviler og samler energi.`;
+    case 'FAINTED':
+      return `${battle.fighters[event.side].card.name} orker ikke mer!`;
+    default:
+      return null;
+  }
+};
+
+const FighterPanel: React.FC<{ fighter: BattleFighter, isTurn: boolean, isHit: boolean, label: string }> = ({ fighter, isTurn, isHit, label }) => {
+  const hpShare = fighter.hp / fighter.maxHp;
+  return (
+    <div className={`relative rounded-2xl p-3 border transition-colors ${isTurn ? 'bg-pink-500/10 border-pink-500/40' : 'bg-white/5 border-white/10'} ${isHit ? 'animate-shake' : ''}`}>
+      <div className="flex items-center gap-3">
+        <span className="text-4xl">{ELEMENT_ICONS[fighter.card.type]}</span>
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-1.5">
+            <span className="text-white/40 text-[9px] font-bold uppercase tracking-wider font-cute">{label}</span>
+            {fighter.shield > 0 && <span className="text-[9px] font-bold text-sky-200 bg-sky-500/20 rounded-full px-1.5" title="Skjold">🛡️ {fighter.shield}</span>}
+            {fighter.burn && <span className="text-[9px] font-bold text-orange-200 bg-orange-500/20 rounded-full px-1.5" title="Brenner">🔥 {fighter.burn.damage}×{fighter.burn.turns}</span>}
+            {fighter.stunnedTurns > 0 && <span className="text-[9px] font-bold text-yellow-200 bg-yellow-500/20 rounded-full px-1.5" title="Lammet">💫 {fighter.stunnedTurns}</span>}
+          </div>
+          <p className="text-white font-bold font-cute truncate leading-tight">{fighter.card.name}{fighter.card.isShiny ? ' ✦' : ''}</p>
+          <span className={`text-[9px] uppercase tracking-widest font-bold ${RARITY_COLORS[fighter.card.rarity]}`}>{RARITY_TRANSLATIONS[fighter.card.rarity]}</span>
+        </div>
+      </div>
+      <div className="mt-2 flex items-center gap-2">
+        <div className="flex-1 h-2.5 bg-black/40 rounded-full overflow-hidden">
+          <div className={`h-full transition-all duration-500 ${hpShare > 0.5 ? 'bg-emerald-400' : hpShare > 0.2 ? 'bg-amber-400' : 'bg-red-500'}`}
+            style={{ width: `${hpShare * 100}%` }} />
+        </div>
+        <span className="text-white/80 font-mono text-[10px] font-bold w-14 text-right">{fighter.hp}/{fighter.maxHp}</span>
+      </div>
+      <div className="mt-1.5 flex gap-1" title="Energi">
+        {Array.from({ length: BATTLE_CONFIG.MAX_ENERGY }, (_, i) => (
+          <div key={i} className={`w-3 h-3 rounded-full border ${i < fighter.energy ? 'bg-yellow-300 border-yellow-200 shadow-[0_0_6px_rgba(253,224,71,0.7)]' : 'bg-black/30 border-white/10'}`} />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+/** Pick a card and fight a random opponent with its moves */
+const BattleScreen: React.FC<BattleScreenProps> = ({ cards, isActive, onBattleWon }) => {
+  const [battle, setBattle] = useState<BattleState | null>(null);
+  const [log, setLog] = useState<string[]>([]);
+  const [hitSide, setHitSide] = useState<0 | 1 | null>(null);
+
+  const sortedCards = useMemo(() => [...cards].sort((a, b) => b.hp - a.hp || a.name.localeCompare(b.name)), [cards]);
+
+  const startBattle = (card: MonsterCard) => {
+    playPopSound();
+    setBattle(createBattle(card, pickOpponent(cards, card)));
+    setLog([]);
+    setHitSide(null);
+  };
+
+  const act = (current: BattleState, action: BattleAction) => {
+    const { state: next, events } = applyBattleAction(current, action);
+    if (next === current) {
+      playErrorSound();
+      return;
+    }
+    events.forEach(event => {
+      if (event.type === 'MOVE_USED') {
+        playHardClick();
+        setHitSide(event.side === 0 ? 1 : 0);
+      }
+      if (event.type === 'BURN_DAMAGE') setHitSide(event.side);
+      if (event.type === 'BATTLE_ENDED') {
+        if (event.winner === 0) {
+          playSuccessSound();
+          onBattleWon();
+        } else {
+          playErrorSound();
+        }
+      }
+    });
+    const lines = events.map(event => describeEvent(event, next)).filter((line): line is string => !!line);
+    setLog(prev => [...prev, ...lines].slice(-LOG_LENGTH));
+    setBattle(next);
+  };
+  // Read through a ref so the opponent's timer only restarts when the battle changes
+  const actRef = useRef(act);
+  actRef.current = act;
+
+  // The opponent moves on its own after a short pause, and waits while the screen is hidden
+  useEffect(() => {
+    if (!battle || battle.winner !== null || battle.turn !== 1 || !isActive) return;
+    const timeout = setTimeout(() => actRef.current(battle, chooseBattleAction(battle)), BATTLE_CONFIG.OPPONENT_DELAY);
+    return () => clearTimeout(timeout);
+  }, [battle, isActive]);
+
+  useEffect(() => {
+    if (hitSide === null) return;
+    const timeout = setTimeout(() => setHitSide(null), 400);
+    return () => clearTimeout(timeout);
+  }, [hitSide]);
+
+  if (!battle) {
+    return (
+      <div className="w-full max-w-sm mx-auto px-4 flex flex-col gap-3">
+        <div className="text-center">
+          <h2 className="text-2xl font-magic font-bold text-pink-200">Monsterkamp</h2>
+          <p className="text-white/50 text-xs font-cute">Velg et kort. Angrep koster energi, og du får mer energi for hver runde.</p>
+        </div>
+        {sortedCards.length === 0 && (
+          <p className="text-white/40 text-xs font-cute text-center py-6">Du trenger minst ett kort. Åpne en pakke i butikken!</p>
+        )}
+        <div className="flex flex-col gap-1.5">
+          {sortedCards.map(card => (
+            <button key={card.id} onClick={() => startBattle(card)}
+              className="flex items-center gap-3 p-2.5 rounded-xl bg-white/5 border border-white/5 hover:bg-white/10 text-left transition-colors">
+              <span className="text-2xl w-8 text-center">{ELEMENT_ICONS[card.type]}</span>
+              <div className="flex-1 flex flex-col min-w-0">
+                <span className="text-white font-bold font-cute text-sm truncate">{card.name}{card.isShiny ? ' ✦' : ''}</span>
+                <span className="text-white/50 text-[10px] font-cute truncate">
+                  {card.moves.map(move => `${move.name} ${getMoveDamage(move)}⚔ ${move.cost}⚡`).join(' · ')}
+                </span>
+              </div>
+              <span className="text-white/80 font-mono font-bold text-sm">{card.hp} HP</span>
+            </button>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  const [player, opponent] = battle.fighters;
+  const isPlayerTurn = battle.turn === 0 && battle.winner === null;
+
+  return (
+    <div className="w-full max-w-sm mx-auto px-4 flex flex-col gap-3">
+      <FighterPanel fighter={opponent} isTurn={battle.turn === 1 && battle.winner === null} isHit={hitSide === 1} label="Motstander" />
+
+      <div className="min-h-[4.5rem] bg-black/30 rounded-xl p-2 flex flex-col justify-end gap-0.5">
+        {log.length === 0 && <p className="text-white/40 text-[11px] font-cute text-center">Kampen starter! Din tur.</p>}
+        {log.map((line, i) => (
+          <p key={i} className={`text-[11px] font-cute ${i === log.length - 1 ? 'text-white' : 'text-white/40'}`}>{line}</p>
+        ))}
+      </div>
+
+      <FighterPanel fighter={player} isTurn={isPlayerTurn} isHit={hitSide === 0} label="Deg" />
+
+      <div className="grid grid-cols-2 gap-2">
+        {player.card.moves.map((move, moveIndex) => {
+          const isAffordable = canAffordMove(player, move);
+          const effects = move.effects?.filter(effect => effect.type !== 'MULTI_HIT') ?? [];
+          return (
+            <button key={moveIndex} disabled={!isPlayerTurn || !isAffordable}
+              onClick={() => act(battle, { type: 'USE_MOVE', moveIndex })}
+              title={[move.description, ...(move.effects ?? []).map(describeMoveEffect)].join('\n')}
+              className="flex flex-col items-start p-2.5 rounded-xl bg-gradient-to-br from-pink-500/20 to-purple-600/20 border border-pink-500/30 text-left disabled:opacity-40 disabled:grayscale hover:border-pink-400 transition-all active:scale-95">
+              <span className="text-white font-bold font-cute text-sm leading-tight">{move.name}</span>
+              <span className="text-white/60 text-[10px] font-mono">{getAttackDamage(move, player, opponent)} skade · {'⚡'.repeat(move.cost)}</span>
+              {effects.length > 0 && (
+                <span className="text-[10px]">{effects.map(effect => MOVE_EFFECT_ICONS[effect.type]).join(' ')}</span>
+              )}
+            </button>
+          );
+        })}
+        <button disabled={!isPlayerTurn} onClick={() => { playSoftClick(); act(battle, { type: 'REST' }); }}
+          className="col-span-2 py-2 rounded-xl bg-white/5 border border-white/10 text-white/70 text-xs font-bold font-cute disabled:opacity-40 hover:bg-white/10">
+          😴 Hvil (+{BATTLE_CONFIG.REST_ENERGY + BATTLE_CONFIG.ENERGY_PER_TURN} energi til neste tur)
+        </button>
+      </div>
+
+      {battle.winner !== null && isActive && (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-fade-in">
+          <div className="bg-slate-900/90 border border-white/20 p-6 rounded-3xl shadow-2xl w-full max-w-xs text-center flex flex-col gap-3 animate-modal-zoom">
+            <div className="text-6xl">{battle.winner === 0 ? '🏆' : battle.winner === 1 ? '💫' : '🤝'}</div>
+            <h3 className="text-3xl font-bold font-magic text-pink-200">
+              {battle.winner === 0 ? 'Du vant!' : battle.winner === 1 ? 'Du tapte' : 'Uavgjort'}
+            </h3>
+            {battle.winner === 0 && (
+              <p className="text-amber-300 font-bold font-mono">+{BATTLE_CONFIG.WIN_COINS} 🪙 · +{BATTLE_CONFIG.WIN_XP} XP</p>
+            )}
+            <button onClick={() => startBattle(player.card)}
+              className="w-full bg-gradient-to-r from-pink-500 to-purple-600 text-white font-bold py-3 rounded-xl shadow-lg font-cute">
+              Ny kamp
+            </button>
+            <button onClick={() => { playSoftClick(); setBattle(null); }}
+              className="w-full bg-white/10 text-white/80 font-bold py-2 rounded-xl font-cute text-sm">
+              Bytt kort
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BattleScreen;
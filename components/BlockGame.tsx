@@ -1,64 +1,32 @@
 import React, { useState, useEffect, useCallback, useRef, memo } from 'react';
-import { GridCell, Shape, ShapeLayout, FloatingText, Particle, PowerUpType } from '../types';
+import { GridCell, Shape, FloatingText, Particle, PowerUpType, GameState, GameAction, GameEvent, CellRef, ReplayLog, BlockGameMode, LevelDefinition, BoardDefinition, PaceTrack, RunStats, MonsterCard, SavedGameSession, SavedGameSlot } from '../types';
 import { playMagicalSparkle, playHardClick, playSoftClick, playPopSound, playErrorSound, playSuccessSound } from '../utils/audio';
-import { storageService } from '../services/storageService';
-import { BLOCK_GAME_CONFIG, POWER_UP_COSTS, PARTICLE_CONFIG, ANIMATION_CONFIG, ECONOMY_CONFIG } from '../config/gameConfig';
-
-const GRID_SIZE = BLOCK_GAME_CONFIG.GRID_SIZE;
-// Christmas Palette: Santa Red, Pine Green, Gold, Ice Blue, Royal Purple
-const COLORS = [
-  '#ef4444', // Red
-  '#15803d', // Green
-  '#eab308', // Gold
-  '#3b82f6', // Ice Blue
-  '#a855f7'  // Purple
-];
-
-const JULE_WORDS = [
-    "GOD JUL!", "HO HO HO!", "NISSEFAR!", "JULEBRUS!", 
-    "PEPPERKAKE!", "MARSIPAN!", "RIBBE!", "PINNEKJØTT!", 
-    "MANDEL!", "GLØGG!", "JULERIBBE!", "SNØMANN!"
-];
-
-// Expanded Shape Library
-const SHAPES_TEMPLATES: { layout: ShapeLayout, id: string, difficulty: 'EASY' | 'MEDIUM' | 'HARD' }[] = [
-  { id: '1x1', layout: [[1]], difficulty: 'EASY' },
-  { id: '1x2', layout: [[1, 1]], difficulty: 'EASY' },
-  { id: '2x1', layout: [[1], [1]], difficulty: 'EASY' },
-  { id: '2x2', layout: [[1, 1], [1, 1]], difficulty: 'EASY' },
-  { id: 'Diag2', layout: [[1,0],[0,1]], difficulty: 'EASY' },
-  
-  { id: '1x3', layout: [[1, 1, 1]], difficulty: 'MEDIUM' },
-  { id: '3x1', layout: [[1], [1], [1]], difficulty: 'MEDIUM' },
-  { id: 'L', layout: [[1, 0], [1, 0], [1, 1]], difficulty: 'MEDIUM' },
-  { id: 'L_inv', layout: [[0, 1], [0, 1], [1, 1]], difficulty: 'MEDIUM' },
-  { id: 'T', layout: [[1, 1, 1], [0, 1, 0]], difficulty: 'MEDIUM' },
-  { id: 'T_inv', layout: [[0, 1, 0], [1, 1, 1]], difficulty: 'MEDIUM' },
-  { id: 'Z', layout: [[1, 1, 0], [0, 1, 1]], difficulty: 'MEDIUM' },
-  { id: 'S', layout: [[0, 1, 1], [1, 1, 0]], difficulty: 'MEDIUM' },
-  { id: 'Diag3', layout: [[1,0,0],[0,1,0],[0,0,1]], difficulty: 'MEDIUM' },
-
-  { id: '3x3_L', layout: [[1, 0, 0], [1, 0, 0], [1, 1, 1]], difficulty: 'HARD' },
-  { id: 'Plus', layout: [[0, 1, 0], [1, 1, 1], [0, 1, 0]], difficulty: 'HARD' },
-  { id: 'U', layout: [[1, 0, 1], [1, 1, 1]], difficulty: 'HARD' },
-  { id: 'BigL', layout: [[1,0,0],[1,0,0],[1,1,1]], difficulty: 'HARD' }
-];
-
-// POWER_UP_COSTS imported from gameConfig
-
-// Helper: Rotate Matrix 90deg Clockwise
-const rotateLayout = (layout: ShapeLayout): ShapeLayout => {
-  const rows = layout.length;
-  const cols = layout[0].length;
-  const newLayout: number[][] = Array(cols).fill(0).map(() => Array(rows).fill(0));
-  
-  for(let r=0; r<rows; r++) {
-    for(let c=0; c<cols; c++) {
-      newLayout[c][rows - 1 - r] = layout[r][c];
-    }
-  }
-  return newLayout;
-};
+import { storageService, FREE_PLAY_SESSION_KEY, DAILY_SESSION_KEY, BLITZ_SESSION_KEY } from '../services/storageService';
+import { BLOCK_GAME_CONFIG, POWER_UP_COSTS, SAVE_SLOT_CONFIG, PARTICLE_CONFIG, ANIMATION_CONFIG, BLITZ_CONFIG, UNDO_CONFIG, SPECIAL_CELL_CONFIG, CONTROLS_CONFIG, getBlitzTimeBonus, getBlockGameRewards } from '../config/gameConfig';
+import { applyAction, canPlaceShape, createInitialState, restoreState, withDealStream, toSavedSession, getPowerUpAffectedCells, getBombRadius, isTargetedPowerUp, isTrayPowerUp, DEFAULT_POWER_UPS, POWER_UP_TYPES, RESCUE_POWER_UP_TYPES } from '../utils/blockEngine';
+import { findBestMove, HintMove } from '../utils/hints';
+import { createDifficultyState, createFixedDealDifficulty } from '../utils/difficulty';
+import { getCellColor, isHole } from '../utils/cells';
+import { BOARDS, CLASSIC_BOARD, getBoard, describeBoard } from '../utils/boards';
+import { ControlCommand, getKeyCommand, createGamepadPoller, moveCursor, getDragAnchor } from '../utils/controls';
+import { formatSeed } from '../utils/random';
+import { createReplayLog, appendReplayAction, finalizeReplay } from '../utils/replay';
+import { buildPaceTrack, comparePace, countPlacements, decodeBoard } from '../utils/pace';
+import { createRunStats, updateRunStats, createGameStatsRecord } from '../utils/stats';
+import { buildRunModifiers, resolveEquippedCards } from '../utils/cardPassives';
+import { ELEMENT_ICONS, MAX_EQUIPPED_CARDS } from '../constants';
+import { createLevelState, createLevelRun, updateLevelRun, getLevelStatus, getLevelStars, getGoalProgress, describeGoal, LevelRun, LevelStatus } from '../utils/levels';
+import ReplayViewer from './ReplayViewer';
+import StatsScreen from './StatsScreen';
+import CardLoadout from './CardLoadout';
+import ScoreBreakdown from './ScoreBreakdown';
+import SaveSlots from './SaveSlots';
+import MiniBoard from './MiniBoard';
+import DifficultyOverlay from './DifficultyOverlay';
+import SpecialCellMark from './SpecialCellMark';
+
+// Rules, shape templates and scoring live in utils/blockEngine.ts.
+// This component only renders the engine state and turns its events into "juice".
 
 // --- MEMOIZED COMPONENTS (Optimization) ---
 interface GridProps {
@@ -69,19 +37,23 @@ interface GridProps {
   selectedShape: Shape | null;
   hoveredCell: {r: number, c: number} | null;
   activePowerUp: PowerUpType | null;
+  showCursor: boolean; // Outline the hovered cell while playing by keyboard or gamepad
+  gridRef: React.RefObject<HTMLDivElement | null>;
 }
 
-const MemoizedGrid = memo(({ grid, onHover, onClick, getCellStatus, selectedShape, hoveredCell }: GridProps) => {
+const MemoizedGrid = memo(({ grid, onHover, onClick, getCellStatus, selectedShape, hoveredCell, showCursor, gridRef }: GridProps) => {
     return (
-        <div className="grid grid-cols-8 gap-1 w-full h-full relative z-10">
+        <div ref={gridRef} className="grid gap-1 w-full h-full relative z-10"
+            style={{ gridTemplateColumns: `repeat(${grid[0].length}, minmax(0, 1fr))`, gridTemplateRows: `repeat(${grid.length}, minmax(0, 1fr))` }}>
           {grid.map((row, r) => (
             row.map((cell, c) => {
               const status = getCellStatus(r, c, hoveredCell);
               let style: React.CSSProperties = {};
-              if (status === 'filled' && cell) style = { backgroundColor: cell };
+              if (status === 'filled' && cell) style = { backgroundColor: getCellColor(cell)! };
               else if (status === 'ghost-valid' && selectedShape) style = { backgroundColor: selectedShape.color };
               else if (status === 'ghost-invalid') style = { backgroundColor: 'rgba(239, 68, 68, 0.4)' };
               else if (status === 'powerup-target') style = { backgroundColor: '#fff', animation: 'pulse 0.5s cubic-bezier(0.4, 0, 0.6, 1) infinite', zIndex: 25 };
+              else if (status === 'hint') style = { backgroundColor: 'rgba(250, 204, 21, 0.35)', animation: 'pulse 1.2s cubic-bezier(0.4, 0, 0.6, 1) infinite' };
 
               return (
                 <div
@@ -90,15 +62,19 @@ const MemoizedGrid = memo(({ grid, onHover, onClick, getCellStatus, selectedShap
                   onClick={() => onClick(r, c)}
                   className={`
                     w-full h-full rounded-[4px] sm:rounded-md transition-all duration-150 flex items-center justify-center
+                    ${status === 'hole' ? 'opacity-0' : ''}
                     ${status === 'filled' ? 'gem-block-3d' : ''}
                     ${status === 'empty' ? 'cyber-cell-empty' : ''}
                     ${status === 'ghost-valid' ? 'gem-block-3d gem-ghost' : ''}
                     ${status === 'ghost-invalid' ? 'rounded-lg border border-red-500/50' : ''}
+                    ${status === 'hint' ? 'border border-amber-300/80' : ''}
                     ${status === 'clearing' ? 'bg-white animate-flash z-30' : ''}
+                    ${showCursor && hoveredCell?.r === r && hoveredCell?.c === c ? 'ring-2 ring-cyan-300' : ''}
                   `}
                   style={style}
                 >
                    {(status === 'filled') && <div className="gem-block-3d-inner"></div>}
+                   {(status === 'filled') && <SpecialCellMark cell={cell} />}
                    {status === 'clearing' && <div className="absolute inset-0 bg-white z-40 animate-crumble rounded-[4px]"></div>}
                 </div>
               )
@@ -108,162 +84,299 @@ const MemoizedGrid = memo(({ grid, onHover, onClick, getCellStatus, selectedShap
     );
 });
 
+// Every mode keeps its own in-progress run; puzzle levels are short and never saved
+const SESSION_KEYS: Record<BlockGameMode, string | null> = {
+  FREE_PLAY: FREE_PLAY_SESSION_KEY,
+  DAILY: DAILY_SESSION_KEY,
+  BLITZ: BLITZ_SESSION_KEY,
+  LEVEL: null
+};
+
+const BLITZ_START_MS = BLITZ_CONFIG.START_SECONDS * 1000;
+
+// Rotating and holding are free to redo, so only these can be taken back
+const UNDOABLE_ACTIONS: GameAction['type'][] = ['PLACE', 'USE_POWER_UP', 'USE_TRAY_POWER_UP', 'REFRESH', 'FREEZE'];
+
+/** A refresh or freeze bought with coins can't be undone, and neither can anything before it */
+const isPurchasedAction = (action: GameAction): boolean =>
+  (action.type === 'REFRESH' || action.type === 'FREEZE') && !!action.purchased;
+
+/** Everything needed to rewind one move */
+interface UndoSnapshot {
+  state: GameState;
+  replayLength: number; // Replay actions recorded before the move
+  levelRun: LevelRun | null;
+  runStats: RunStats;
+  timeBonusMs: number; // Blitz time handed out for clears before the move
+}
+
+/** Formats a clock value as m:ss, rounding up so 0:00 only shows when time is out */
+const formatClock = (ms: number): string => {
+  const totalSeconds = Math.ceil(ms / 1000);
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+};
+
+/** Set when the board is used for the daily challenge instead of free play */
+interface ChallengeOptions {
+  seed: number;
+  isScored: boolean; // Only the day's first attempt gives coins and XP
+  bestScore: number;
+}
+
 interface GameProps {
-  onGameOver: (score: number) => void;
+  onGameOver: (score: number, goldCollected: number) => void;
   isActive: boolean;
   coins: number;
   deductCoins: (amount: number) => boolean;
   level: number;
   currentXP: number;
   xpNeeded: number;
+  mode?: BlockGameMode;
+  challenge?: ChallengeOptions; // Required for DAILY
+  puzzle?: LevelDefinition; // Required for LEVEL
+  onPuzzleEnd?: (result: { status: Exclude<LevelStatus, 'PLAYING'>, stars: number, score: number }) => void;
+  cards?: MonsterCard[]; // Collection to equip passives from; only free play and Blitz take it
 }
 
-const BlockGame: React.FC<GameProps> = ({ onGameOver, isActive, coins, deductCoins, level, currentXP, xpNeeded }) => {
-  const [grid, setGrid] = useState<GridCell[][]>(Array(GRID_SIZE).fill(null).map(() => Array(GRID_SIZE).fill(null)));
-  const [shapes, setShapes] = useState<Shape[]>([]);
-  const [holdShape, setHoldShape] = useState<Shape | null>(null);
-  const [score, setScore] = useState(0);
+const BlockGame: React.FC<GameProps> = ({ onGameOver, isActive, coins, deductCoins, level, currentXP, xpNeeded, mode = 'FREE_PLAY', challenge, puzzle, onPuzzleEnd, cards }) => {
+  // Only free play owns the persisted power-up inventory; other modes start from a fixed kit
+  const sessionKey = SESSION_KEYS[mode];
+  const ownsPowerUpInventory = mode === 'FREE_PLAY';
+  const isTimed = mode === 'BLITZ';
+  // Everyone gets the same daily trays, so nobody can take a move back there
+  const canUndo = mode !== 'DAILY';
+  const challengeSeed = challenge?.seed;
+  // Free play and Blitz can run on any board; the daily challenge and levels are always classic
+  const canPickBoard = mode === 'FREE_PLAY' || mode === 'BLITZ';
+  const loadPreferredBoard = (): BoardDefinition => canPickBoard ? getBoard(storageService.loadBoardId(mode)) : CLASSIC_BOARD;
+  // Card passives are picked once, when a run starts
+  const canEquipCards = !!cards && (mode === 'FREE_PLAY' || mode === 'BLITZ');
+  const [equippedIds, setEquippedIds] = useState<string[]>(() => canEquipCards ? storageService.loadEquippedCardIds() : []);
+  const equippedCards = canEquipCards ? resolveEquippedCards(cards!, equippedIds) : [];
+  const createFreshState = (
+      startingPowerUps: Record<PowerUpType, number>,
+      board: BoardDefinition = loadPreferredBoard(),
+      equipped: MonsterCard[] = equippedCards
+  ): GameState =>
+      puzzle ? createLevelState(puzzle)
+      // Everyone gets the same daily trays, whatever they do with the board
+      : mode === 'DAILY' ? withDealStream(createInitialState(startingPowerUps, challengeSeed, createFixedDealDifficulty()))
+      : createInitialState(startingPowerUps, challengeSeed, createDifficultyState(level, BLOCK_GAME_CONFIG.DIFFICULTY.ADAPTIVE),
+          board.id === CLASSIC_BOARD.id ? undefined : board, buildRunModifiers(equipped));
+
+  // Engine State (single source of truth for the rules)
+  const [game, setGame] = useState<GameState>(() => createFreshState(DEFAULT_POWER_UPS));
+  const { grid, shapes, holdShape, score, comboCount, streakCount, powerUps, rescueMode, isGameOver } = game;
+  const board = game.board ?? CLASSIC_BOARD;
   const [highScore, setHighScore] = useState(0);
+  const [paceTrack, setPaceTrack] = useState<PaceTrack | null>(null);
+  const [showPaceBoard, setShowPaceBoard] = useState(false);
   const [selectedShapeIdx, setSelectedShapeIdx] = useState<number | null>(null);
-  const [isGameOver, setIsGameOver] = useState(false);
   const [isSessionLoaded, setIsSessionLoaded] = useState(false);
+  const [showReplays, setShowReplays] = useState(false);
+  const [showStats, setShowStats] = useState(false);
+  const [showLoadout, setShowLoadout] = useState(false);
+  const [showSaveSlots, setShowSaveSlots] = useState(false);
   
   // Animated Stats for Game Over
   const [earnedCoins, setEarnedCoins] = useState(0);
+  const [earnedXP, setEarnedXP] = useState(0);
+  const [isPracticeRun, setIsPracticeRun] = useState(false);
   const [displayScore, setDisplayScore] = useState(0);
   const [displayCoins, setDisplayCoins] = useState(0);
   const [displayXP, setDisplayXP] = useState(0);
   const [gameOverPhase, setGameOverPhase] = useState(0); // 0: None, 1: Title, 2: Score, 3: XP, 4: Coins, 5: Done
+  const [finalRunStats, setFinalRunStats] = useState<RunStats | null>(null);
+
+  // Blitz Clock
+  const [timeLeftMs, setTimeLeftMs] = useState(BLITZ_START_MS);
+  const [isPaused, setIsPaused] = useState(false);
+  const timeLeftRef = useRef(BLITZ_START_MS);
+
+  // Puzzle Level Progress
+  const [levelRun, setLevelRun] = useState<LevelRun | null>(() => puzzle ? createLevelRun(puzzle) : null);
+  const levelRunRef = useRef(levelRun);
+  const levelResultTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [levelStatus, setLevelStatus] = useState<LevelStatus>('PLAYING');
   
   // Power Ups State
-  const [powerUps, setPowerUps] = useState<Record<PowerUpType, number>>({
-    BOMB: 1,
-    LINE: 1,
-    COLOR: 1,
-    SINGLE: 1,
-    REFRESH: 1
-  });
   const [powerUpsLoaded, setPowerUpsLoaded] = useState(false);
-
   const [activePowerUp, setActivePowerUp] = useState<PowerUpType | null>(null);
-  const [rescueMode, setRescueMode] = useState(false);
+  const [swapPick, setSwapPick] = useState<number | null>(null); // First tray slot picked for SWAP
+  const isTrayTargeting = activePowerUp !== null && isTrayPowerUp(activePowerUp);
+  const [hint, setHint] = useState<HintMove | null>(null);
+  const [showDifficulty, setShowDifficulty] = useState(false);
 
   // Game "Juice" State
   const [hoveredCell, setHoveredCell] = useState<{r: number, c: number} | null>(null);
+  const [showCursor, setShowCursor] = useState(false);
+  const [hasGamepad, setHasGamepad] = useState(false);
+  // Screen position of a tray shape being dragged, already lifted above the finger
+  const [dragPoint, setDragPoint] = useState<{ x: number, y: number } | null>(null);
   const [floatingTexts, setFloatingTexts] = useState<FloatingText[]>([]);
   const [particles, setParticles] = useState<Particle[]>([]);
-  const [clearingRows, setClearingRows] = useState<number[]>([]);
-  const [clearingCols, setClearingCols] = useState<number[]>([]);
+  // While set, the grid shows the pre-clear board with the cleared lines flashing
+  const [clearAnimation, setClearAnimation] = useState<{ grid: GridCell[][], rows: number[], cols: number[] } | null>(null);
   const [shakeType, setShakeType] = useState<'none' | 'light' | 'heavy'>('none');
-  const [comboCount, setComboCount] = useState(0);
-  const [streakCount, setStreakCount] = useState(0);
   
   const floatingTextIdRef = useRef(0);
   const floatingTextTimeoutsRef = useRef<Set<ReturnType<typeof setTimeout>>>(new Set());
   const shakeTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const gameOverTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const clearAnimationTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   
   // Track Game Round to prevent stale Game Over checks after reset
   const gameRoundRef = useRef(0);
-  
-  // Ref for generating unique IDs correctly across renders/resets
-  const shapeCounterRef = useRef(0);
-
-  // --- STARTUP LOGIC ---
-  const generateShapes = useCallback(() => {
-    const newShapes: Shape[] = [];
-    const shuffledColors = [...COLORS].sort(() => 0.5 - Math.random());
-    
-    // Categorize shapes
-    const single = SHAPES_TEMPLATES.find(s => s.id === '1x1')!;
-    const small = SHAPES_TEMPLATES.filter(s => ['1x2', '2x1', 'Diag2'].includes(s.id));
-    const medium = SHAPES_TEMPLATES.filter(s => (s.difficulty === 'MEDIUM' || s.id === '2x2'));
-    const hard = SHAPES_TEMPLATES.filter(s => s.difficulty === 'HARD');
-
-    // Slot 1: Challenge
-    const pool1 = Math.random() < 0.35 ? hard : medium;
-    const s1 = pool1[Math.floor(Math.random() * pool1.length)];
-
-    // Slot 2: Connector
-    const pool2 = Math.random() < 0.5 ? medium : small;
-    const s2 = pool2[Math.floor(Math.random() * pool2.length)];
-
-    // Slot 3: Safety
-    const probSingle = s1.difficulty === 'HARD' ? 0.7 : 0.4;
-    const s3 = Math.random() < probSingle ? single : small[Math.floor(Math.random() * small.length)];
-
-    const templates = [s1, s2, s3];
-    const shuffledTemplates = templates
-        .map(value => ({ value, sort: Math.random() }))
-        .sort((a, b) => a.sort - b.sort)
-        .map(({ value }) => value);
-
-    shuffledTemplates.forEach((template, i) => {
-        // More robust ID generation using counter + timestamp + random
-        shapeCounterRef.current += 1;
-        const uniqueId = `shape-${Date.now()}-${shapeCounterRef.current}-${i}-${Math.random().toString(36).slice(2, 7)}`;
-        newShapes.push({ 
-            ...template, 
-            id: uniqueId, 
-            color: shuffledColors[i % shuffledColors.length] 
-        });
-    });
 
-    setShapes(newShapes);
+  // Latest engine state, updated synchronously so rapid dispatches never see stale state
+  const gameRef = useRef(game);
+  const isSessionLoadedRef = useRef(isSessionLoaded);
+  const gameEventHandlerRef = useRef<(events: GameEvent[]) => void>(() => {});
+  const controlHandlerRef = useRef<(command: ControlCommand) => void>(() => {});
+  const gridRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ shapeIdx: number, pointerId: number, startX: number, startY: number, lift: number, isDragging: boolean } | null>(null);
+  const suppressClickRef = useRef(false); // Swallows the click that ends a drag
+  // Actions of the current run. Null for sessions saved before replays existed.
+  const replayLogRef = useRef<ReplayLog | null>(null);
+  // Totals for the stats screen, recorded when the run ends
+  const runStatsRef = useRef<RunStats>(createRunStats());
+  // States before the latest placements and power-ups, newest last
+  const undoStackRef = useRef<UndoSnapshot[]>([]);
+  // Blitz time earned from clears this run, so undoing a clear can take its bonus back
+  const timeBonusMsRef = useRef(0);
+  const [undoCount, setUndoCount] = useState(0);
+
+  const commitGame = useCallback((next: GameState) => {
+      gameRef.current = next;
+      setGame(next);
   }, []);
 
+  const setClock = (ms: number) => {
+      timeLeftRef.current = ms;
+      setTimeLeftMs(ms);
+  };
+
+  const setUndoStack = (stack: UndoSnapshot[]) => {
+      undoStackRef.current = stack;
+      setUndoCount(stack.length);
+  };
+
+  const dispatch = useCallback((action: GameAction): GameEvent[] => {
+      const { state: next, events } = applyAction(gameRef.current, action);
+      if (next !== gameRef.current) {
+          if (!canUndo || isPurchasedAction(action)) {
+              // Rewinding across a purchase would take back what was paid for
+              if (undoStackRef.current.length > 0) setUndoStack([]);
+          } else if (UNDOABLE_ACTIONS.includes(action.type)) {
+              const snapshot: UndoSnapshot = {
+                  state: gameRef.current,
+                  replayLength: replayLogRef.current?.actions.length ?? 0,
+                  levelRun: levelRunRef.current,
+                  runStats: runStatsRef.current,
+                  timeBonusMs: timeBonusMsRef.current
+              };
+              setUndoStack([...undoStackRef.current, snapshot].slice(-UNDO_CONFIG.MAX_DEPTH));
+          } else if (action.type === 'GRANT_POWER_UP') {
+              // Purchases are paid for, so undoing an earlier move must not take them back
+              setUndoStack(undoStackRef.current.map(snapshot => ({
+                  ...snapshot,
+                  state: {
+                      ...snapshot.state,
+                      powerUps: { ...snapshot.state.powerUps, [action.powerUp]: snapshot.state.powerUps[action.powerUp] + 1 }
+                  }
+              })));
+          }
+          if (replayLogRef.current) replayLogRef.current = appendReplayAction(replayLogRef.current, action);
+          runStatsRef.current = updateRunStats(runStatsRef.current, events);
+          if (levelRunRef.current) {
+              levelRunRef.current = updateLevelRun(levelRunRef.current, action, events);
+              setLevelRun(levelRunRef.current);
+          }
+          commitGame(next);
+      }
+      gameEventHandlerRef.current(events);
+      return events;
+  }, [commitGame, canUndo]);
+
+  // Set together with the run it belongs to, so a board switch never compares against another board's record
+  const loadHighScore = (boardId: string): number => {
+      if (mode === 'BLITZ') return storageService.loadBlitzHighScore(boardId);
+      if (mode === 'DAILY') return challenge?.bestScore ?? 0;
+      return storageService.loadHighScore(boardId);
+  };
+
+  // The best run to pace against; levels have a fixed queue and no replay, so they have none
+  const loadPaceTrack = (boardId: string): PaceTrack | null => puzzle ? null : storageService.loadPaceTrack(mode, boardId);
+
+  // Puts a suspended run back on the board, on startup or from a save slot
+  const restoreSession = (session: SavedGameSession, startingPowerUps: Record<PowerUpType, number>) => {
+      replayLogRef.current = session.replayLog ?? null;
+      // Time away from the app doesn't count as play time
+      runStatsRef.current = session.runStats ? { ...session.runStats, lastActionAt: Date.now() } : createRunStats();
+      commitGame(restoreState(session, startingPowerUps));
+      setHighScore(loadHighScore(session.board?.id ?? CLASSIC_BOARD.id));
+      setPaceTrack(loadPaceTrack(session.board?.id ?? CLASSIC_BOARD.id));
+      if (isTimed) {
+          setClock(session.timeLeftMs ?? BLITZ_START_MS);
+          setIsPaused(true); // Never resume straight into a running clock
+      }
+  };
+
+  // --- STARTUP LOGIC ---
+  // Read through a ref so startup only runs on mount; mode never changes and the host remounts the board when the challenge day changes
+  const loadStartupRef = useRef<() => Promise<void>>(async () => {});
+  loadStartupRef.current = async () => {
+    const savedPU = ownsPowerUpInventory ? await storageService.loadPowerUps() : null;
+    // Inventories saved before a power-up existed get the starting count of it
+    const startingPowerUps = savedPU ? { ...DEFAULT_POWER_UPS, ...savedPU } : DEFAULT_POWER_UPS;
+
+    const session = sessionKey ? await storageService.loadGameSession(sessionKey) : null;
+    // A daily session from another day is stale and gets replaced
+    const isSessionUsable = session && !session.isGameOver && (session.score > 0 || session.shapes.length > 0)
+        && (challengeSeed === undefined || session.seed === challengeSeed);
+    if (session && isSessionUsable) {
+        restoreSession(session, startingPowerUps);
+    } else {
+        const fresh = createFreshState(startingPowerUps);
+        // Level boards can't be rebuilt from a seed, so they have no replay
+        replayLogRef.current = puzzle ? null : createReplayLog(fresh);
+        runStatsRef.current = createRunStats();
+        commitGame(fresh);
+        setHighScore(loadHighScore(fresh.board?.id ?? CLASSIC_BOARD.id));
+        setPaceTrack(loadPaceTrack(fresh.board?.id ?? CLASSIC_BOARD.id));
+    }
+    setPowerUpsLoaded(true);
+    setIsSessionLoaded(true);
+  };
   useEffect(() => {
-    const init = async () => {
-        setHighScore(storageService.loadHighScore());
-        
-        const savedPU = await storageService.loadPowerUps();
-        if (savedPU) setPowerUps(savedPU);
-        setPowerUpsLoaded(true);
-
-        const session = await storageService.loadGameSession();
-        if (session && !session.isGameOver && (session.score > 0 || session.shapes.length > 0)) {
-            setGrid(session.grid);
-            setShapes(session.shapes);
-            setHoldShape(session.holdShape);
-            setScore(session.score);
-            setComboCount(session.comboCount);
-            setStreakCount(session.streakCount);
-            setRescueMode(session.rescueMode);
-            setIsGameOver(session.isGameOver);
-        } else {
-            generateShapes();
-        }
-        setIsSessionLoaded(true);
-    };
-    init();
-  }, [generateShapes]);
+    loadStartupRef.current();
+  }, []);
 
   // --- AUTO SAVE LOGIC ---
-  const gameStateRef = useRef({ grid, shapes, holdShape, score, comboCount, streakCount, rescueMode, isGameOver, isSessionLoaded });
   useEffect(() => {
-      gameStateRef.current = { grid, shapes, holdShape, score, comboCount, streakCount, rescueMode, isGameOver, isSessionLoaded };
-  }, [grid, shapes, holdShape, score, comboCount, streakCount, rescueMode, isGameOver, isSessionLoaded]);
+      isSessionLoadedRef.current = isSessionLoaded;
+  }, [isSessionLoaded]);
+
+  const captureSession = useCallback((): SavedGameSession => ({
+      ...toSavedSession(gameRef.current),
+      replayLog: replayLogRef.current ?? undefined,
+      runStats: runStatsRef.current,
+      timeLeftMs: isTimed ? timeLeftRef.current : undefined
+  }), [isTimed]);
 
   const saveState = useCallback(() => {
-      const state = gameStateRef.current;
-      if (!state.isSessionLoaded) return;
-      
-      if (state.isGameOver) {
-          storageService.clearGameSession();
+      if (!isSessionLoadedRef.current || !sessionKey) return;
+      if (gameRef.current.isGameOver) {
+          storageService.clearGameSession(sessionKey);
           return;
       }
-      // Save full session state
-      storageService.saveGameSession({
-          grid: state.grid,
-          shapes: state.shapes,
-          holdShape: state.holdShape,
-          score: state.score,
-          comboCount: state.comboCount,
-          streakCount: state.streakCount,
-          rescueMode: state.rescueMode,
-          isGameOver: state.isGameOver
-      });
-  }, []);
+      storageService.saveGameSession(captureSession(), sessionKey);
+  }, [sessionKey, captureSession]);
+
+  // A fresh run that never started ticking has nothing to pause
+  const pauseClock = useCallback(() => {
+      if (isTimed && !gameRef.current.isGameOver && timeLeftRef.current !== BLITZ_START_MS) setIsPaused(true);
+  }, [isTimed]);
 
   // Periodic Save (30s) and Visibility Change
   useEffect(() => {
@@ -271,10 +384,12 @@ const BlockGame: React.FC<GameProps> = ({ onGameOver, isActive, coins, deductCoi
 
       const handleVisibilityChange = () => {
           if (document.visibilityState === 'hidden') {
+              pauseClock();
               saveState();
           }
       };
       const handleBlur = () => {
+          pauseClock();
           saveState();
       }
       
@@ -288,27 +403,59 @@ const BlockGame: React.FC<GameProps> = ({ onGameOver, isActive, coins, deductCoi
           window.removeEventListener('blur', handleBlur);
           window.removeEventListener('beforeunload', handleBlur);
       };
-  }, [saveState]);
+  }, [saveState, pauseClock]);
+
+  // A half-picked SWAP is dropped when targeting changes
+  useEffect(() => {
+      setSwapPick(null);
+  }, [activePowerUp]);
+
+  // A hint only applies to the board it was computed for
+  useEffect(() => {
+      setHint(null);
+  }, [grid]);
+
+  // Leaving the view pauses Blitz too
+  useEffect(() => {
+      if (!isActive) pauseClock();
+  }, [isActive, pauseClock]);
+
+  // Blitz Countdown
+  useEffect(() => {
+      if (!isTimed || isPaused || isGameOver || !isActive || !isSessionLoaded) return undefined;
+
+      let lastTick = performance.now();
+      const interval = setInterval(() => {
+          const now = performance.now();
+          const remaining = Math.max(0, timeLeftRef.current - (now - lastTick));
+          lastTick = now;
+          setClock(remaining);
+          if (remaining <= 0) dispatch({ type: 'TIME_UP' });
+      }, BLITZ_CONFIG.TICK_INTERVAL);
+
+      return () => clearInterval(interval);
+  }, [isTimed, isPaused, isGameOver, isActive, isSessionLoaded, dispatch]);
 
   useEffect(() => {
     if (score > highScore) {
       setHighScore(score);
-      storageService.saveHighScore(score);
+      if (mode === 'FREE_PLAY') storageService.saveHighScore(score, board.id);
+      else if (mode === 'BLITZ') storageService.saveBlitzHighScore(score, board.id);
+      // Daily bests are kept by the challenge host
     }
-  }, [score, highScore]);
+  }, [score, highScore, mode, board.id]);
   
   useEffect(() => {
-      if (powerUpsLoaded) {
+      if (powerUpsLoaded && ownsPowerUpInventory) {
           storageService.savePowerUps(powerUps);
       }
-  }, [powerUps, powerUpsLoaded]);
+  }, [powerUps, powerUpsLoaded, ownsPowerUpInventory]);
 
   // Check for Game Over immediately when shapes change
   useEffect(() => {
       if (shapes.length > 0 && !isGameOver && !rescueMode && isSessionLoaded && isActive) {
-          checkGameOver(grid, shapes);
+          checkGameOver();
       }
-      // CRITICAL: We include 'grid' to ensure the closure isn't stale when grid updates happen simultaneously with shape updates (e.g. after clear)
       // Added 'isActive' to prevent checks when game is not visible
   }, [shapes, isGameOver, rescueMode, isSessionLoaded, grid, isActive]); 
 
@@ -357,9 +504,9 @@ const BlockGame: React.FC<GameProps> = ({ onGameOver, isActive, coins, deductCoi
          countUp(0, score, setDisplayScore, ANIMATION_CONFIG.SCORE_COUNT_DURATION);
     }
     
-    if (gameOverPhase === 3 && score > 0 && displayXP === 0) {
+    if (gameOverPhase === 3 && earnedXP > 0 && displayXP === 0) {
          playSuccessSound();
-         countUp(0, score, setDisplayXP, ANIMATION_CONFIG.SCORE_COUNT_DURATION);
+         countUp(0, earnedXP, setDisplayXP, ANIMATION_CONFIG.SCORE_COUNT_DURATION);
     }
     
     if (gameOverPhase === 4 && earnedCoins > 0 && displayCoins === 0) {
@@ -367,46 +514,113 @@ const BlockGame: React.FC<GameProps> = ({ onGameOver, isActive, coins, deductCoi
          countUp(0, earnedCoins, setDisplayCoins, ANIMATION_CONFIG.SCORE_COUNT_DURATION);
     }
 
-  }, [gameOverPhase, isGameOver, score, earnedCoins, displayScore, displayXP, displayCoins]);
+  }, [gameOverPhase, isGameOver, score, earnedCoins, earnedXP, displayScore, displayXP, displayCoins]);
 
-  const resetGame = () => {
-    playSoftClick();
+  const stopClearAnimation = () => {
+      if (clearAnimationTimeoutRef.current) {
+          clearTimeout(clearAnimationTimeoutRef.current);
+          clearAnimationTimeoutRef.current = null;
+      }
+      setClearAnimation(null);
+  };
+
+  // Drops everything left over on screen from the run being replaced
+  const clearRunUi = () => {
     gameRoundRef.current += 1; // Invalidate any pending game over checks
     if (gameOverTimeoutRef.current) {
         clearTimeout(gameOverTimeoutRef.current);
         gameOverTimeoutRef.current = null;
     }
-    storageService.clearGameSession(); // Clear storage on reset
-    setGrid(Array(GRID_SIZE).fill(null).map(() => Array(GRID_SIZE).fill(null)));
-    setScore(0);
+    stopClearAnimation();
+    setUndoStack([]);
+    timeBonusMsRef.current = 0;
+    setShowPaceBoard(false);
+    setFinalRunStats(null);
     setEarnedCoins(0);
+    setEarnedXP(0);
+    setClock(BLITZ_START_MS);
+    setIsPaused(false);
     setDisplayScore(0);
     setDisplayCoins(0);
     setDisplayXP(0);
     setGameOverPhase(0);
-    setIsGameOver(false);
-    setRescueMode(false);
-    setComboCount(0);
-    setStreakCount(0);
-    generateShapes();
     setSelectedShapeIdx(null);
-    setHoldShape(null);
-    setClearingRows([]);
-    setClearingCols([]);
     setParticles([]);
     setShakeType('none');
     setActivePowerUp(null); // Clear any stuck power-up state
   };
 
-  useEffect(() => {
-    // Only reset if session is loaded AND we truly have empty shapes in active game,
-    // AND it's not just a momentary empty state (e.g. valid game over or just cleared).
-    // If score is 0 and no shapes, it's likely a fresh start needed.
-    // Also check holdShape to prevent false reset when user holds their last shape.
-    if (isSessionLoaded && isActive && shapes.length === 0 && score === 0 && !isGameOver && !holdShape) {
-      resetGame();
+  const resetGame = (nextBoard: BoardDefinition = board, nextEquippedIds: string[] = equippedIds) => {
+    playSoftClick();
+    clearRunUi();
+    if (sessionKey) storageService.clearGameSession(sessionKey); // Clear storage on reset
+    const fresh = createFreshState(ownsPowerUpInventory ? gameRef.current.powerUps : DEFAULT_POWER_UPS, nextBoard,
+        canEquipCards ? resolveEquippedCards(cards!, nextEquippedIds) : []);
+    replayLogRef.current = puzzle ? null : createReplayLog(fresh);
+    runStatsRef.current = createRunStats();
+    commitGame(fresh);
+    setHighScore(loadHighScore(nextBoard.id));
+    setPaceTrack(loadPaceTrack(nextBoard.id));
+  };
+
+  // --- SAVE SLOTS ---
+  const hasRunProgress = (): boolean =>
+    !gameRef.current.isGameOver && (gameRef.current.score > 0 || (replayLogRef.current?.actions.length ?? 0) > 0);
+
+  const parkCurrentRun = (name: string) => {
+    const savedAt = Date.now();
+    storageService.saveGameSlot({ id: `slot-${savedAt}`, name, mode, savedAt, session: captureSession() });
+  };
+
+  const handleSaveSlot = (name: string) => {
+    parkCurrentRun(name);
+    setShowSaveSlots(false);
+    resetGame(board);
+    addFloatingText(3, 4, "Lagret!", '#86efac', 0.9);
+  };
+
+  // The slot being resumed frees its place, so the run on the board can always take it
+  const handleResumeSlot = (slot: SavedGameSlot) => {
+    playSoftClick();
+    if (hasRunProgress()) parkCurrentRun(`Autolagret ${gameRef.current.score}`);
+    storageService.deleteGameSlot(slot.id);
+    storageService.saveBoardId(mode, (slot.session.board ?? CLASSIC_BOARD).id);
+    setShowSaveSlots(false);
+    clearRunUi();
+    const sharedPowerUps = gameRef.current.powerUps;
+    restoreSession(slot.session, ownsPowerUpInventory ? sharedPowerUps : DEFAULT_POWER_UPS);
+    // Free play has one inventory for every run, so the resumed run takes it over; logged so its replay still adds up
+    if (ownsPowerUpInventory && POWER_UP_TYPES.some(type => gameRef.current.powerUps[type] !== sharedPowerUps[type])) {
+        dispatch({ type: 'SYNC_POWER_UPS', powerUps: sharedPowerUps });
     }
-  }, [isActive, shapes.length, isSessionLoaded, score, isGameOver, holdShape]);
+    if (sessionKey) storageService.saveGameSession(captureSession(), sessionKey);
+  };
+
+  // Switching boards starts a new run; the old one can't continue on a different board, so it is parked in a slot when there is room
+  const handleBoardChange = async (boardId: string) => {
+    const nextBoard = getBoard(boardId);
+    if (nextBoard.id === board.id) return;
+    if (hasRunProgress()) {
+        const hasFreeSlot = (await storageService.loadGameSlots(mode)).length < SAVE_SLOT_CONFIG.MAX_SLOTS;
+        const question = hasFreeSlot
+            ? 'Bytte brett? Runden du spiller nå legges i lagrede spill.'
+            : 'Bytte brett? Alle lagringsplassene er fulle, så runden du spiller nå blir avsluttet.';
+        if (!window.confirm(question)) return;
+        if (hasFreeSlot) parkCurrentRun(`${describeBoard(board)} · ${gameRef.current.score}`);
+    }
+    storageService.saveBoardId(mode, nextBoard.id);
+    resetGame(nextBoard);
+  };
+
+  // An untouched run picks up the new cards straight away; otherwise they wait for the next run
+  const handleLoadoutSave = (ids: string[]) => {
+    storageService.saveEquippedCardIds(ids);
+    setEquippedIds(ids);
+    setShowLoadout(false);
+    const isUntouched = !isGameOver && score === 0 && (replayLogRef.current?.actions.length ?? 0) === 0;
+    if (isUntouched) resetGame(board, ids);
+    else addFloatingText(3, 4, "Gjelder fra neste runde!", '#f9a8d4', 0.9);
+  };
 
   useEffect(() => {
     const interval = setInterval(() => {
@@ -420,6 +634,21 @@ const BlockGame: React.FC<GameProps> = ({ onGameOver, isActive, coins, deductCoi
     return () => clearInterval(interval);
   }, []);
 
+  // Levels end on their goal or move limit, not only when the board is stuck
+  useEffect(() => {
+      if (!puzzle || !levelRun || levelStatus !== 'PLAYING') return;
+      const status = getLevelStatus(puzzle, game, levelRun);
+      if (status === 'PLAYING') return;
+
+      setLevelStatus(status);
+      const stars = status === 'WON' ? getLevelStars(puzzle, levelRun) : 0;
+      const finalScore = game.score;
+      // Let the last clear animation play before the result covers the board
+      levelResultTimeoutRef.current = setTimeout(() => {
+          onPuzzleEnd?.({ status, stars, score: finalScore });
+      }, BLOCK_GAME_CONFIG.CLEAR_ANIMATION_DELAY + 200);
+  }, [puzzle, game, levelRun, levelStatus, onPuzzleEnd]);
+
   // Cleanup all timeouts on unmount to prevent memory leaks and state updates on unmounted component
   useEffect(() => {
     return () => {
@@ -436,6 +665,16 @@ const BlockGame: React.FC<GameProps> = ({ onGameOver, isActive, coins, deductCoi
         clearTimeout(shakeTimeoutRef.current);
         shakeTimeoutRef.current = null;
       }
+      // Clear pending level result
+      if (levelResultTimeoutRef.current) {
+        clearTimeout(levelResultTimeoutRef.current);
+        levelResultTimeoutRef.current = null;
+      }
+      // Clear line clear animation timeout
+      if (clearAnimationTimeoutRef.current) {
+        clearTimeout(clearAnimationTimeoutRef.current);
+        clearAnimationTimeoutRef.current = null;
+      }
     };
   }, []);
 
@@ -457,7 +696,7 @@ const BlockGame: React.FC<GameProps> = ({ onGameOver, isActive, coins, deductCoi
     floatingTextTimeoutsRef.current.add(timeoutId);
   };
 
-  const spawnParticles = (coords: {r: number, c: number, color: string}[]) => {
+  const spawnParticles = (coords: CellRef[]) => {
     const newParticles: Particle[] = [];
     const now = Date.now();
     coords.forEach(({r, c, color}) => {
@@ -487,51 +726,176 @@ const BlockGame: React.FC<GameProps> = ({ onGameOver, isActive, coins, deductCoi
     });
   };
 
-  const getPowerUpAffectedCells = useCallback((r: number, c: number, type: PowerUpType): {r: number, c: number}[] => {
-    const affected: {r: number, c: number}[] = [];
-    if (type === 'BOMB') {
-        for (let i = -1; i <= 1; i++) {
-            for (let j = -1; j <= 1; j++) {
-                const nr = r + i;
-                const nc = c + j;
-                if (nr >= 0 && nr < GRID_SIZE && nc >= 0 && nc < GRID_SIZE) affected.push({ r: nr, c: nc });
-            }
-        }
-    } else if (type === 'LINE') {
-        for (let i = 0; i < GRID_SIZE; i++) {
-            affected.push({ r, c: i });
-            affected.push({ r: i, c });
-        }
-    } else if (type === 'COLOR') {
-        const targetColor = grid[r][c];
-        if (targetColor) {
-            for (let i = 0; i < GRID_SIZE; i++) {
-                for (let j = 0; j < GRID_SIZE; j++) {
-                    if (grid[i][j] === targetColor) affected.push({ r: i, c: j });
+  const startClearAnimation = (placedGrid: GridCell[][], rows: number[], cols: number[]) => {
+      if (clearAnimationTimeoutRef.current) clearTimeout(clearAnimationTimeoutRef.current);
+      setClearAnimation({ grid: placedGrid, rows, cols });
+      clearAnimationTimeoutRef.current = setTimeout(() => {
+          setClearAnimation(null);
+          clearAnimationTimeoutRef.current = null;
+      }, BLOCK_GAME_CONFIG.CLEAR_ANIMATION_DELAY);
+  };
+
+  const finishGame = (finalScore: number) => {
+      if (sessionKey) storageService.clearGameSession(sessionKey);
+      if (replayLogRef.current) {
+          storageService.saveReplay(finalizeReplay(replayLogRef.current, finalScore));
+          // The first finished run on a board sets the pace; after that only a better run replaces it
+          const best = storageService.loadPaceTrack(mode, board.id);
+          if (!best || finalScore > best.score) storageService.savePaceTrack(mode, board.id, buildPaceTrack(replayLogRef.current, finalScore));
+          replayLogRef.current = null;
+      }
+      // Practice runs of the daily challenge are recorded but give no rewards
+      const isRewarded = mode !== 'DAILY' || !!challenge?.isScored;
+      const goldCollected = gameRef.current.goldCollected ?? 0;
+      const rewards = getBlockGameRewards(finalScore, mode, goldCollected);
+      setIsPracticeRun(!isRewarded);
+      setEarnedCoins(isRewarded ? rewards.coins : 0);
+      setEarnedXP(isRewarded ? rewards.xp : 0);
+      setFinalRunStats(runStatsRef.current);
+      const { shapes: endingShapes, holdShape: endingHold } = gameRef.current;
+      storageService.saveGameStats(createGameStatsRecord(runStatsRef.current, {
+          mode,
+          boardId: board.id,
+          score: finalScore,
+          coinsEarned: isRewarded ? rewards.coins : 0,
+          endingShapes: endingHold ? [...endingShapes, endingHold] : endingShapes
+      }));
+      onGameOver(finalScore, goldCollected);
+      
+      // Confetti Explosion
+      const confettiColors = ['#f00', '#0f0', '#00f', '#ff0', '#f0f', '#0ff'];
+      const newParticles: Particle[] = [];
+      const now = Date.now();
+      for(let i=0; i<PARTICLE_CONFIG.GAME_OVER_CONFETTI_COUNT; i++) {
+         const angle = Math.random() * Math.PI * 2;
+         const velocity = Math.random() * 200 + 100;
+         newParticles.push({
+             id: `gameover-${i}-${now}`,
+             r: 4, c: 4, // Centerish
+             color: confettiColors[Math.floor(Math.random() * confettiColors.length)],
+             createdAt: now,
+             style: {
+                 '--tx': `${Math.cos(angle) * velocity}px`,
+                 '--ty': `${Math.sin(angle) * velocity}px`,
+                 width: Math.random() * 8 + 4 + 'px',
+                 height: Math.random() * 8 + 4 + 'px',
+                 borderRadius: '50%'
+             } as React.CSSProperties
+         });
+      }
+      setParticles(prev => [...prev, ...newParticles]);
+  };
+
+  // --- ENGINE EVENTS -> JUICE ---
+  // Reassigned every render so handlers always see the latest props (e.g. onGameOver)
+  gameEventHandlerRef.current = (events: GameEvent[]) => {
+    const clearedLines = events.some(e => e.type === 'LINES_CLEARED');
+
+    events.forEach(event => {
+        switch (event.type) {
+            case 'SHAPE_PLACED':
+                playHardClick(); // Placement Thud
+                stopClearAnimation();
+                if (!clearedLines) addFloatingText(event.c, event.r, `+${event.points}`, '#ffffff', 0.8);
+                break;
+            case 'LINES_CLEARED':
+                playMagicalSparkle();
+                triggerShake(event.lines > 1 ? 'heavy' : 'light');
+                spawnParticles(event.cells);
+                addFloatingText(event.c, event.r, event.word, '#fbbf24', event.lines > 1 ? 1.5 : 1.2);
+                startClearAnimation(event.placedGrid, event.rows, event.cols);
+                if (isTimed) {
+                    const bonus = getBlitzTimeBonus(event.lines, event.combo);
+                    const clock = Math.min(BLITZ_CONFIG.MAX_SECONDS * 1000, timeLeftRef.current + bonus * 1000);
+                    timeBonusMsRef.current += clock - timeLeftRef.current;
+                    setClock(clock);
+                    setTimeout(() => addFloatingText(event.c, event.r + 1, `+${bonus}s`, '#22d3ee', 1), 300);
                 }
-            }
+                break;
+            case 'STREAK_BROKEN':
+                addFloatingText(event.c, event.r, "Streak Brutt!", '#94a3b8', 0.8);
+                break;
+            case 'ICE_CRACKED':
+                playHardClick();
+                event.cells.forEach(cell => addFloatingText(cell.c, cell.r, "Knaks!", '#bae6fd', 0.7));
+                break;
+            case 'GOLD_COLLECTED':
+                setTimeout(() => addFloatingText(event.c, event.r, `+${event.count * SPECIAL_CELL_CONFIG.GOLD_COINS} 🪙`, '#facc15', 1.2), 300);
+                break;
+            case 'PRESENT_OPENED':
+                playSuccessSound();
+                setTimeout(() => addFloatingText(event.c, event.r, `🎁 ${event.powerUp}!`, '#fda4af', 1.3), 450);
+                break;
+            case 'CELL_SPAWNED':
+                if (event.kind === 'COAL') addFloatingText(event.c, event.r, "Kull!", '#94a3b8', 0.7);
+                break;
+            case 'POWER_UP_REWARDED':
+                setTimeout(() => addFloatingText(event.c, event.r, `GAVE: ${event.powerUp}!`, '#FFF', 1.5), 600);
+                break;
+            case 'POWER_UP_USED':
+                playMagicalSparkle();
+                triggerShake(event.powerUp === 'SINGLE' ? 'light' : 'heavy');
+                stopClearAnimation();
+                spawnParticles(event.cells);
+                if (event.powerUp === 'SINGLE') addFloatingText(event.c, event.r, `POFF!`, '#FBBF24', 1);
+                else if (event.powerUp === 'GRAVITY') addFloatingText(event.c, event.r, `DUNK!`, '#FBBF24', 1.5);
+                else addFloatingText(event.c, event.r, `BOOM!`, '#FBBF24', 1.5);
+                break;
+            case 'TRAY_POWER_UP_USED':
+                playMagicalSparkle();
+                addFloatingText(3, 6, event.powerUp === 'SWAP' ? "BYTTET!" : "FORVANDLET!", '#c4b5fd', 1.2);
+                break;
+            case 'STREAK_FROZEN':
+                playSuccessSound();
+                addFloatingText(3, 3, "Streak frosset 🧊", '#a5f3fc', 1);
+                break;
+            case 'STREAK_SAVED':
+                addFloatingText(event.c, event.r, "Streak reddet! 🧊", '#a5f3fc', 0.9);
+                break;
+            case 'SHAPES_DEALT':
+                if (event.reason === 'REFRESH') {
+                    playMagicalSparkle();
+                    addFloatingText(3, 3, "NY GAVE!", '#fff', 1.2);
+                }
+                break;
+            case 'SHAPE_ROTATED':
+                playSoftClick();
+                break;
+            case 'SHAPE_HELD':
+                playPopSound();
+                break;
+            case 'INVALID_ACTION':
+                if (event.reason === 'GAME_OVER') break;
+                if (event.reason !== 'EMPTY_TARGET') playErrorSound();
+                triggerShake('light');
+                break;
+            case 'RESCUE_STARTED':
+                triggerShake('heavy');
+                playErrorSound();
+                addFloatingText(3, 3, "STUCK! KJØP GAVE!", '#F87171', 1.5);
+                break;
+            case 'GAME_OVER':
+                setUndoStack([]);
+                // Levels report their own result (see the puzzle status effect)
+                if (!puzzle) finishGame(event.score);
+                break;
         }
-    } else if (type === 'SINGLE') {
-        affected.push({ r, c });
-    }
-    return affected;
-  }, [grid]);
+    });
+  };
 
-  const activateRefresh = (fromPurchase = false) => {
-      if (fromPurchase || powerUps.REFRESH > 0) {
-          playMagicalSparkle();
-          if (!fromPurchase) {
-             setPowerUps(prev => ({...prev, REFRESH: prev.REFRESH - 1}));
-          }
-          generateShapes();
-          addFloatingText(3, 3, "NY GAVE!", '#fff', 1.2);
-          setSelectedShapeIdx(null);
-          setRescueMode(false);
-      }
+  const activateRefresh = (purchased: boolean) => {
+      dispatch({ type: 'REFRESH', purchased });
+      setSelectedShapeIdx(null);
   };
 
   const handlePowerUpClick = (type: PowerUpType) => {
-      let currentCount = powerUps[type];
+      const currentCount = powerUps[type] + (type === 'REFRESH' ? gameRef.current.freeRefreshes ?? 0 : 0);
+      // Checked up front so a second FREEZE is never paid for
+      if (type === 'FREEZE' && gameRef.current.streakFrozen) {
+          playErrorSound();
+          addFloatingText(3, 4, "Allerede frosset!", '#a5f3fc', 0.8);
+          return;
+      }
 
       if (currentCount <= 0) {
           const cost = POWER_UP_COSTS[type];
@@ -543,8 +907,12 @@ const BlockGame: React.FC<GameProps> = ({ onGameOver, isActive, coins, deductCoi
                   activateRefresh(true);
                   return;
               }
+              if (type === 'FREEZE') {
+                  dispatch({ type: 'FREEZE', purchased: true });
+                  return;
+              }
               
-              setPowerUps(prev => ({...prev, [type]: prev[type] + 1}));
+              dispatch({ type: 'GRANT_POWER_UP', powerUp: type });
               setActivePowerUp(type);
               setSelectedShapeIdx(null);
           } else {
@@ -559,6 +927,10 @@ const BlockGame: React.FC<GameProps> = ({ onGameOver, isActive, coins, deductCoi
           activateRefresh(false);
           return;
       }
+      if (type === 'FREEZE') {
+          dispatch({ type: 'FREEZE' });
+          return;
+      }
 
       playHardClick();
       setActivePowerUp(activePowerUp === type ? null : type);
@@ -566,45 +938,35 @@ const BlockGame: React.FC<GameProps> = ({ onGameOver, isActive, coins, deductCoi
   };
 
   const executePowerUp = useCallback((r: number, c: number) => {
-    if (!activePowerUp || activePowerUp === 'REFRESH') return;
-    if (activePowerUp === 'COLOR' && !grid[r][c]) { triggerShake('light'); return; }
-    if (activePowerUp === 'SINGLE' && !grid[r][c]) { triggerShake('light'); return; }
-
-    const cells = getPowerUpAffectedCells(r, c, activePowerUp);
-    if (cells.length === 0) return;
-
-    playMagicalSparkle();
-    triggerShake(activePowerUp === 'SINGLE' ? 'light' : 'heavy');
-
-    let clearedCount = 0;
-    const particlesToSpawn: {r: number, c: number, color: string}[] = [];
-    const newGrid = grid.map(row => [...row]);
-
-    cells.forEach(({r: tr, c: tc}) => {
-        if (newGrid[tr][tc]) {
-            particlesToSpawn.push({ r: tr, c: tc, color: newGrid[tr][tc]! });
-            newGrid[tr][tc] = null;
-            clearedCount++;
-        }
-    });
-
-    spawnParticles(particlesToSpawn);
-    if (activePowerUp === 'SINGLE') addFloatingText(c, r, `POFF!`, '#FBBF24', 1);
-    else addFloatingText(c, r, `BOOM!`, '#FBBF24', 1.5);
-
-    setScore(prev => prev + (clearedCount * 20));
-    setGrid(newGrid);
-    setPowerUps(prev => ({...prev, [activePowerUp]: prev[activePowerUp] - 1}));
-    setActivePowerUp(null);
-    if (rescueMode) setRescueMode(false);
-  }, [activePowerUp, grid, getPowerUpAffectedCells, rescueMode]);
+    if (!activePowerUp || !isTargetedPowerUp(activePowerUp)) return;
+    const events = dispatch({ type: 'USE_POWER_UP', powerUp: activePowerUp, r, c });
+    if (events.some(e => e.type === 'POWER_UP_USED')) setActivePowerUp(null);
+  }, [activePowerUp, dispatch]);
+
+  // SWAP needs two tray slots, TRANSMUTE one
+  const handleTrayTarget = (idx: number) => {
+    if (!activePowerUp || !isTrayPowerUp(activePowerUp)) return;
+    if (activePowerUp === 'SWAP' && swapPick === null) {
+        playPopSound();
+        setSwapPick(idx);
+        return;
+    }
+    if (swapPick === idx) {
+        setSwapPick(null);
+        return;
+    }
+    const shapeIndices = swapPick === null ? [idx] : [swapPick, idx];
+    const events = dispatch({ type: 'USE_TRAY_POWER_UP', powerUp: activePowerUp, shapeIndices });
+    setSwapPick(null);
+    if (events.some(e => e.type === 'TRAY_POWER_UP_USED')) {
+        setActivePowerUp(null);
+        setSelectedShapeIdx(null);
+    }
+  };
 
   const handleRotateShape = () => {
     if (selectedShapeIdx === null) return;
-    playSoftClick();
-    const newShapes = [...shapes];
-    newShapes[selectedShapeIdx].layout = rotateLayout(newShapes[selectedShapeIdx].layout);
-    setShapes(newShapes);
+    dispatch({ type: 'ROTATE', shapeIndex: selectedShapeIdx });
   };
 
   const handleHoldShape = () => {
@@ -612,306 +974,416 @@ const BlockGame: React.FC<GameProps> = ({ onGameOver, isActive, coins, deductCoi
         if (holdShape) { playErrorSound(); triggerShake('light'); addFloatingText(0, 7, "Velg brikke først!", '#fff', 0.8); }
         return;
     }
-    playPopSound();
-    const shapeToHold = shapes[selectedShapeIdx];
-    let newShapes = [...shapes];
-    if (holdShape) {
-        newShapes[selectedShapeIdx] = holdShape;
-        setHoldShape(shapeToHold);
-    } else {
-        setHoldShape(shapeToHold);
-        newShapes = newShapes.filter((_, i) => i !== selectedShapeIdx);
+    dispatch({ type: 'HOLD', shapeIndex: selectedShapeIdx });
+    setSelectedShapeIdx(null);
+  };
+
+  const handleUndo = () => {
+    const snapshot = undoStackRef.current[undoStackRef.current.length - 1];
+    if (!snapshot || isGameOver || levelStatus !== 'PLAYING') return;
+    if (!deductCoins(UNDO_CONFIG.COST)) {
+        playErrorSound();
+        triggerShake('light');
+        addFloatingText(3, 4, "Ikke nok mynter!", '#ef4444', 0.8);
+        return;
+    }
+
+    // Drop whatever the undone move left pending
+    gameRoundRef.current += 1;
+    if (gameOverTimeoutRef.current) {
+        clearTimeout(gameOverTimeoutRef.current);
+        gameOverTimeoutRef.current = null;
     }
-    setShapes(newShapes);
+    stopClearAnimation();
+
+    if (replayLogRef.current) {
+        // Purchases made after the move stay in the log, matching the rewound power-ups
+        const { actions } = replayLogRef.current;
+        const laterGrants = actions.slice(snapshot.replayLength).filter(a => a.type === 'GRANT_POWER_UP');
+        replayLogRef.current = { ...replayLogRef.current, actions: [...actions.slice(0, snapshot.replayLength), ...laterGrants] };
+    }
+    // The undone move's totals go, the time spent on it stays
+    runStatsRef.current = { ...snapshot.runStats, playTimeMs: runStatsRef.current.playTimeMs, lastActionAt: runStatsRef.current.lastActionAt };
+    if (snapshot.levelRun) {
+        levelRunRef.current = snapshot.levelRun;
+        setLevelRun(snapshot.levelRun);
+    }
+    // Bonus time from undone clears goes too, or undoing and clearing again would buy endless time
+    const refundMs = timeBonusMsRef.current - snapshot.timeBonusMs;
+    if (isTimed && refundMs > 0) setClock(Math.max(0, timeLeftRef.current - refundMs));
+    timeBonusMsRef.current = snapshot.timeBonusMs;
+    setUndoStack(undoStackRef.current.slice(0, -1));
+    commitGame(snapshot.state);
     setSelectedShapeIdx(null);
-    if (newShapes.length === 0) setTimeout(generateShapes, BLOCK_GAME_CONFIG.SHAPE_GENERATION_DELAY);
+    setActivePowerUp(null);
+    playSoftClick();
+    addFloatingText(3, 4, "Angret!", '#a5b4fc', 1);
   };
 
-  const canPlaceShape = useCallback((r: number, c: number, shape: Shape, currentGrid: GridCell[][]): boolean => {
-    for (let i = 0; i < shape.layout.length; i++) {
-      for (let j = 0; j < shape.layout[i].length; j++) {
-        if (shape.layout[i][j] === 1) {
-          const nr = r + i;
-          const nc = c + j;
-          if (nr < 0 || nc < 0 || nr >= GRID_SIZE || nc >= GRID_SIZE || currentGrid[nr][nc] !== null) return false;
-        }
-      }
+  const handleHint = () => {
+    if (isGameOver) return;
+    const move = findBestMove(gameRef.current);
+    // Check before charging so a hopeless board doesn't cost anything
+    if (!move) {
+        playErrorSound();
+        triggerShake('light');
+        addFloatingText(3, 4, "Ingen trekk!", '#ef4444', 0.8);
+        return;
     }
-    return true;
-  }, []);
+    if (!deductCoins(POWER_UP_COSTS.HINT)) {
+        playErrorSound();
+        triggerShake('light');
+        addFloatingText(3, 4, "Ikke nok mynter!", '#ef4444', 0.8);
+        return;
+    }
+
+    playMagicalSparkle();
+    setHint(move);
+    setActivePowerUp(null);
+    setSelectedShapeIdx(move.source === 'TRAY' ? move.shapeIndex : null);
+    if (move.source === 'HOLD') addFloatingText(3, 4, "Bytt inn brikken du holder!", '#fde68a', 0.8);
+    else if (move.rotations > 0) addFloatingText(3, 4, `Snu brikken ${move.rotations}×`, '#fde68a', 0.8);
+  };
 
-  const handleGridHover = useCallback((r: number, c: number) => setHoveredCell({ r, c }), []);
+  const handleGridHover = useCallback((r: number, c: number) => {
+      setHoveredCell({ r, c });
+      setShowCursor(false);
+  }, []);
 
   const handleGridClick = useCallback((r: number, c: number) => {
-    if (isGameOver && !rescueMode) return;
+    if (isGameOver) return;
     if (activePowerUp) { executePowerUp(r, c); return; }
     if (selectedShapeIdx === null) return;
 
-    const shape = shapes[selectedShapeIdx];
-    if (canPlaceShape(r, c, shape, grid)) {
-      playHardClick(); // Placement Thud
-      const newGrid = grid.map(row => [...row]);
-      let placedCount = 0;
-      for (let i = 0; i < shape.layout.length; i++) {
-        for (let j = 0; j < shape.layout[i].length; j++) {
-          if (shape.layout[i][j] === 1) {
-            const nr = r + i;
-            const nc = c + j;
-            if (nr >= 0 && nr < GRID_SIZE && nc >= 0 && nc < GRID_SIZE) {
-                newGrid[nr][nc] = shape.color;
-                placedCount++;
-            }
-          }
-        }
-      }
+    const events = dispatch({ type: 'PLACE', shapeIndex: selectedShapeIdx, r, c });
+    if (!events.some(e => e.type === 'INVALID_ACTION')) setSelectedShapeIdx(null);
+  }, [isGameOver, activePowerUp, selectedShapeIdx, executePowerUp, dispatch]);
 
-      const linesToClearRow: number[] = [];
-      const linesToClearCol: number[] = [];
-      for (let i = 0; i < GRID_SIZE; i++) { if (newGrid[i].every(cell => cell !== null)) linesToClearRow.push(i); }
-      for (let j = 0; j < GRID_SIZE; j++) { if (newGrid.every(row => row[j] !== null)) linesToClearCol.push(j); }
-      const totalLines = linesToClearRow.length + linesToClearCol.length;
-      
-      let points = placedCount;
-      if (totalLines > 0) {
-        const newCombo = comboCount + 1;
-        setComboCount(newCombo);
-        const newStreak = streakCount + 1;
-        setStreakCount(newStreak);
-
-        // INCREASED SCORE PER LINE TO IMPROVE COIN PROGRESSION
-        let linePoints = totalLines * BLOCK_GAME_CONFIG.POINTS_PER_LINE; 
-        const multiLineMultiplier = totalLines > 3 ? 3 : (totalLines > 1 ? totalLines * 0.8 : 1);
-        const comboMultiplier = 1 + (newCombo * 0.2);
-        const streakMultiplier = 1 + (newStreak * 0.1);
-
-        const totalBonus = Math.floor(linePoints * multiLineMultiplier * comboMultiplier * streakMultiplier);
-        points += totalBonus;
-        
-        playMagicalSparkle();
-        triggerShake(totalLines > 1 ? 'heavy' : 'light');
-        
-        if (totalLines >= 3 || newCombo >= 4 || newStreak >= 5) {
-             const types: PowerUpType[] = ['BOMB', 'LINE', 'COLOR', 'SINGLE', 'REFRESH'];
-             const rewardType = types[Math.floor(Math.random() * types.length)];
-             setPowerUps(prev => ({...prev, [rewardType]: prev[rewardType] + 1}));
-             setTimeout(() => addFloatingText(c, r, `GAVE: ${rewardType}!`, '#FFF', 1.5), 600);
-        }
+  const handleTrayShapeClick = (idx: number) => {
+    if (!shapes[idx]) return;
+    if (isTrayTargeting) { handleTrayTarget(idx); return; }
+    if (selectedShapeIdx === idx) { handleRotateShape(); return; }
+    playPopSound();
+    setSelectedShapeIdx(idx);
+    setActivePowerUp(null);
+  };
 
-        const particlesToSpawn: {r: number, c: number, color: string}[] = [];
-        linesToClearRow.forEach(ri => { for(let ci=0; ci<GRID_SIZE; ci++) if(newGrid[ri][ci]) particlesToSpawn.push({r: ri, c: ci, color: newGrid[ri][ci]!}); });
-        linesToClearCol.forEach(ci => { for(let ri=0; ri<GRID_SIZE; ri++) if(newGrid[ri][ci]) particlesToSpawn.push({r: ri, c: ci, color: newGrid[ri][ci]!}); });
-        spawnParticles(particlesToSpawn);
+  // --- DRAG AND DROP ---
+  // A press on a tray shape that travels past the threshold becomes a drag; a short press stays a tap
+  const handleShapePointerDown = (e: React.PointerEvent<HTMLButtonElement>, idx: number) => {
+    suppressClickRef.current = false;
+    if (isGameOver || isTrayTargeting || e.button !== 0) return;
+    dragRef.current = {
+        shapeIdx: idx,
+        pointerId: e.pointerId,
+        startX: e.clientX,
+        startY: e.clientY,
+        lift: e.pointerType === 'touch' ? CONTROLS_CONFIG.TOUCH_LIFT_PX : 0,
+        isDragging: false
+    };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
 
-        const randomJuleWord = JULE_WORDS[Math.floor(Math.random() * JULE_WORDS.length)];
-        addFloatingText(c, r, randomJuleWord, '#fbbf24', totalLines > 1 ? 1.5 : 1.2);
-        
-        setClearingRows(linesToClearRow);
-        setClearingCols(linesToClearCol);
+  const getDragTarget = (e: React.PointerEvent, shapeIdx: number) => {
+    const shape = shapes[shapeIdx];
+    if (!shape || !gridRef.current) return null;
+    return getDragAnchor(e.clientX, e.clientY - (dragRef.current?.lift ?? 0), gridRef.current.getBoundingClientRect(), board.rows, board.cols, shape.layout);
+  };
 
-        // CRITICAL FIX: Calculate remaining shapes and set state BEFORE setTimeout
-        // This prevents race conditions where the closure captures stale state
-        const remainingShapes = shapes.filter((_, i) => i !== selectedShapeIdx);
-        const needsNewShapes = remainingShapes.length === 0;
+  const handleShapePointerMove = (e: React.PointerEvent<HTMLButtonElement>) => {
+    const drag = dragRef.current;
+    if (!drag || drag.pointerId !== e.pointerId) return;
+    if (!drag.isDragging) {
+        if (Math.hypot(e.clientX - drag.startX, e.clientY - drag.startY) < CONTROLS_CONFIG.DRAG_THRESHOLD_PX) return;
+        drag.isDragging = true;
+        setSelectedShapeIdx(drag.shapeIdx);
+        setActivePowerUp(null);
+        setShowCursor(false);
+    }
+    setDragPoint({ x: e.clientX, y: e.clientY - drag.lift });
+    setHoveredCell(getDragTarget(e, drag.shapeIdx));
+  };
 
-        // Update shapes state immediately to prevent race condition
-        setShapes(remainingShapes);
-        setScore(prev => prev + points);
-        setSelectedShapeIdx(null);
+  const handleShapePointerUp = (e: React.PointerEvent<HTMLButtonElement>) => {
+    const drag = dragRef.current;
+    if (!drag || drag.pointerId !== e.pointerId) return;
+    dragRef.current = null;
+    if (!drag.isDragging) return; // A tap; the click handler takes it from here
+
+    suppressClickRef.current = true;
+    setDragPoint(null);
+    setHoveredCell(null);
+    const target = getDragTarget(e, drag.shapeIdx);
+    // Dropped off the board: the shape just stays selected
+    if (!target) return;
+    const events = dispatch({ type: 'PLACE', shapeIndex: drag.shapeIdx, r: target.r, c: target.c });
+    if (!events.some(ev => ev.type === 'INVALID_ACTION')) setSelectedShapeIdx(null);
+  };
 
-        setTimeout(() => {
-             const finalGrid = newGrid.map(row => [...row]);
-             linesToClearRow.forEach(ri => { for(let ci=0; ci<GRID_SIZE; ci++) finalGrid[ri][ci] = null; });
-             linesToClearCol.forEach(ci => { for(let ri=0; ri<GRID_SIZE; ri++) finalGrid[ri][ci] = null; });
-             setGrid(finalGrid);
-             setClearingRows([]);
-             setClearingCols([]);
-             // Generate new shapes BEFORE checking game over if needed
-             if (needsNewShapes) {
-                 generateShapes();
-             }
-             // Note: Game over check is now handled by useEffect watching shapes/grid changes
-        }, BLOCK_GAME_CONFIG.CLEAR_ANIMATION_DELAY);
-
-        // Early return since we already updated state above
-        return;
-      } else {
-        if (streakCount > 0) addFloatingText(c, r, "Streak Brutt!", '#94a3b8', 0.8);
-        setStreakCount(0);
-        setComboCount(0);
-        addFloatingText(c, r, `+${points}`, '#ffffff', 0.8);
-        setGrid(newGrid);
-        const remainingShapes = shapes.filter((_, i) => i !== selectedShapeIdx);
-
-        // Update state before any async operations
-        setShapes(remainingShapes);
-        setScore(prev => prev + points);
-        setSelectedShapeIdx(null);
+  const handleShapePointerCancel = () => {
+    dragRef.current = null;
+    setDragPoint(null);
+    setHoveredCell(null);
+  };
 
-        if (remainingShapes.length === 0) {
-            // Generate shapes immediately instead of delayed check
-            setTimeout(generateShapes, BLOCK_GAME_CONFIG.SHAPE_GENERATION_DELAY);
-        }
-        // Note: Game over check handled by useEffect
-        return;
-      }
-    } else {
-        playErrorSound();
-        triggerShake('light');
+  // --- KEYBOARD & GAMEPAD ---
+  // Reassigned every render, like the event handler, so commands always see the latest state
+  controlHandlerRef.current = (command: ControlCommand) => {
+    if (isGameOver || showReplays || showStats || showLoadout || showSaveSlots || levelStatus !== 'PLAYING' || (isTimed && isPaused)) return;
+    switch (command.type) {
+        case 'MOVE':
+            setShowCursor(true);
+            setHoveredCell(prev => moveCursor(showCursor ? prev : null, command.dr, command.dc, board.rows, board.cols));
+            break;
+        case 'SELECT_SHAPE':
+            handleTrayShapeClick(command.index);
+            break;
+        case 'CYCLE_SHAPE':
+            if (shapes.length === 0) break;
+            setSelectedShapeIdx(((selectedShapeIdx ?? (command.step > 0 ? -1 : 0)) + command.step + shapes.length) % shapes.length);
+            setActivePowerUp(null);
+            playPopSound();
+            break;
+        case 'ROTATE':
+            handleRotateShape();
+            break;
+        case 'HOLD':
+            handleHoldShape();
+            break;
+        case 'CONFIRM':
+            if (showCursor && hoveredCell) handleGridClick(hoveredCell.r, hoveredCell.c);
+            break;
+        case 'CANCEL':
+            setSelectedShapeIdx(null);
+            setActivePowerUp(null);
+            break;
     }
-  }, [isGameOver, rescueMode, activePowerUp, selectedShapeIdx, shapes, grid, canPlaceShape, comboCount, streakCount, executePowerUp, generateShapes]);
+  };
+
+  useEffect(() => {
+      if (!isActive) return undefined;
+      const handleKeyDown = (e: KeyboardEvent) => {
+          const target = e.target as HTMLElement | null;
+          if (e.metaKey || e.ctrlKey || e.altKey || (target && ['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName))) return;
+          const command = getKeyCommand(e.key);
+          if (!command) return;
+          e.preventDefault(); // Arrows and space would otherwise scroll or press the focused button
+          controlHandlerRef.current(command);
+      };
+      window.addEventListener('keydown', handleKeyDown);
+      return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isActive]);
+
+  // Only polls while a gamepad is connected and this board is on screen
+  useEffect(() => {
+      const updateGamepads = () => setHasGamepad(Array.from(navigator.getGamepads?.() ?? []).some(Boolean));
+      updateGamepads();
+      window.addEventListener('gamepadconnected', updateGamepads);
+      window.addEventListener('gamepaddisconnected', updateGamepads);
+      return () => {
+          window.removeEventListener('gamepadconnected', updateGamepads);
+          window.removeEventListener('gamepaddisconnected', updateGamepads);
+      };
+  }, []);
+
+  useEffect(() => {
+      if (!isActive || !hasGamepad) return undefined;
+      const poll = createGamepadPoller();
+      let frame = 0;
+      const tick = (now: number) => {
+          poll(now).forEach(command => controlHandlerRef.current(command));
+          frame = requestAnimationFrame(tick);
+      };
+      frame = requestAnimationFrame(tick);
+      return () => cancelAnimationFrame(frame);
+  }, [isActive, hasGamepad]);
 
-  const checkGameOver = (currentGrid: GridCell[][], currentShapes: Shape[]) => {
+  const checkGameOver = () => {
       // Clear any existing timeout to prevent double triggers
       if (gameOverTimeoutRef.current) clearTimeout(gameOverTimeoutRef.current);
       
       const currentRound = gameRoundRef.current;
 
       gameOverTimeoutRef.current = setTimeout(() => {
-             if (isGameOver) return; // Prevent late trigger
              if (gameRoundRef.current !== currentRound) return; // Prevent triggering if reset happened
-             if (currentShapes.length === 0) return;
-
-             const canFitShapeWithRotation = (shape: Shape, grid: GridCell[][]) => {
-                 let tempLayout = shape.layout;
-                 for(let i=0; i<4; i++) {
-                     const tempShape = {...shape, layout: tempLayout};
-                     if(canPlaceShapeAnywhere(tempShape, grid)) return true;
-                     tempLayout = rotateLayout(tempLayout);
-                 }
-                 return false;
-             };
-
-             const canPlaceShapeAnywhere = (shape: Shape, currentGrid: GridCell[][]) => {
-                for(let rr=0; rr<GRID_SIZE; rr++) {
-                    for(let cc=0; cc<GRID_SIZE; cc++) {
-                        if (canPlaceShape(rr, cc, shape, currentGrid)) return true;
-                    }
-                }
-                return false;
-             };
-
-             // OPTIMIZED: Use Array.some() for early exit when a valid move is found
-             const canMove = currentShapes.some(s => canFitShapeWithRotation(s, currentGrid))
-                          || (holdShape ? canFitShapeWithRotation(holdShape, currentGrid) : false);
-
-             if(!canMove) {
-                 const hasPowerUps = Object.values(powerUps).some((val: number) => val > 0);
-                 const canBuy = Object.values(POWER_UP_COSTS).some((cost: number) => coins >= cost);
-                 if (hasPowerUps || canBuy) {
-                     setRescueMode(true);
-                     triggerShake('heavy');
-                     playErrorSound();
-                     addFloatingText(3, 3, "STUCK! KJØP GAVE!", '#F87171', 1.5);
-                 } else {
-                     storageService.clearGameSession();
-                     const earned = Math.floor(score / ECONOMY_CONFIG.SCORE_TO_COINS_DIVISOR);
-                     setEarnedCoins(earned);
-                     setIsGameOver(true);
-                     onGameOver(score);
-                     
-                     // Confetti Explosion
-                     const confettiColors = ['#f00', '#0f0', '#00f', '#ff0', '#f0f', '#0ff'];
-                     const newParticles: Particle[] = [];
-                     const now = Date.now();
-                     for(let i=0; i<PARTICLE_CONFIG.GAME_OVER_CONFETTI_COUNT; i++) {
-                        const angle = Math.random() * Math.PI * 2;
-                        const velocity = Math.random() * 200 + 100;
-                        newParticles.push({
-                            id: `gameover-${i}-${now}`,
-                            r: 4, c: 4, // Centerish
-                            color: confettiColors[Math.floor(Math.random() * confettiColors.length)],
-                            createdAt: now,
-                            style: {
-                                '--tx': `${Math.cos(angle) * velocity}px`,
-                                '--ty': `${Math.sin(angle) * velocity}px`,
-                                width: Math.random() * 8 + 4 + 'px',
-                                height: Math.random() * 8 + 4 + 'px',
-                                borderRadius: '50%'
-                            } as React.CSSProperties
-                        });
-                     }
-                     setParticles(prev => [...prev, ...newParticles]);
-                 }
-             } else {
-                 setRescueMode(false);
-             }
+             // An affordable undo also counts as a way out, so a misplaced piece doesn't end the run
+             const canAffordUndo = undoStackRef.current.length > 0 && coins >= UNDO_CONFIG.COST;
+             const canBuyPowerUp = !puzzle && (canAffordUndo || RESCUE_POWER_UP_TYPES.some(type => coins >= POWER_UP_COSTS[type]));
+             dispatch({ type: 'CHECK_STUCK', canBuyPowerUp });
         }, BLOCK_GAME_CONFIG.GAME_OVER_CHECK_DELAY);
   };
 
+  const displayGrid = clearAnimation ? clearAnimation.grid : grid;
+  const goalProgress = puzzle && levelRun ? getGoalProgress(puzzle, game, levelRun) : null;
+  const selectedShape = selectedShapeIdx !== null ? shapes[selectedShapeIdx] ?? null : null;
+  // Overlay positions are in percent of the board
+  const cellWidth = 100 / board.cols;
+  const cellHeight = 100 / board.rows;
+
   // Optimized: hoveredCell passed as parameter to reduce function recreation on every hover
+  // The replay log is updated in the same dispatch as the state, so it is current on every render
+  const pace = paceTrack && replayLogRef.current && !isGameOver ? comparePace(paceTrack, countPlacements(replayLogRef.current), score) : null;
+
   const getCellStatus = useCallback((r: number, c: number, currentHoveredCell: {r: number, c: number} | null) => {
-     if (clearingRows.includes(r) || clearingCols.includes(c)) return 'clearing';
-     if (activePowerUp && activePowerUp !== 'REFRESH' && currentHoveredCell) {
-        const affected = getPowerUpAffectedCells(currentHoveredCell.r, currentHoveredCell.c, activePowerUp);
+     if (isHole(displayGrid[r][c])) return 'hole';
+     if (clearAnimation && (clearAnimation.rows.includes(r) || clearAnimation.cols.includes(c))) return 'clearing';
+     if (activePowerUp && isTargetedPowerUp(activePowerUp) && currentHoveredCell) {
+        const affected = getPowerUpAffectedCells(grid, currentHoveredCell.r, currentHoveredCell.c, activePowerUp, getBombRadius(game));
         const isAffected = affected.some(p => p.r === r && p.c === c);
         if (isAffected) {
             if ((activePowerUp === 'COLOR' || activePowerUp === 'SINGLE') && !grid[currentHoveredCell.r][currentHoveredCell.c]) return 'empty';
             return 'powerup-target';
         }
      }
-     if (selectedShapeIdx !== null && currentHoveredCell && !isGameOver) {
-        const shape = shapes[selectedShapeIdx];
+     if (selectedShape && currentHoveredCell && !isGameOver) {
         const { r: hr, c: hc } = currentHoveredCell;
         const rDiff = r - hr;
         const cDiff = c - hc;
         // Check against actual row length for irregular shapes (e.g., L-shapes)
-        if (rDiff >= 0 && rDiff < shape.layout.length && cDiff >= 0 && cDiff < shape.layout[rDiff].length) {
-            if (shape.layout[rDiff][cDiff] === 1) {
-                const valid = canPlaceShape(hr, hc, shape, grid);
+        if (rDiff >= 0 && rDiff < selectedShape.layout.length && cDiff >= 0 && cDiff < selectedShape.layout[rDiff].length) {
+            if (selectedShape.layout[rDiff][cDiff] === 1) {
+                const valid = canPlaceShape(grid, selectedShape, hr, hc);
                 return valid ? 'ghost-valid' : 'ghost-invalid';
             }
         }
      }
-     return grid[r][c] ? 'filled' : 'empty';
-  }, [clearingRows, clearingCols, activePowerUp, selectedShapeIdx, isGameOver, shapes, grid, canPlaceShape, getPowerUpAffectedCells]);
+     if (hint && !displayGrid[r][c] && hint.cells.some(cell => cell.r === r && cell.c === c)) return 'hint';
+     return displayGrid[r][c] ? 'filled' : 'empty';
+  }, [clearAnimation, activePowerUp, selectedShape, isGameOver, grid, displayGrid, hint, game]);
 
   return (
     <div className={`w-full h-full flex flex-col items-center justify-start ${shakeType === 'light' ? 'animate-shake' : ''} ${shakeType === 'heavy' ? 'animate-shake-heavy' : ''}`}>
       
       <div className="flex w-full max-w-[95vw] sm:max-w-[400px] px-2 mb-1 justify-between items-end z-10 shrink-0">
-          <div className="glass-panel rounded-xl px-3 py-1.5 flex flex-col min-w-[90px] border border-white/10 shadow-lg">
-              <span className="text-white/40 text-[9px] font-bold uppercase tracking-wider font-cute">Rekord</span>
-              <span className="text-white/80 font-mono font-bold text-base leading-none">{highScore}</span>
-          </div>
+          {puzzle && levelRun ? (
+              <div className="glass-panel rounded-xl px-3 py-1.5 flex flex-col min-w-[90px] border border-white/10 shadow-lg">
+                  <span className="text-white/40 text-[9px] font-bold uppercase tracking-wider font-cute">Trekk igjen</span>
+                  <span className={`font-mono font-bold text-base leading-none ${puzzle.moveLimit - levelRun.movesUsed <= 1 ? 'text-red-400' : 'text-white/80'}`}>
+                      {puzzle.moveLimit - levelRun.movesUsed}
+                  </span>
+              </div>
+          ) : (
+              <div className="relative">
+                  <button onClick={() => { playSoftClick(); setShowReplays(true); }} className="glass-panel rounded-xl px-3 py-1.5 flex flex-col items-start min-w-[90px] border border-white/10 shadow-lg hover:bg-white/10 transition-colors">
+                      <span className="text-white/40 text-[9px] font-bold uppercase tracking-wider font-cute">Rekord 🎬</span>
+                      <span className="text-white/80 font-mono font-bold text-base leading-none">{highScore}</span>
+                  </button>
+                  <button onClick={() => { playSoftClick(); setShowStats(true); }} title="Statistikk"
+                      className="absolute -right-2 -top-2 w-6 h-6 rounded-full bg-slate-900 border border-white/15 text-[11px] flex items-center justify-center hover:bg-slate-800">📊</button>
+              </div>
+          )}
           <div className="flex-1 flex flex-col items-center justify-center">
+             {canPickBoard && (
+                 <div className="relative mb-1">
+                     <select value={board.id} onChange={(e) => handleBoardChange(e.target.value)} title="Brett"
+                         className="appearance-none bg-slate-900/80 border border-white/10 text-white/80 font-cute text-[10px] font-bold rounded-lg pl-2 pr-5 py-0.5 focus:outline-none focus:border-pink-500/50 cursor-pointer">
+                         {BOARDS.map(b => <option key={b.id} value={b.id}>{describeBoard(b)}</option>)}
+                     </select>
+                     <div className="absolute right-1.5 top-1/2 -translate-y-1/2 pointer-events-none text-white/50 text-[8px]">▼</div>
+                 </div>
+             )}
+             {canPickBoard && (
+                 <button onClick={() => { playSoftClick(); setShowSaveSlots(true); }} title="Lagrede spill"
+                     className="mb-1 px-2 py-0.5 rounded-lg bg-slate-900/80 border border-white/10 text-[10px] font-bold font-cute text-white/80 hover:border-pink-500/50 transition-colors">
+                     💾 Lagrede spill
+                 </button>
+             )}
+             {canEquipCards && (
+                 <button onClick={() => { playSoftClick(); setShowLoadout(true); }} title="Kortlag"
+                     className="mb-1 px-2 py-0.5 rounded-lg bg-slate-900/80 border border-white/10 text-[10px] font-bold font-cute text-white/80 hover:border-pink-500/50 transition-colors">
+                     🃏 {equippedCards.length > 0 ? equippedCards.map(card => ELEMENT_ICONS[card.type]).join('') : `0/${MAX_EQUIPPED_CARDS}`}
+                 </button>
+             )}
+             {pace && (
+                 <div className="relative mb-1">
+                     <button onClick={() => { playSoftClick(); setShowPaceBoard(v => !v); }} title="Sammenlign med rekordrunden"
+                         className={`px-2 py-0.5 rounded-full border text-[10px] font-bold font-mono transition-colors ${pace.diff >= 0 ? 'bg-emerald-500/15 border-emerald-400/40 text-emerald-200' : 'bg-red-500/15 border-red-400/40 text-red-200'}`}>
+                         {pace.diff >= 0 ? `▲ +${pace.diff}` : `▼ ${pace.diff}`}
+                     </button>
+                     {showPaceBoard && (
+                         <div onClick={() => setShowPaceBoard(false)}
+                             className="absolute top-full left-1/2 -translate-x-1/2 mt-1 z-50 w-32 p-2 rounded-xl bg-slate-900/95 border border-white/15 shadow-2xl flex flex-col gap-1 animate-pop-in">
+                             <span className="text-white/50 text-[8px] font-bold uppercase tracking-wider text-center">
+                                 {pace.isPastEnd ? 'Rekorden sluttet her' : 'Rekorden nå'}: {pace.bestScore}
+                             </span>
+                             <MiniBoard grid={decodeBoard(pace.board)} className="w-full" />
+                         </div>
+                     )}
+                 </div>
+             )}
              {comboCount > 1 && <div className="animate-pop-in mb-1 bg-pink-500/20 px-3 py-0.5 rounded-full border border-pink-500/50"><span className="text-[10px] font-bold text-pink-200">KOMBO x{comboCount}</span></div>}
              {streakCount > 2 && <div className="animate-pop-in bg-orange-500/20 px-3 py-0.5 rounded-full border border-orange-500/50"><span className="text-[10px] font-bold text-orange-200">STREAK {streakCount}</span></div>}
+             {game.streakFrozen && <div className="animate-pop-in mt-1 bg-cyan-500/20 px-3 py-0.5 rounded-full border border-cyan-400/50"><span className="text-[10px] font-bold text-cyan-100">🧊 FROSSET</span></div>}
           </div>
-          <div className="bg-black/40 backdrop-blur-md rounded-xl px-4 py-1.5 border border-pink-500/30 shadow-[0_0_15px_rgba(236,72,153,0.15)] flex flex-col items-end min-w-[100px]">
+          <div className="relative bg-black/40 backdrop-blur-md rounded-xl px-4 py-1.5 border border-pink-500/30 shadow-[0_0_15px_rgba(236,72,153,0.15)] flex flex-col items-end min-w-[100px]">
+              {process.env.NODE_ENV !== 'production' && !puzzle && (
+                  <button onClick={() => setShowDifficulty(v => !v)} title="Vanskelighetsgrad (utvikling)"
+                      className={`absolute -left-2 -top-2 text-[10px] leading-none ${showDifficulty ? 'opacity-100' : 'opacity-30 hover:opacity-70'}`}>🐞</button>
+              )}
               <span className="text-pink-300 text-[9px] font-bold uppercase tracking-wider font-cute">Score</span>
               <span className="text-white font-magic font-bold text-2xl leading-none neon-text-pink">{score}</span>
           </div>
       </div>
 
+      {puzzle && goalProgress && (
+          <div className="flex w-full max-w-[95vw] sm:max-w-[400px] px-2 mb-1 items-center gap-2 z-10 shrink-0">
+              <span className="text-amber-200 text-[10px] font-bold font-cute uppercase tracking-wider whitespace-nowrap">🎯 {describeGoal(puzzle.goal)}</span>
+              <div className="flex-1 h-2 bg-black/40 rounded-full overflow-hidden border border-white/10">
+                  <div className="h-full bg-gradient-to-r from-amber-400 to-yellow-300 transition-all duration-300"
+                      style={{ width: `${goalProgress.target > 0 ? (goalProgress.current / goalProgress.target) * 100 : 0}%` }}></div>
+              </div>
+              <span className="font-mono font-bold text-xs text-amber-100">{goalProgress.current}/{goalProgress.target}</span>
+          </div>
+      )}
+
+      {isTimed && (
+          <div className="flex w-full max-w-[95vw] sm:max-w-[400px] px-2 mb-1 items-center gap-2 z-10 shrink-0">
+              <button onClick={() => { playSoftClick(); setIsPaused(true); }} disabled={isGameOver}
+                  className="w-7 h-7 rounded-lg bg-white/10 hover:bg-white/20 text-white text-xs flex items-center justify-center">⏸</button>
+              <div className="flex-1 h-2 bg-black/40 rounded-full overflow-hidden border border-white/10">
+                  <div
+                      className={`h-full transition-[width] duration-100 ease-linear ${timeLeftMs <= BLITZ_CONFIG.WARNING_SECONDS * 1000 ? 'bg-red-500' : 'bg-gradient-to-r from-cyan-400 to-blue-500'}`}
+                      style={{ width: `${Math.min(100, (timeLeftMs / BLITZ_START_MS) * 100)}%` }}
+                  ></div>
+              </div>
+              <span className={`font-mono font-bold text-sm min-w-[40px] text-right ${timeLeftMs <= BLITZ_CONFIG.WARNING_SECONDS * 1000 ? 'text-red-400 animate-pulse' : 'text-cyan-200'}`}>
+                  {formatClock(timeLeftMs)}
+              </span>
+          </div>
+      )}
+
       <div 
         className={`
-            cyber-grid-container w-full max-w-[95vw] sm:max-w-[400px] aspect-square p-2 mb-2 shrink-0
+            cyber-grid-container w-full max-w-[95vw] sm:max-w-[400px] p-2 mb-2 shrink-0
             ${rescueMode ? 'border-2 border-red-500/50 shadow-[0_0_30px_rgba(239,68,68,0.4)]' : ''}
         `}
-        style={{ touchAction: 'none' }}
+        style={{ touchAction: 'none', aspectRatio: `${board.cols} / ${board.rows}` }}
         onMouseLeave={() => setHoveredCell(null)}
       >
         <div className="cyber-grid-bg"></div>
+        {showDifficulty && <DifficultyOverlay grid={grid} difficulty={game.difficulty} />}
         
         <MemoizedGrid 
-            grid={grid} 
+            grid={displayGrid} 
             onHover={handleGridHover} 
             onClick={handleGridClick} 
             getCellStatus={getCellStatus}
-            selectedShape={selectedShapeIdx !== null ? shapes[selectedShapeIdx] : null}
+            selectedShape={selectedShape}
             hoveredCell={hoveredCell}
             activePowerUp={activePowerUp}
+            showCursor={showCursor}
+            gridRef={gridRef}
         />
         
         <div className="absolute inset-0 pointer-events-none z-50 overflow-hidden">
             {particles.map((p) => (
-                <div key={p.id} className="particle" style={{ left: `calc(${p.c * 12.5}% + 50%)`, top: `calc(${p.r * 12.5}% + 50%)`, backgroundColor: p.color, ...p.style }} />
+                <div key={p.id} className="particle" style={{ left: `calc(${p.c * cellWidth}% + 50%)`, top: `calc(${p.r * cellHeight}% + 50%)`, backgroundColor: p.color, ...p.style }} />
             ))}
             {floatingTexts.map((ft) => (
                 <div key={ft.id} className="absolute animate-float-magical font-magic font-bold z-[100] pointer-events-none"
                     style={{ 
-                        left: `calc(${ft.x * 12.5}% + 6.25%)`, 
-                        top: `calc(${ft.y * 12.5}% - 10px)`, 
+                        left: `calc(${ft.x * cellWidth}% + ${cellWidth / 2}%)`, 
+                        top: `calc(${ft.y * cellHeight}% - 10px)`, 
                         color: ft.color, 
                         fontSize: `${16 * (ft.scale || 1)}px` 
                     }}>
@@ -923,27 +1395,39 @@ const BlockGame: React.FC<GameProps> = ({ onGameOver, isActive, coins, deductCoi
 
       <div className="w-full max-w-[95vw] sm:max-w-[400px] flex flex-col gap-2 z-10 shrink-0">
         
-        <div className="flex justify-between bg-black/30 backdrop-blur-md p-1.5 rounded-xl border border-white/10 shadow-lg">
-            {[
-                { type: 'BOMB' as PowerUpType, icon: '💣' },
-                { type: 'LINE' as PowerUpType, icon: '⚡' },
-                { type: 'COLOR' as PowerUpType, icon: '🌈' },
-                { type: 'SINGLE' as PowerUpType, icon: '🔨' },
-                { type: 'REFRESH' as PowerUpType, icon: '🔄' }
-            ].map(pu => {
-                const count = powerUps[pu.type];
-                const isActive = activePowerUp === pu.type;
-                const cost = POWER_UP_COSTS[pu.type];
-                return (
-                    <button key={pu.type} onClick={(e) => { e.stopPropagation(); handlePowerUpClick(pu.type); }}
-                        className={`relative w-10 h-10 rounded-lg flex items-center justify-center transition-all ${isActive ? 'bg-gradient-to-br from-yellow-400 to-orange-500 scale-105 z-10' : count > 0 ? 'bg-white/5 hover:bg-white/10' : 'bg-white/5 opacity-60'}`}>
-                        <span className="text-lg filter drop-shadow-md">{pu.icon}</span>
-                        {count > 0 ? ( <span className="absolute -top-1.5 -right-1.5 bg-pink-500 text-white text-[9px] font-bold w-4 h-4 flex items-center justify-center rounded-full border border-black">{count}</span> ) 
-                        : ( <div className="absolute -bottom-1 left-1/2 -translate-x-1/2 text-[8px] font-bold text-amber-300 bg-black/60 px-1 rounded-full">{cost}</div> )}
-                    </button>
-                )
-            })}
-        </div>
+        {!puzzle && (
+          <div className="grid grid-cols-5 gap-1 justify-items-center bg-black/30 backdrop-blur-md p-1.5 rounded-xl border border-white/10 shadow-lg">
+              {[
+                  { type: 'BOMB' as PowerUpType, icon: '💣' },
+                  { type: 'LINE' as PowerUpType, icon: '⚡' },
+                  { type: 'COLOR' as PowerUpType, icon: '🌈' },
+                  { type: 'SINGLE' as PowerUpType, icon: '🔨' },
+                  { type: 'REFRESH' as PowerUpType, icon: '🔄' },
+                  { type: 'GRAVITY' as PowerUpType, icon: '⬇️' },
+                  { type: 'SWAP' as PowerUpType, icon: '🔀' },
+                  { type: 'FREEZE' as PowerUpType, icon: '🧊' },
+                  { type: 'TRANSMUTE' as PowerUpType, icon: '✨' }
+              ].map(pu => {
+                  const freeCount = pu.type === 'REFRESH' ? game.freeRefreshes ?? 0 : 0;
+                  const count = powerUps[pu.type] + freeCount;
+                  const isActive = activePowerUp === pu.type;
+                  const cost = POWER_UP_COSTS[pu.type];
+                  return (
+                      <button key={pu.type} onClick={(e) => { e.stopPropagation(); handlePowerUpClick(pu.type); }}
+                          className={`relative w-10 h-10 rounded-lg flex items-center justify-center transition-all ${isActive ? 'bg-gradient-to-br from-yellow-400 to-orange-500 scale-105 z-10' : count > 0 ? 'bg-white/5 hover:bg-white/10' : 'bg-white/5 opacity-60'}`}>
+                          <span className="text-lg filter drop-shadow-md">{pu.icon}</span>
+                          {count > 0 ? ( <span className={`absolute -top-1.5 -right-1.5 ${freeCount > 0 ? 'bg-sky-500' : 'bg-pink-500'} text-white text-[9px] font-bold w-4 h-4 flex items-center justify-center rounded-full border border-black`}>{count}</span> ) 
+                          : ( <div className="absolute -bottom-1 left-1/2 -translate-x-1/2 text-[8px] font-bold text-amber-300 bg-black/60 px-1 rounded-full">{cost}</div> )}
+                      </button>
+                  )
+              })}
+              <button onClick={(e) => { e.stopPropagation(); handleHint(); }} title="Vis beste trekk"
+                  className={`relative w-10 h-10 rounded-lg flex items-center justify-center transition-all ${hint ? 'bg-amber-400/30' : 'bg-white/5 hover:bg-white/10'}`}>
+                  <span className="text-lg filter drop-shadow-md">💡</span>
+                  <div className="absolute -bottom-1 left-1/2 -translate-x-1/2 text-[8px] font-bold text-amber-300 bg-black/60 px-1 rounded-full">{POWER_UP_COSTS.HINT}</div>
+              </button>
+          </div>
+        )}
         
         {rescueMode && (
           <div className="text-red-300 text-xs font-bold font-cute animate-bounce bg-red-900/40 px-4 py-1.5 text-center rounded-full border border-red-500/50">
@@ -954,7 +1438,7 @@ const BlockGame: React.FC<GameProps> = ({ onGameOver, isActive, coins, deductCoi
         <div className="flex items-center gap-2 h-20 px-1">
             {!isGameOver && (
                 <button onClick={(e) => { e.stopPropagation(); handleHoldShape(); }}
-                    className={`relative w-16 h-16 rounded-xl border-2 border-dashed border-white/20 bg-black/20 flex items-center justify-center transition-all shrink-0 ${selectedShapeIdx !== null ? 'border-pink-500/50 bg-pink-500/10' : ''}`}>
+                    className={`relative w-16 h-16 rounded-xl border-2 border-dashed border-white/20 bg-black/20 flex items-center justify-center transition-all shrink-0 ${selectedShapeIdx !== null ? 'border-pink-500/50 bg-pink-500/10' : ''} ${hint?.source === 'HOLD' ? 'ring-2 ring-amber-300/70' : ''}`}>
                     {holdShape ? (
                         <div className="grid gap-0.5" style={{ gridTemplateColumns: `repeat(${holdShape.layout[0].length}, 1fr)` }}>
                             {holdShape.layout.map((row, i) => row.map((val, j) => (<div key={`${i}-${j}`} className={`w-2.5 h-2.5 ${val ? '' : 'invisible'}`} style={{ backgroundColor: val ? holdShape.color : 'transparent' }} />)))}
@@ -964,16 +1448,31 @@ const BlockGame: React.FC<GameProps> = ({ onGameOver, isActive, coins, deductCoi
             )}
 
             {!isGameOver && (
-                 <button onClick={(e) => {e.stopPropagation(); handleRotateShape();}}
-                   className="w-8 h-8 rounded-full bg-white/5 hover:bg-white/10 flex items-center justify-center border border-white/10 active:scale-90 transition-all shrink-0">
-                    <span className="text-white/70 text-xs">↻</span>
-                 </button>
+                 <div className="flex flex-col gap-1 shrink-0">
+                     <button onClick={(e) => {e.stopPropagation(); handleRotateShape();}}
+                       className="w-8 h-8 rounded-full bg-white/5 hover:bg-white/10 flex items-center justify-center border border-white/10 active:scale-90 transition-all">
+                        <span className="text-white/70 text-xs">↻</span>
+                     </button>
+                     {canUndo && <button onClick={(e) => {e.stopPropagation(); handleUndo();}} disabled={undoCount === 0}
+                       title={`Angre siste trekk (${UNDO_CONFIG.COST} mynter)`}
+                       className={`relative w-8 h-8 rounded-full flex items-center justify-center border border-white/10 transition-all ${undoCount > 0 ? 'bg-white/5 hover:bg-white/10 active:scale-90' : 'bg-white/5 opacity-30'}`}>
+                        <span className="text-white/70 text-xs">↶</span>
+                        {undoCount > 0 && <span className="absolute -top-1 -right-1 bg-indigo-500 text-white text-[8px] font-bold w-3.5 h-3.5 flex items-center justify-center rounded-full border border-black">{undoCount}</span>}
+                        <div className="absolute -bottom-1 left-1/2 -translate-x-1/2 text-[7px] font-bold text-amber-300 bg-black/60 px-1 rounded-full">{UNDO_CONFIG.COST}</div>
+                     </button>}
+                 </div>
             )}
 
             <div className="flex-1 flex justify-center gap-2 overflow-hidden h-full items-center">
                 {!isGameOver && shapes.map((shape, idx) => (
-                <button key={shape.id} onClick={(e) => { e.stopPropagation(); if (selectedShapeIdx === idx) { handleRotateShape(); } else { playPopSound(); setSelectedShapeIdx(idx); setActivePowerUp(null); }}}
-                    className={`dock-shape-wrapper relative p-1.5 rounded-xl cursor-pointer group flex items-center justify-center min-w-[50px] min-h-[50px] ${selectedShapeIdx === idx ? 'selected' : ''}`}>
+                <button key={shape.id}
+                    onClick={(e) => { e.stopPropagation(); if (suppressClickRef.current) { suppressClickRef.current = false; return; } handleTrayShapeClick(idx); }}
+                    onPointerDown={(e) => handleShapePointerDown(e, idx)}
+                    onPointerMove={handleShapePointerMove}
+                    onPointerUp={handleShapePointerUp}
+                    onPointerCancel={handleShapePointerCancel}
+                    style={{ touchAction: 'none' }}
+                    className={`dock-shape-wrapper relative p-1.5 rounded-xl cursor-pointer group flex items-center justify-center min-w-[50px] min-h-[50px] ${selectedShapeIdx === idx ? 'selected' : ''} ${hint?.source === 'TRAY' && hint.shapeIndex === idx ? 'ring-2 ring-amber-300/70' : ''} ${isTrayTargeting ? (swapPick === idx ? 'ring-2 ring-violet-300' : 'ring-1 ring-violet-400/60 animate-pulse') : ''}`}>
                     <div className="grid gap-0.5 pointer-events-none" style={{ gridTemplateColumns: `repeat(${shape.layout[0].length}, 1fr)` }}>
                     {shape.layout.map((row, i) => row.map((val, j) => (<div key={`${i}-${j}`} className={`w-3 h-3 transition-all ${val ? 'shape-preview-block' : 'invisible'}`} style={{ backgroundColor: val ? shape.color : 'transparent' }}></div>)))}
                     </div>
@@ -983,7 +1482,15 @@ const BlockGame: React.FC<GameProps> = ({ onGameOver, isActive, coins, deductCoi
         </div>
       </div>
 
-      {isGameOver && (
+      {dragPoint && selectedShape && (
+          <div className="fixed z-[200] pointer-events-none -translate-x-1/2 -translate-y-1/2 opacity-80" style={{ left: dragPoint.x, top: dragPoint.y }}>
+              <div className="grid gap-0.5" style={{ gridTemplateColumns: `repeat(${selectedShape.layout[0].length}, 1fr)` }}>
+                  {selectedShape.layout.map((row, i) => row.map((val, j) => (<div key={`${i}-${j}`} className={`w-4 h-4 ${val ? 'shape-preview-block' : 'invisible'}`} style={{ backgroundColor: val ? selectedShape.color : 'transparent' }} />)))}
+              </div>
+          </div>
+      )}
+
+      {isGameOver && !puzzle && (
         <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-modal-zoom">
             <div className="bg-slate-900/90 border border-white/20 p-6 rounded-3xl shadow-2xl w-full max-w-xs text-center relative overflow-hidden transition-all duration-500">
                 <div className="absolute inset-0 bg-[radial-gradient(circle_at_top,_var(--tw-gradient-stops))] from-pink-500/20 via-transparent to-transparent"></div>
@@ -993,12 +1500,24 @@ const BlockGame: React.FC<GameProps> = ({ onGameOver, isActive, coins, deductCoi
                     <div className={`transition-all duration-700 ${gameOverPhase >= 1 ? 'opacity-100 translate-y-0' : 'opacity-0 translate-y-4'}`}>
                         <div className="text-6xl mb-2 animate-bounce">🎅</div>
                         <h3 className="text-3xl font-bold font-magic text-transparent bg-clip-text bg-gradient-to-br from-red-400 to-green-300">God Jul!</h3>
+                        {challenge && (
+                            <p className="text-white/50 text-[10px] uppercase tracking-widest font-bold mt-1">
+                                {isPracticeRun ? 'Treningsrunde – ingen belønning' : 'Dagens utfordring'}
+                            </p>
+                        )}
+                        {isTimed && (
+                            <p className="text-cyan-300/80 text-[10px] uppercase tracking-widest font-bold mt-1">
+                                {timeLeftMs <= 0 ? 'Tiden er ute!' : 'Blitz'}
+                            </p>
+                        )}
                     </div>
                     
                     {/* Phase 2: Score */}
                     <div className={`bg-white/5 rounded-xl p-3 border border-white/5 transition-all duration-700 delay-100 ${gameOverPhase >= 2 ? 'opacity-100 scale-100' : 'opacity-0 scale-95'}`}>
                         <p className="text-white/50 text-[10px] uppercase tracking-widest font-bold mb-1">Total Score</p>
                         <p className="text-3xl font-bold text-white neon-text-pink">{displayScore}</p>
+                        <p className="text-white/30 text-[9px] font-mono mt-1">Frø #{formatSeed(game.seed)}</p>
+                        {finalRunStats && <ScoreBreakdown stats={finalRunStats} />}
                     </div>
 
                     {/* Phase 3: XP Bar */}
@@ -1027,16 +1546,41 @@ const BlockGame: React.FC<GameProps> = ({ onGameOver, isActive, coins, deductCoi
                     
                     {/* Phase 5: Buttons */}
                     <div className={`transition-all duration-700 delay-500 ${gameOverPhase >= 5 ? 'opacity-100 translate-y-0' : 'opacity-0 translate-y-8'}`}>
-                        <button onClick={resetGame}
+                        <button onClick={() => resetGame()}
                             className="w-full bg-gradient-to-r from-red-500 to-green-600 hover:from-red-400 hover:to-green-500 text-white font-bold py-3.5 px-6 rounded-xl shadow-[0_0_20px_rgba(236,72,153,0.3)] transform transition hover:scale-105 active:scale-95 font-cute tracking-wide">
                             Spill Igjen
                         </button>
+                        <button onClick={() => { playSoftClick(); setShowReplays(true); }}
+                            className="w-full mt-2 py-2 text-white/60 hover:text-white font-cute text-xs font-bold uppercase tracking-widest transition-colors">
+                            🎬 Se Repriser
+                        </button>
                     </div>
                 </div>
             </div>
         </div>
       )}
 
+      {isTimed && isPaused && !isGameOver && (
+        <div className="absolute inset-0 z-40 flex items-center justify-center bg-black/80 backdrop-blur-md p-4 animate-fade-in">
+            <div className="flex flex-col items-center gap-4 text-center">
+                <div className="text-5xl">⏸</div>
+                <h3 className="text-3xl font-bold font-magic text-cyan-200">Pause</h3>
+                <p className="text-white/60 text-xs font-cute">Gjenstående tid: {formatClock(timeLeftMs)}</p>
+                <button onClick={() => { playPopSound(); setIsPaused(false); }}
+                    className="bg-gradient-to-r from-cyan-500 to-blue-600 hover:from-cyan-400 hover:to-blue-500 text-white font-bold py-3 px-10 rounded-xl shadow-lg transform transition hover:scale-105 active:scale-95 font-cute tracking-wide">
+                    Fortsett
+                </button>
+            </div>
+        </div>
+      )}
+
+      {showReplays && <ReplayViewer onClose={() => setShowReplays(false)} />}
+      {showStats && <StatsScreen onClose={() => setShowStats(false)} />}
+      {showSaveSlots && (
+          <SaveSlots mode={mode} canSave={hasRunProgress()} onSave={handleSaveSlot} onResume={handleResumeSlot} onClose={() => setShowSaveSlots(false)} />
+      )}
+      {showLoadout && cards && <CardLoadout cards={cards} equippedIds={equippedIds} onSave={handleLoadoutSave} onClose={() => setShowLoadout(false)} />}
+
     </div>
   );
 };
@@ -4,6 +4,9 @@ import { ELEMENT_ICONS, RARITY_COLORS, RARITY_TRANSLATIONS } from '../constants'
 import { generateCardArt, editCardArt } from '../services/geminiService';
 import { storageService } from '../services/storageService';
 import { playFlipSound } from '../utils/audio';
+import { getStrengths, getWeaknesses } from '../utils/elements';
+import { describeMoveEffect } from '../utils/moves';
+import { getPower } from '../utils/power';
 
 // GLOBAL SET to track which cards are currently generating image to prevent duplicates
 // across different component instances (e.g. PackOpener vs Collection)
@@ -56,6 +59,7 @@ const getPlaceholderColor = (type: ElementType) => {
 
 const CardComponent: React.FC<CardProps> = ({ card, index, isRevealed, preloadedImageUrl, startFlipped = false, onImageSaved, className }) => {
   const [isFlipped, setIsFlipped] = useState(startFlipped);
+  const [hasSeenFront, setHasSeenFront] = useState(startFlipped); // The back only shows matchups once the card is known
   const [generatedImageBlobUrl, setGeneratedImageBlobUrl] = useState<string | null>(null);
   const [imageStatus, setImageStatus] = useState<'idle' | 'loading' | 'success' | 'error'>(preloadedImageUrl ? 'success' : 'idle');
   const [isImgRendered, setIsImgRendered] = useState(false); // Track if <img> tag has finished painting
@@ -304,6 +308,7 @@ const CardComponent: React.FC<CardProps> = ({ card, index, isRevealed, preloaded
     if (isRevealed) {
       playFlipSound();
       setIsFlipped(!isFlipped);
+      setHasSeenFront(true);
     }
   };
 
@@ -454,6 +459,7 @@ const CardComponent: React.FC<CardProps> = ({ card, index, isRevealed, preloaded
   const cardFaceGlassStyle = 'bg-white/5 backdrop-blur-md border-white/10';
 
   const translatedRarity = RARITY_TRANSLATIONS[card.rarity] || card.rarity;
+  const power = getPower(card);
 
   // Use passed className or default to responsive size
   // Mobile: 280px wide, 390px tall. Tablet/Desktop: 288px (w-72) wide, 420px tall.
@@ -500,11 +506,24 @@ const CardComponent: React.FC<CardProps> = ({ card, index, isRevealed, preloaded
                     <span className="text-[10px] font-cute font-bold text-pink-200/80 tracking-[0.3em] uppercase">Monster</span>
                  </div>
             </div>
-            <div className="absolute bottom-8 w-full text-center">
-                 <div className="inline-block px-4 py-1 rounded-full bg-black/30 backdrop-blur-sm border border-white/5">
-                    <span className="text-[10px] font-cute font-bold text-pink-200/80 tracking-[0.3em] uppercase">Butikk</span>
-                 </div>
-            </div>
+            {hasSeenFront ? (
+                <div className="absolute bottom-6 inset-x-4 flex flex-col gap-1 px-3 py-2 rounded-2xl bg-black/40 backdrop-blur-sm border border-white/10">
+                    <div className="flex items-center justify-between">
+                        <span className="text-[9px] font-cute font-bold text-emerald-200/80 uppercase tracking-wider">Sterk mot</span>
+                        <span className="text-sm">{getStrengths(card.type).map(type => ELEMENT_ICONS[type]).join(' ') || '–'}</span>
+                    </div>
+                    <div className="flex items-center justify-between">
+                        <span className="text-[9px] font-cute font-bold text-red-200/80 uppercase tracking-wider">Svak mot</span>
+                        <span className="text-sm">{getWeaknesses(card.type).map(type => ELEMENT_ICONS[type]).join(' ') || '–'}</span>
+                    </div>
+                </div>
+            ) : (
+                <div className="absolute bottom-8 w-full text-center">
+                     <div className="inline-block px-4 py-1 rounded-full bg-black/30 backdrop-blur-sm border border-white/5">
+                        <span className="text-[10px] font-cute font-bold text-pink-200/80 tracking-[0.3em] uppercase">Butikk</span>
+                     </div>
+                </div>
+            )}
         </div>
 
         {/* --- CARD FRONT --- */}
@@ -549,6 +568,7 @@ const CardComponent: React.FC<CardProps> = ({ card, index, isRevealed, preloaded
                            SHINY ✨
                          </span>
                        )}
+                       <span className="text-[9px] font-bold font-mono text-amber-200 bg-black/30 px-1.5 py-0.5 rounded" title="Styrke">⚡{power}</span>
                      </div>
                      <h3 className="font-cute font-bold text-base xs:text-lg leading-none tracking-wide text-white drop-shadow-sm max-w-[170px] xs:max-w-[200px] truncate">{card.name}</h3>
                 </div>
@@ -688,6 +708,13 @@ const CardComponent: React.FC<CardProps> = ({ card, index, isRevealed, preloaded
                                 ))}
                             </div>
                             <p className="text-[10px] xs:text-[11px] text-white/60 leading-snug font-body line-clamp-2">{move.description}</p>
+                            {move.effects && move.effects.length > 0 && (
+                                <div className="flex flex-wrap gap-1 mt-1">
+                                    {move.effects.map((effect, i) => (
+                                        <span key={i} className="text-[8px] xs:text-[9px] font-bold font-cute text-white/80 bg-white/10 rounded-full px-1.5 py-0.5">{describeMoveEffect(effect)}</span>
+                                    ))}
+                                </div>
+                            )}
                         </div>
                     ))}
                 </div>
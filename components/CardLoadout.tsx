@@ -0,0 +1,77 @@
+import React, { useState, useMemo } from 'react';
+import { MonsterCard } from '../types';
+import { ELEMENT_ICONS, RARITY_COLORS, RARITY_TRANSLATIONS, CARD_PASSIVE_TIERS, MAX_EQUIPPED_CARDS } from '../constants';
+import { describeCardPassive, resolveEquippedCards } from '../utils/cardPassives';
+import { playSoftClick, playPopSound, playErrorSound } from '../utils/audio';
+
+interface CardLoadoutProps {
+  cards: MonsterCard[];
+  equippedIds: string[];
+  onSave: (ids: string[]) => void;
+  onClose: () => void;
+}
+
+/** Picks up to three collection cards whose passives apply to the next block run */
+const CardLoadout: React.FC<CardLoadoutProps> = ({ cards, equippedIds, onSave, onClose }) => {
+  const [picked, setPicked] = useState<string[]>(() => resolveEquippedCards(cards, equippedIds).map(card => card.id));
+
+  // Strongest first, so the useful picks are at the top of a large collection
+  const sorted = useMemo(
+    () => [...cards].sort((a, b) => CARD_PASSIVE_TIERS[b.rarity] - CARD_PASSIVE_TIERS[a.rarity] || a.name.localeCompare(b.name)),
+    [cards]
+  );
+
+  const toggle = (id: string) => {
+    if (picked.includes(id)) {
+      playSoftClick();
+      setPicked(picked.filter(p => p !== id));
+    } else if (picked.length < MAX_EQUIPPED_CARDS) {
+      playPopSound();
+      setPicked([...picked, id]);
+    } else {
+      playErrorSound();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/90 backdrop-blur-xl p-4 animate-fade-in" onClick={onClose}>
+      <div className="relative w-full max-w-sm bg-slate-900/90 border border-white/10 rounded-3xl p-5 shadow-2xl flex flex-col gap-3 animate-modal-zoom max-h-full" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-magic font-bold text-pink-200">Kortlag</h2>
+            <p className="text-white/40 text-[10px] font-cute">Velg opptil {MAX_EQUIPPED_CARDS} kort. Bonusene gjelder fra neste runde.</p>
+          </div>
+          <button onClick={onClose} className="w-8 h-8 rounded-full bg-white/10 flex items-center justify-center text-white hover:bg-white/20">✕</button>
+        </div>
+
+        <div className="flex flex-col gap-1.5 overflow-y-auto min-h-0 -mx-1 px-1">
+          {sorted.length === 0 && (
+            <p className="text-white/40 text-xs font-cute text-center py-6">Ingen kort ennå. Åpne en pakke i butikken!</p>
+          )}
+          {sorted.map(card => {
+            const slot = picked.indexOf(card.id);
+            return (
+              <button key={card.id} onClick={() => toggle(card.id)}
+                className={`flex items-center gap-3 p-2.5 rounded-xl border text-left transition-colors ${slot >= 0 ? 'bg-pink-500/15 border-pink-500/50' : 'bg-white/5 border-white/5 hover:bg-white/10'}`}>
+                <span className="text-2xl w-8 text-center">{ELEMENT_ICONS[card.type]}</span>
+                <div className="flex-1 flex flex-col min-w-0">
+                  <span className="text-white font-bold font-cute text-sm truncate">{card.name}{card.isShiny ? ' ✦' : ''}</span>
+                  <span className={`text-[9px] uppercase tracking-widest font-bold ${RARITY_COLORS[card.rarity]}`}>{RARITY_TRANSLATIONS[card.rarity]}</span>
+                  <span className="text-white/60 text-[10px] font-cute">{describeCardPassive(card)}</span>
+                </div>
+                {slot >= 0 && <span className="w-5 h-5 rounded-full bg-pink-500 text-white text-[10px] font-bold flex items-center justify-center">{slot + 1}</span>}
+              </button>
+            );
+          })}
+        </div>
+
+        <button onClick={() => onSave(picked)}
+          className="w-full bg-gradient-to-r from-pink-500 to-purple-600 text-white font-bold py-3 rounded-xl shadow-lg transform transition hover:scale-105 active:scale-95 font-cute tracking-wide">
+          Bruk {picked.length}/{MAX_EQUIPPED_CARDS} kort
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CardLoadout;
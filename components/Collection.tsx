@@ -1,9 +1,12 @@
 import React, { useState, useEffect, useMemo, useRef } from 'react';
-import { MonsterCard, Rarity, ElementType, SortOption, SavedLayout, FilterOption } from '../types';
+import { MonsterCard, Rarity, ElementType, SortOption, SavedLayout, FilterOption, PowerRange } from '../types';
 import CardComponent from './CardComponent';
+import MatchupFinder from './MatchupFinder';
 import { RARITY_COLORS, RARITY_TRANSLATIONS, MELD_REWARDS, ELEMENT_ICONS } from '../constants';
 import { playSoftClick, playPopSound, playSwitchSound, playSuccessSound } from '../utils/audio';
 import { storageService } from '../services/storageService';
+import { POWER_CONFIG } from '../config/gameConfig';
+import { getPower, getPowerRating } from '../utils/power';
 
 interface CollectionProps {
   cards: MonsterCard[];
@@ -25,6 +28,8 @@ const Collection: React.FC<CollectionProps> = ({ cards, onMeld, onImageSaved, is
   const [sortOption, setSortOption] = useState<SortOption>('NEWEST');
   const [activeFilter, setActiveFilter] = useState<FilterOption>('ALL');
   const [favorites, setFavorites] = useState<Set<string>>(new Set());
+  const [showMatchups, setShowMatchups] = useState(false);
+  const [powerRange, setPowerRange] = useState<PowerRange | null>(null); // null shows every power
   
   // Layout State
   const [savedLayouts, setSavedLayouts] = useState<SavedLayout[]>([]);
@@ -151,7 +156,8 @@ const Collection: React.FC<CollectionProps> = ({ cards, onMeld, onImageSaved, is
         id: Date.now().toString(),
         name: newLayoutName,
         filter: activeFilter,
-        sort: sortOption
+        sort: sortOption,
+        ...(powerRange ? { powerRange } : {})
     };
     const updated = [...savedLayouts, newLayout];
     setSavedLayouts(updated);
@@ -163,6 +169,7 @@ const Collection: React.FC<CollectionProps> = ({ cards, onMeld, onImageSaved, is
     playSwitchSound();
     setActiveFilter(layout.filter);
     setSortOption(layout.sort);
+    setPowerRange(layout.powerRange ?? null);
     setShowLayoutMenu(false);
   };
 
@@ -184,7 +191,7 @@ const Collection: React.FC<CollectionProps> = ({ cards, onMeld, onImageSaved, is
 
   // Group duplicates and identify new cards
   const groupedCards = useMemo(() => {
-    const groups = new Map<string, { card: MonsterCard, count: number, latestTimestamp: number, isNew: boolean }>();
+    const groups = new Map<string, { card: MonsterCard, count: number, latestTimestamp: number, isNew: boolean, power: number }>();
     
     cards.forEach(card => {
       const parts = card.id.split('-');
@@ -206,13 +213,30 @@ const Collection: React.FC<CollectionProps> = ({ cards, onMeld, onImageSaved, is
           entry.card = card;
         }
       } else {
-        groups.set(card.name, { card, count: 1, latestTimestamp: timestamp, isNew });
+        groups.set(card.name, { card, count: 1, latestTimestamp: timestamp, isNew, power: 0 });
       }
     });
 
-    return Array.from(groups.values());
+    return Array.from(groups.values()).map(group => ({ ...group, power: getPower(group.card) }));
   }, [cards, lastViewedTime]);
   
+  // Slider bounds, widened to whole range steps
+  const powerBounds = useMemo(() => {
+    if (groupedCards.length === 0) return { min: 0, max: POWER_CONFIG.RANGE_STEP };
+    const powers = groupedCards.map(g => g.power);
+    const step = POWER_CONFIG.RANGE_STEP;
+    const min = Math.floor(Math.min(...powers) / step) * step;
+    return { min, max: Math.max(min + step, Math.ceil(Math.max(...powers) / step) * step) };
+  }, [groupedCards]);
+
+  const updatePowerRange = (bound: keyof PowerRange, value: number) => {
+    const current = powerRange ?? powerBounds;
+    const next = bound === 'min'
+      ? { min: Math.min(value, current.max), max: current.max }
+      : { min: current.min, max: Math.max(value, current.min) };
+    setPowerRange(next.min <= powerBounds.min && next.max >= powerBounds.max ? null : next);
+  };
+
   const sortedCards = useMemo(() => {
       let filtered = groupedCards;
       
@@ -226,6 +250,10 @@ const Collection: React.FC<CollectionProps> = ({ cards, onMeld, onImageSaved, is
           filtered = groupedCards.filter(g => g.card.type === activeFilter);
       }
 
+      if (powerRange) {
+          filtered = filtered.filter(g => g.power >= powerRange.min && g.power <= powerRange.max);
+      }
+
       return [...filtered].sort((a, b) => {
           if (sortOption === 'FAVORITES') {
              const isFavA = favorites.has(a.card.name);
@@ -242,16 +270,19 @@ const Collection: React.FC<CollectionProps> = ({ cards, onMeld, onImageSaved, is
               case 'NAME_DESC': return b.card.name.localeCompare(a.card.name, 'no');
               case 'RARITY_DESC': return RARITY_WEIGHTS[b.card.rarity] - RARITY_WEIGHTS[a.card.rarity];
               case 'RARITY_ASC': return RARITY_WEIGHTS[a.card.rarity] - RARITY_WEIGHTS[b.card.rarity];
+              case 'POWER': return b.power - a.power;
               default: return 0;
           }
       });
-  }, [groupedCards, sortOption, favorites, activeFilter]);
+  }, [groupedCards, sortOption, favorites, activeFilter, powerRange]);
 
   const selectedGroup = useMemo(() => {
     if (!selectedCard) return null;
     return groupedCards.find(g => g.card.name === selectedCard.name);
   }, [selectedCard, groupedCards]);
 
+  const selectedPower = useMemo(() => selectedCard ? getPowerRating(selectedCard) : null, [selectedCard]);
+
   const getRarityBorderColor = (rarity: Rarity) => {
     switch (rarity) {
       case Rarity.Common: return 'border-slate-600/50 group-hover:border-slate-400';
@@ -362,6 +393,14 @@ const Collection: React.FC<CollectionProps> = ({ cards, onMeld, onImageSaved, is
                 </div>
 
                 <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => { playSoftClick(); setShowMatchups(true); }}
+                      className="bg-white/10 hover:bg-white/20 text-white p-2 rounded-xl transition-colors border border-white/10"
+                      title="Matchup"
+                    >
+                       <span className="text-lg">⚔️</span>
+                    </button>
+
                     {/* Saved Layouts Menu */}
                     <div className="relative" ref={layoutMenuRef}>
                       <button 
@@ -402,6 +441,7 @@ const Collection: React.FC<CollectionProps> = ({ cards, onMeld, onImageSaved, is
                                           <div className="text-xs font-bold text-pink-200">{layout.name}</div>
                                           <div className="text-[9px] text-white/40">
                                             {getFilterLabel(layout.filter as string)} • {layout.sort}
+                                            {layout.powerRange && ` • ⚡${layout.powerRange.min}–${layout.powerRange.max}`}
                                           </div>
                                         </button>
                                         <button onClick={(e) => handleDeleteLayout(layout.id, e)} className="text-white/20 hover:text-red-400 p-1">✕</button>
@@ -426,6 +466,7 @@ const Collection: React.FC<CollectionProps> = ({ cards, onMeld, onImageSaved, is
                             <option value="FAVORITES">Favoritter</option>
                             <option value="RARITY_DESC">Sjeldenhet (Mytisk ➜ Vanlig)</option>
                             <option value="RARITY_ASC">Sjeldenhet (Vanlig ➜ Mytisk)</option>
+                            <option value="POWER">Styrke (Sterkest først)</option>
                             <option value="NAME_ASC">Navn (A-Å)</option>
                             <option value="NAME_DESC">Navn (Å-A)</option>
                         </select>
@@ -479,6 +520,32 @@ const Collection: React.FC<CollectionProps> = ({ cards, onMeld, onImageSaved, is
                   </button>
               ))}
           </div>
+
+          {/* Power Range */}
+          <div className="flex items-center gap-3 bg-black/20 px-3 py-2 rounded-2xl border border-white/5">
+              <span className="text-xs font-bold font-cute text-amber-200 whitespace-nowrap">⚡ Styrke</span>
+              <div className="flex-1 flex flex-col gap-1">
+                  {(['min', 'max'] as const).map(bound => (
+                      <input
+                          key={bound}
+                          type="range"
+                          min={powerBounds.min}
+                          max={powerBounds.max}
+                          step={POWER_CONFIG.RANGE_STEP}
+                          value={(powerRange ?? powerBounds)[bound]}
+                          onChange={(e) => updatePowerRange(bound, Number(e.target.value))}
+                          className="w-full accent-amber-300 h-1"
+                          aria-label={bound === 'min' ? 'Minste styrke' : 'Største styrke'}
+                      />
+                  ))}
+              </div>
+              <span className="text-[10px] font-mono font-bold text-white/70 w-16 text-right">
+                  {(powerRange ?? powerBounds).min}–{(powerRange ?? powerBounds).max}
+              </span>
+              {powerRange && (
+                  <button onClick={() => { playSoftClick(); setPowerRange(null); }} className="text-white/40 hover:text-white text-xs" title="Vis alle">✕</button>
+              )}
+          </div>
       </div>
 
       {/* Responsive Grid Layout with Virtual Scrolling */}
@@ -584,6 +651,14 @@ const Collection: React.FC<CollectionProps> = ({ cards, onMeld, onImageSaved, is
         {virtualData.paddingBottom > 0 && <div style={{ height: virtualData.paddingBottom, gridColumn: '1 / -1' }}></div>}
       </div>
       
+      {showMatchups && (
+        <MatchupFinder
+          cards={groupedCards.map(g => g.card)}
+          onSelect={(card) => { setShowMatchups(false); setSelectedCard(card); }}
+          onClose={() => setShowMatchups(false)}
+        />
+      )}
+
       {/* Modal - Detailed View */}
       {selectedCard && (
          <div 
@@ -639,6 +714,24 @@ const Collection: React.FC<CollectionProps> = ({ cards, onMeld, onImageSaved, is
                         </div>
                     </div>
 
+                    {/* Power Breakdown */}
+                    {selectedPower && (
+                        <div className="bg-white/5 rounded-xl p-3 border border-white/5">
+                            <div className="flex justify-between items-baseline mb-2">
+                                <span className="text-[10px] uppercase tracking-wider text-amber-300 font-bold">⚡ Styrke</span>
+                                <span className="text-lg font-mono text-white font-bold">{selectedPower.total}</span>
+                            </div>
+                            <div className="flex flex-col gap-1">
+                                {selectedPower.parts.map(part => (
+                                    <div key={part.key} className="flex items-center justify-between text-[11px] font-cute">
+                                        <span className="text-white/70">{part.label} <span className="text-white/30">({part.detail})</span></span>
+                                        <span className="font-mono font-bold text-white/90">+{part.points}</span>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
                     {/* Lore Box */}
                     <div className="bg-black/30 rounded-xl p-4 border border-white/5 relative overflow-hidden group">
                         <div className="absolute top-0 left-0 w-1 h-full bg-gradient-to-b from-pink-500 to-purple-500"></div>
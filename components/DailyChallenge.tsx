@@ -0,0 +1,156 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import BlockGame from './BlockGame';
+import { DailyChallengeRecord } from '../types';
+import { storageService } from '../services/storageService';
+import { toDateKey, getDailySeed, recordDailyRun } from '../utils/dailyChallenge';
+import { playSoftClick } from '../utils/audio';
+
+interface DailyChallengeProps {
+  onGameOver: (score: number, goldCollected: number) => void;
+  isActive: boolean;
+  coins: number;
+  deductCoins: (amount: number) => boolean;
+  level: number;
+  currentXP: number;
+  xpNeeded: number;
+}
+
+const WEEKDAYS = ['Ma', 'Ti', 'On', 'To', 'Fr', 'Lø', 'Sø'];
+
+// --- HISTORY CALENDAR ---
+const DailyCalendar: React.FC<{ records: Record<string, DailyChallengeRecord>, todayKey: string, onClose: () => void }> = ({ records, todayKey, onClose }) => {
+  const [month, setMonth] = useState(() => {
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth(), 1);
+  });
+
+  const days = useMemo(() => {
+    const daysInMonth = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate();
+    const leadingBlanks = (month.getDay() + 6) % 7; // Weeks start on Monday
+    const cells: (Date | null)[] = Array(leadingBlanks).fill(null);
+    for (let d = 1; d <= daysInMonth; d++) {
+      cells.push(new Date(month.getFullYear(), month.getMonth(), d));
+    }
+    return cells;
+  }, [month]);
+
+  const allRecords = Object.values(records);
+  const bestEver = allRecords.reduce((max, r) => Math.max(max, r.score), 0);
+
+  const changeMonth = (delta: number) => {
+    playSoftClick();
+    setMonth(prev => new Date(prev.getFullYear(), prev.getMonth() + delta, 1));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/90 backdrop-blur-xl p-4 animate-fade-in" onClick={onClose}>
+      <div className="w-full max-w-sm bg-slate-900/90 border border-white/10 rounded-3xl p-5 shadow-2xl flex flex-col gap-4 animate-modal-zoom" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-magic font-bold text-pink-200">Utfordringer</h2>
+          <button onClick={onClose} className="w-8 h-8 rounded-full bg-white/10 flex items-center justify-center text-white hover:bg-white/20">✕</button>
+        </div>
+
+        <div className="flex gap-2">
+          <div className="flex-1 bg-white/5 rounded-xl p-2 text-center border border-white/5">
+            <p className="text-white/40 text-[9px] font-bold uppercase tracking-wider">Dager spilt</p>
+            <p className="text-white font-bold font-mono text-lg">{allRecords.length}</p>
+          </div>
+          <div className="flex-1 bg-white/5 rounded-xl p-2 text-center border border-white/5">
+            <p className="text-white/40 text-[9px] font-bold uppercase tracking-wider">Beste dag</p>
+            <p className="text-amber-300 font-bold font-mono text-lg">{bestEver}</p>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <button onClick={() => changeMonth(-1)} className="w-8 h-8 rounded-lg bg-white/5 hover:bg-white/10 text-white">‹</button>
+          <span className="text-white font-cute font-bold capitalize">
+            {month.toLocaleDateString('no-NO', { month: 'long', year: 'numeric' })}
+          </span>
+          <button onClick={() => changeMonth(1)} className="w-8 h-8 rounded-lg bg-white/5 hover:bg-white/10 text-white">›</button>
+        </div>
+
+        <div className="grid grid-cols-7 gap-1">
+          {WEEKDAYS.map(d => (
+            <div key={d} className="text-center text-white/40 text-[9px] font-bold uppercase">{d}</div>
+          ))}
+          {days.map((day, i) => {
+            if (!day) return <div key={`blank-${i}`} />;
+            const key = toDateKey(day);
+            const record = records[key];
+            const isToday = key === todayKey;
+            const isFuture = key > todayKey;
+            return (
+              <div
+                key={key}
+                className={`aspect-square rounded-lg flex flex-col items-center justify-center border transition-colors
+                  ${record ? 'bg-pink-500/20 border-pink-500/40' : 'bg-white/5 border-white/5'}
+                  ${isToday ? 'ring-2 ring-amber-400' : ''}
+                  ${isFuture ? 'opacity-30' : ''}`}
+                title={record ? `Poeng ${record.score} • Best ${record.bestScore} • ${record.attempts} forsøk` : undefined}
+              >
+                <span className="text-white/70 text-[10px] font-bold leading-none">{day.getDate()}</span>
+                {record && <span className="text-pink-200 text-[8px] font-mono leading-none mt-0.5">{record.score}</span>}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const DailyChallenge: React.FC<DailyChallengeProps> = ({ onGameOver, isActive, ...gameProps }) => {
+  const [dateKey, setDateKey] = useState(() => toDateKey());
+  const [records, setRecords] = useState<Record<string, DailyChallengeRecord>>(() => storageService.loadDailyChallenges());
+  const [showCalendar, setShowCalendar] = useState(false);
+
+  // Pick up a new day when the player comes back to the tab after midnight
+  useEffect(() => {
+    if (isActive) setDateKey(toDateKey());
+  }, [isActive]);
+
+  const todayRecord = records[dateKey];
+
+  const challenge = useMemo(() => ({
+    seed: getDailySeed(dateKey),
+    isScored: !todayRecord,
+    bestScore: todayRecord?.bestScore ?? 0
+  }), [dateKey, todayRecord]);
+
+  const handleGameOver = (score: number, goldCollected: number) => {
+    const isScored = !records[dateKey];
+    const next = { ...records, [dateKey]: recordDailyRun(records[dateKey], dateKey, score) };
+    setRecords(next);
+    storageService.saveDailyChallenges(next);
+    if (isScored) onGameOver(score, goldCollected);
+  };
+
+  const dateLabel = new Date(`${dateKey}T00:00`).toLocaleDateString('no-NO', { day: 'numeric', month: 'long' });
+
+  return (
+    <div className="w-full h-full flex flex-col">
+      <div className="flex w-full max-w-[95vw] sm:max-w-[400px] mx-auto px-2 mb-1 items-center justify-between gap-2 shrink-0">
+        <div className="flex flex-col">
+          <span className="text-amber-300 text-[10px] font-bold uppercase tracking-wider font-cute">📅 Dagens utfordring</span>
+          <span className="text-white/60 text-[10px] font-cute">
+            {dateLabel} • {todayRecord ? `Poeng ${todayRecord.score} • Best ${todayRecord.bestScore}` : '1 tellende forsøk'}
+          </span>
+        </div>
+        <button
+          onClick={() => { playSoftClick(); setShowCalendar(true); }}
+          className="glass-panel rounded-xl px-3 py-1.5 border border-white/10 text-white/80 text-[10px] font-bold uppercase tracking-wider hover:bg-white/10 transition-colors"
+        >
+          Kalender
+        </button>
+      </div>
+
+      <div className="flex-1 min-h-0">
+        <BlockGame key={dateKey} onGameOver={handleGameOver} isActive={isActive} mode="DAILY" challenge={challenge} {...gameProps} />
+      </div>
+
+      {showCalendar && <DailyCalendar records={records} todayKey={dateKey} onClose={() => setShowCalendar(false)} />}
+    </div>
+  );
+};
+
+export default DailyChallenge;
@@ -0,0 +1,39 @@
+import React from 'react';
+import { DifficultyState, GridCell } from '../types';
+import { getDifficultyWeights } from '../utils/difficulty';
+
+interface DifficultyOverlayProps {
+  grid: GridCell[][];
+  difficulty?: DifficultyState;
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+/** Development aid: shows the weights the next tray will be dealt with */
+const DifficultyOverlay: React.FC<DifficultyOverlayProps> = ({ grid, difficulty }) => {
+  const weights = getDifficultyWeights(grid, difficulty);
+  const rows: [string, string][] = [
+    ['Modus', !difficulty ? 'gammel' : difficulty.adaptive ? 'adaptiv' : 'fast'],
+    ['Press', weights.pressure.toFixed(2)],
+    ['Fylt', percent(weights.fillRatio)],
+    ['Linjer', `${weights.recentLines} (${difficulty?.recentClears.length ?? 0} trekk)`],
+    ['Nivå', String(difficulty?.playerLevel ?? '-')],
+    ['Vanskelig', percent(weights.hardChance)],
+    ['Middels', percent(weights.mediumChance)],
+    ['1x1 etter V/M', `${percent(weights.singleAfterHard)} / ${percent(weights.singleAfterMedium)}`],
+    ['Spillbar', difficulty?.guaranteePlayable ? 'garantert' : 'nei']
+  ];
+
+  return (
+    <div className="absolute top-1 left-1 z-[60] pointer-events-none bg-black/80 border border-lime-400/40 rounded-lg px-2 py-1 font-mono text-[9px] leading-tight text-lime-200">
+      {rows.map(([label, value]) => (
+        <div key={label} className="flex justify-between gap-3">
+          <span className="text-lime-200/50">{label}</span>
+          <span>{value}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default DifficultyOverlay;
@@ -0,0 +1,179 @@
+import React, { useState, useEffect } from 'react';
+import BlockGame from './BlockGame';
+import { LevelProgressRecord } from '../types';
+import { storageService } from '../services/storageService';
+import { LEVELS, describeGoal } from '../utils/levels';
+import { playSoftClick, playPopSound, playSuccessSound, playErrorSound } from '../utils/audio';
+
+interface LevelSelectProps {
+  onGameOver: (score: number) => void; // Called once per level, on its first completion
+  isActive: boolean;
+  coins: number;
+  deductCoins: (amount: number) => boolean;
+  level: number;
+  currentXP: number;
+  xpNeeded: number;
+}
+
+interface LevelResult {
+  status: 'WON' | 'LOST';
+  stars: number;
+  score: number;
+  isFirstClear: boolean;
+}
+
+const StarRow: React.FC<{ stars: number, size?: string }> = ({ stars, size = 'text-xs' }) => (
+  <span className={`${size} tracking-tight`}>
+    {[1, 2, 3].map(i => (
+      <span key={i} className={i <= stars ? 'text-amber-300' : 'text-white/15'}>★</span>
+    ))}
+  </span>
+);
+
+const LevelSelect: React.FC<LevelSelectProps> = ({ onGameOver, isActive, ...gameProps }) => {
+  const [progress, setProgress] = useState<Record<string, LevelProgressRecord>>({});
+  const [activeIndex, setActiveIndex] = useState<number | null>(null);
+  const [attempt, setAttempt] = useState(0); // Bumped to remount the board on retry
+  const [result, setResult] = useState<LevelResult | null>(null);
+
+  useEffect(() => {
+    storageService.loadLevelProgress().then(records => {
+      setProgress(Object.fromEntries(records.map(r => [r.levelId, r])));
+    });
+  }, []);
+
+  const isUnlocked = (index: number) => index === 0 || !!progress[LEVELS[index - 1].id];
+  const totalStars = Object.values(progress).reduce((sum, r) => sum + r.stars, 0);
+
+  const startLevel = (index: number) => {
+    playPopSound();
+    setActiveIndex(index);
+    setAttempt(a => a + 1);
+    setResult(null);
+  };
+
+  const backToList = () => {
+    playSoftClick();
+    setActiveIndex(null);
+    setResult(null);
+  };
+
+  const handlePuzzleEnd = ({ status, stars, score }: { status: 'WON' | 'LOST', stars: number, score: number }) => {
+    if (activeIndex === null) return;
+    const levelId = LEVELS[activeIndex].id;
+    const previous = progress[levelId];
+
+    if (status === 'WON') {
+      playSuccessSound();
+      const record: LevelProgressRecord = {
+        levelId,
+        stars: Math.max(stars, previous?.stars ?? 0),
+        bestScore: Math.max(score, previous?.bestScore ?? 0),
+        completedAt: Date.now()
+      };
+      setProgress(prev => ({ ...prev, [levelId]: record }));
+      storageService.saveLevelProgress(record);
+      if (!previous) onGameOver(score);
+    } else {
+      playErrorSound();
+    }
+    setResult({ status, stars, score, isFirstClear: status === 'WON' && !previous });
+  };
+
+  if (activeIndex === null) {
+    return (
+      <div className="w-full h-full flex flex-col items-center px-4">
+        <div className="w-full max-w-[400px] flex items-end justify-between mb-3">
+          <div>
+            <h2 className="text-2xl font-magic font-bold text-pink-200">Nivåer</h2>
+            <p className="text-white/40 text-[10px] font-cute">Løs gåtene med et fast sett brikker</p>
+          </div>
+          <span className="text-amber-300 font-bold font-mono text-sm">★ {totalStars}/{LEVELS.length * 3}</span>
+        </div>
+
+        <div className="w-full max-w-[400px] grid grid-cols-4 gap-2">
+          {LEVELS.map((lvl, i) => {
+            const unlocked = isUnlocked(i);
+            const record = progress[lvl.id];
+            return (
+              <button
+                key={lvl.id}
+                disabled={!unlocked}
+                onClick={() => startLevel(i)}
+                className={`aspect-square rounded-xl flex flex-col items-center justify-center gap-0.5 border transition-all
+                  ${unlocked ? 'bg-white/5 border-white/10 hover:bg-white/10 active:scale-95' : 'bg-black/30 border-white/5 opacity-50'}
+                  ${record ? 'border-amber-400/40' : ''}`}
+              >
+                <span className="text-white font-magic font-bold text-xl leading-none">{unlocked ? i + 1 : '🔒'}</span>
+                <StarRow stars={record?.stars ?? 0} />
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    );
+  }
+
+  const current = LEVELS[activeIndex];
+  const hasNext = activeIndex < LEVELS.length - 1;
+
+  return (
+    <div className="w-full h-full flex flex-col relative">
+      <div className="flex w-full max-w-[95vw] sm:max-w-[400px] mx-auto px-2 mb-1 items-center justify-between gap-2 shrink-0">
+        <button onClick={backToList} className="text-white/60 hover:text-white text-xs font-bold font-cute uppercase tracking-wider">‹ Nivåer</button>
+        <div className="flex flex-col items-end">
+          <span className="text-white font-cute font-bold text-sm leading-none">{activeIndex + 1}. {current.name}</span>
+          <span className="text-white/40 text-[9px] font-cute">{describeGoal(current.goal)} på {current.moveLimit} trekk</span>
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0">
+        <BlockGame
+          key={`${current.id}-${attempt}`}
+          mode="LEVEL"
+          puzzle={current}
+          onPuzzleEnd={handlePuzzleEnd}
+          onGameOver={() => {}}
+          isActive={isActive && !result}
+          {...gameProps}
+        />
+      </div>
+
+      {result && (
+        <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-modal-zoom">
+          <div className="bg-slate-900/90 border border-white/20 p-6 rounded-3xl shadow-2xl w-full max-w-xs text-center flex flex-col gap-4">
+            {result.status === 'WON' ? (
+              <>
+                <h3 className="text-3xl font-bold font-magic text-transparent bg-clip-text bg-gradient-to-br from-amber-300 to-yellow-100">Nivå fullført!</h3>
+                <StarRow stars={result.stars} size="text-5xl" />
+                <p className="text-white/60 text-xs font-cute">{result.score} poeng{result.isFirstClear ? ' • Første gang: belønning utbetalt!' : ''}</p>
+              </>
+            ) : (
+              <>
+                <h3 className="text-3xl font-bold font-magic text-pink-200">Ikke helt!</h3>
+                <p className="text-white/60 text-xs font-cute">{describeGoal(current.goal)} før trekkene tar slutt.</p>
+              </>
+            )}
+            <div className="flex flex-col gap-2">
+              {result.status === 'WON' && hasNext && (
+                <button onClick={() => startLevel(activeIndex + 1)}
+                  className="w-full bg-gradient-to-r from-amber-500 to-orange-600 text-white font-bold py-3 rounded-xl shadow-lg transform transition hover:scale-105 active:scale-95 font-cute tracking-wide">
+                  Neste nivå
+                </button>
+              )}
+              <button onClick={() => startLevel(activeIndex)}
+                className="w-full bg-white/10 hover:bg-white/20 text-white font-bold py-3 rounded-xl font-cute tracking-wide">
+                Prøv igjen
+              </button>
+              <button onClick={backToList} className="w-full py-2 text-white/50 hover:text-white font-cute text-xs font-bold uppercase tracking-widest">
+                Alle nivåer
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LevelSelect;
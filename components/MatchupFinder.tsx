@@ -0,0 +1,79 @@
+import React, { useState, useMemo } from 'react';
+import { ElementType, MonsterCard } from '../types';
+import { ELEMENT_ICONS, RARITY_COLORS, RARITY_TRANSLATIONS } from '../constants';
+import { ELEMENT_TYPES, rankCardsAgainst, getStrengths, getWeaknesses, getResistances } from '../utils/elements';
+import { playSoftClick, playSwitchSound } from '../utils/audio';
+
+interface MatchupFinderProps {
+  cards: MonsterCard[]; // One card per monster
+  onSelect: (card: MonsterCard) => void;
+  onClose: () => void;
+}
+
+const MAX_RESULTS = 12;
+
+const formatMultiplier = (value: number): string => value === 0.5 ? '½' : `${value}`;
+
+/** Ranks the collection against an opposing element, so the right card is easy to find before a battle */
+const MatchupFinder: React.FC<MatchupFinderProps> = ({ cards, onSelect, onClose }) => {
+  const [opponent, setOpponent] = useState<ElementType>(ElementType.Fire);
+  const ranked = useMemo(() => rankCardsAgainst(cards, opponent).slice(0, MAX_RESULTS), [cards, opponent]);
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/90 backdrop-blur-xl p-4 animate-fade-in" onClick={onClose}>
+      <div className="relative w-full max-w-sm bg-slate-900/90 border border-white/10 rounded-3xl p-5 shadow-2xl flex flex-col gap-3 animate-modal-zoom max-h-full" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-magic font-bold text-pink-200">Matchup</h2>
+            <p className="text-white/40 text-[10px] font-cute">Hvilke kort passer best mot motstanderen?</p>
+          </div>
+          <button onClick={onClose} className="w-8 h-8 rounded-full bg-white/10 flex items-center justify-center text-white hover:bg-white/20">✕</button>
+        </div>
+
+        <div className="grid grid-cols-9 gap-1">
+          {ELEMENT_TYPES.map(type => (
+            <button key={type} onClick={() => { playSwitchSound(); setOpponent(type); }} title={type}
+              className={`aspect-square rounded-lg text-base flex items-center justify-center border transition-all ${opponent === type ? 'bg-indigo-600 border-indigo-400 scale-110' : 'bg-black/30 border-white/10 opacity-60 hover:opacity-100'}`}>
+              {ELEMENT_ICONS[type]}
+            </button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-3 gap-1.5 text-center text-[9px] font-cute">
+          <div className="bg-white/5 rounded-lg p-1.5">
+            <div className="text-white/40 font-bold uppercase tracking-wider">Sterk mot</div>
+            <div className="text-sm">{getStrengths(opponent).map(t => ELEMENT_ICONS[t]).join(' ') || '–'}</div>
+          </div>
+          <div className="bg-white/5 rounded-lg p-1.5">
+            <div className="text-white/40 font-bold uppercase tracking-wider">Svak mot</div>
+            <div className="text-sm">{getWeaknesses(opponent).map(t => ELEMENT_ICONS[t]).join(' ') || '–'}</div>
+          </div>
+          <div className="bg-white/5 rounded-lg p-1.5">
+            <div className="text-white/40 font-bold uppercase tracking-wider">Tåler</div>
+            <div className="text-sm">{getResistances(opponent).map(t => ELEMENT_ICONS[t]).join(' ') || '–'}</div>
+          </div>
+        </div>
+
+        <div className="flex flex-col gap-1.5 overflow-y-auto min-h-0 -mx-1 px-1">
+          {ranked.map(({ card, attack, defense, rating }) => (
+            <button key={card.id} onClick={() => { playSoftClick(); onSelect(card); }}
+              className="flex items-center gap-3 p-2.5 rounded-xl bg-white/5 border border-white/5 hover:bg-white/10 text-left transition-colors">
+              <span className="text-2xl w-8 text-center">{ELEMENT_ICONS[card.type]}</span>
+              <div className="flex-1 flex flex-col min-w-0">
+                <span className="text-white font-bold font-cute text-sm truncate">{card.name}</span>
+                <span className={`text-[9px] uppercase tracking-widest font-bold ${RARITY_COLORS[card.rarity]}`}>{RARITY_TRANSLATIONS[card.rarity]} · {card.hp} HP</span>
+              </div>
+              <div className="flex flex-col items-end text-[10px] font-mono font-bold">
+                <span className={attack > 1 ? 'text-emerald-300' : attack < 1 ? 'text-red-300' : 'text-white/50'}>gir ×{formatMultiplier(attack)}</span>
+                <span className={defense < 1 ? 'text-emerald-300' : defense > 1 ? 'text-red-300' : 'text-white/50'}>tar ×{formatMultiplier(defense)}</span>
+              </div>
+              <span className={`w-2 h-8 rounded-full ${rating > 1 ? 'bg-emerald-400' : rating < 1 ? 'bg-red-400' : 'bg-white/20'}`} />
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MatchupFinder;
@@ -0,0 +1,24 @@
+import React from 'react';
+import { GridCell } from '../types';
+import { getCellColor, isHole } from '../utils/cells';
+
+interface MiniBoardProps {
+  grid: GridCell[][];
+  className?: string;
+}
+
+/** Small read-only picture of a board, for pace snapshots and save slot thumbnails */
+const MiniBoard: React.FC<MiniBoardProps> = ({ grid, className = '' }) => {
+  const rows = grid.length;
+  const cols = grid[0]?.length ?? 0;
+  return (
+    <div className={`grid gap-px ${className}`} style={{ gridTemplateColumns: `repeat(${cols}, minmax(0, 1fr))`, aspectRatio: `${cols} / ${rows}` }}>
+      {grid.flat().map((cell, i) => (
+        <div key={i} className={`rounded-[1px] ${cell === null ? 'bg-white/5' : ''} ${isHole(cell) ? 'opacity-0' : ''}`}
+          style={cell !== null ? { backgroundColor: getCellColor(cell)! } : undefined} />
+      ))}
+    </div>
+  );
+};
+
+export default MiniBoard;
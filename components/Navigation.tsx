@@ -11,6 +11,7 @@ const Navigation: React.FC<NavProps> = ({ currentView, onChange }) => {
   const getIcon = (view: ViewState): string => {
     switch(view) {
       case 'GAME': return '🎮';
+      case 'BATTLE': return '⚔️';
       case 'SHOP': return '🛍️';
       case 'COLLECTION': return '📒';
       default: return '❓';
@@ -20,6 +21,7 @@ const Navigation: React.FC<NavProps> = ({ currentView, onChange }) => {
   const getLabel = (view: ViewState): string => {
     switch(view) {
       case 'GAME': return 'Spill';
+      case 'BATTLE': return 'Kamp';
       case 'SHOP': return 'Butikk';
       case 'COLLECTION': return 'Samling';
       default: return view;
@@ -29,7 +31,7 @@ const Navigation: React.FC<NavProps> = ({ currentView, onChange }) => {
   return (
     <div className="fixed bottom-0 left-0 right-0 z-50 px-6 flex justify-center pb-[calc(1rem+env(safe-area-inset-bottom))] pt-4 pointer-events-none">
       <div className="glass-panel flex items-center gap-2 p-2 rounded-full shadow-2xl bg-black/40 pointer-events-auto backdrop-blur-xl border border-white/10">
-        {(['GAME', 'SHOP', 'COLLECTION'] as ViewState[]).map((view) => {
+        {(['GAME', 'BATTLE', 'SHOP', 'COLLECTION'] as ViewState[]).map((view) => {
           const isActive = currentView === view;
           return (
             <button
@@ -0,0 +1,204 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { BlockReplay, GridCell } from '../types';
+import { storageService } from '../services/storageService';
+import { buildReplayFrames, describeReplayAction } from '../utils/replay';
+import { formatSeed } from '../utils/random';
+import { getCellColor, isHole } from '../utils/cells';
+import { playSoftClick, playPopSound, playSuccessSound } from '../utils/audio';
+import SpecialCellMark from './SpecialCellMark';
+
+interface ReplayViewerProps {
+  onClose: () => void;
+}
+
+const SPEEDS = [0.5, 1, 2, 4];
+const BASE_STEP_MS = 600; // Time per action at 1x speed
+
+// Read-only board, styled like the live grid
+const ReplayBoard: React.FC<{ grid: GridCell[][] }> = ({ grid }) => (
+  <div className="cyber-grid-container w-full p-2" style={{ aspectRatio: `${grid[0].length} / ${grid.length}` }}>
+    <div className="cyber-grid-bg"></div>
+    <div className="grid gap-1 w-full h-full relative z-10" style={{ gridTemplateColumns: `repeat(${grid[0].length}, 1fr)` }}>
+      {grid.map((row, r) => row.map((cell, c) => isHole(cell) ? <div key={`${r}-${c}`} /> : (
+        <div
+          key={`${r}-${c}`}
+          className={`w-full h-full rounded-[4px] flex items-center justify-center ${cell ? 'gem-block-3d' : 'cyber-cell-empty'}`}
+          style={cell ? { backgroundColor: getCellColor(cell)! } : undefined}
+        >
+          {cell && <div className="gem-block-3d-inner"></div>}
+          {cell && <SpecialCellMark cell={cell} />}
+        </div>
+      )))}
+    </div>
+  </div>
+);
+
+const ReplayViewer: React.FC<ReplayViewerProps> = ({ onClose }) => {
+  const [replays, setReplays] = useState<BlockReplay[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selected, setSelected] = useState<BlockReplay | null>(null);
+  const [frameIdx, setFrameIdx] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    storageService.loadReplays().then(loaded => {
+      setReplays(loaded);
+      setIsLoading(false);
+    });
+  }, []);
+
+  const frames = useMemo(() => selected ? buildReplayFrames(selected) : [], [selected]);
+  const bestScore = useMemo(() => replays.reduce((max, r) => Math.max(max, r.score), 0), [replays]);
+
+  // Playback Loop
+  useEffect(() => {
+    if (!isPlaying) return undefined;
+    if (frameIdx >= frames.length - 1) {
+      setIsPlaying(false);
+      return undefined;
+    }
+    const t = setTimeout(() => setFrameIdx(i => i + 1), BASE_STEP_MS / speed);
+    return () => clearTimeout(t);
+  }, [isPlaying, frameIdx, frames.length, speed]);
+
+  const openReplay = (replay: BlockReplay) => {
+    playPopSound();
+    setSelected(replay);
+    setFrameIdx(0);
+    setIsPlaying(true);
+  };
+
+  const closeReplay = () => {
+    playSoftClick();
+    setSelected(null);
+    setIsPlaying(false);
+  };
+
+  const handleDelete = (id: string, e: React.MouseEvent) => {
+    e.stopPropagation();
+    playSoftClick();
+    storageService.deleteReplay(id);
+    setReplays(prev => prev.filter(r => r.id !== id));
+  };
+
+  // Copies the raw log so it can be pasted into a bug report
+  const handleCopy = async () => {
+    if (!selected) return;
+    try {
+      await navigator.clipboard.writeText(JSON.stringify(selected));
+      playSuccessSound();
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (e) {
+      console.warn('[ReplayViewer] Clipboard write failed:', e);
+    }
+  };
+
+  const frame = frames[frameIdx];
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/90 backdrop-blur-xl p-4 animate-fade-in" onClick={onClose}>
+      <div className="relative w-full max-w-sm bg-slate-900/90 border border-white/10 rounded-3xl p-5 shadow-2xl flex flex-col gap-4 animate-modal-zoom max-h-full overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-magic font-bold text-pink-200">{selected ? 'Reprise' : 'Mine Repriser'}</h2>
+          <button onClick={selected ? closeReplay : onClose} className="w-8 h-8 rounded-full bg-white/10 flex items-center justify-center text-white hover:bg-white/20">
+            {selected ? '←' : '✕'}
+          </button>
+        </div>
+
+        {!selected && (
+          <div className="flex flex-col gap-2">
+            {isLoading && <p className="text-white/40 text-xs font-cute text-center py-6">Laster inn...</p>}
+            {!isLoading && replays.length === 0 && (
+              <p className="text-white/40 text-xs font-cute text-center py-6">Ingen repriser ennå. Fullfør et spill først!</p>
+            )}
+            {replays.map(replay => (
+              <button key={replay.id} onClick={() => openReplay(replay)}
+                className="flex items-center justify-between bg-white/5 hover:bg-white/10 p-3 rounded-xl border border-white/5 text-left transition-colors group">
+                <div className="flex flex-col">
+                  <span className="text-white font-bold font-mono text-base">
+                    {replay.score} {replay.score === bestScore && <span className="text-xs">🏆</span>}
+                  </span>
+                  <span className="text-white/40 text-[10px] font-cute">
+                    {new Date(replay.createdAt).toLocaleDateString('no-NO')} • {replay.actions.length} trekk • #{formatSeed(replay.seed)}
+                  </span>
+                </div>
+                <span onClick={(e) => handleDelete(replay.id, e)} className="text-white/20 hover:text-red-400 p-1">✕</span>
+              </button>
+            ))}
+          </div>
+        )}
+
+        {selected && frame && (
+          <>
+            <div className="flex justify-between items-end">
+              <div className="flex flex-col">
+                <span className="text-white/40 text-[9px] font-bold uppercase tracking-wider">Trekk {frameIdx}/{frames.length - 1}</span>
+                <span className="text-white/80 text-xs font-cute">{describeReplayAction(frame.action)}</span>
+              </div>
+              <div className="flex flex-col items-end">
+                <span className="text-pink-300 text-[9px] font-bold uppercase tracking-wider">Score</span>
+                <span className="text-white font-magic font-bold text-2xl leading-none">{frame.state.score}</span>
+              </div>
+            </div>
+
+            <ReplayBoard grid={frame.state.grid} />
+
+            {/* Tray at this point in the run */}
+            <div className="flex justify-center gap-3 h-12 items-center">
+              {frame.state.shapes.map(shape => (
+                <div key={shape.id} className="grid gap-0.5" style={{ gridTemplateColumns: `repeat(${shape.layout[0].length}, 1fr)` }}>
+                  {shape.layout.map((row, i) => row.map((val, j) => (
+                    <div key={`${i}-${j}`} className={`w-2.5 h-2.5 ${val ? 'shape-preview-block' : 'invisible'}`} style={{ backgroundColor: val ? shape.color : 'transparent' }} />
+                  )))}
+                </div>
+              ))}
+            </div>
+
+            {/* Scrubber */}
+            <input
+              type="range"
+              min={0}
+              max={frames.length - 1}
+              value={frameIdx}
+              onChange={(e) => { setIsPlaying(false); setFrameIdx(parseInt(e.target.value, 10)); }}
+              className="w-full accent-pink-500"
+            />
+
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex gap-1">
+                <button onClick={() => { setIsPlaying(false); setFrameIdx(i => Math.max(0, i - 1)); }} className="w-9 h-9 rounded-lg bg-white/5 hover:bg-white/10 text-white">⏮</button>
+                <button
+                  onClick={() => {
+                    playSoftClick();
+                    if (frameIdx >= frames.length - 1) setFrameIdx(0);
+                    setIsPlaying(p => !p);
+                  }}
+                  className="w-9 h-9 rounded-lg bg-pink-500/30 hover:bg-pink-500/50 text-white">
+                  {isPlaying ? '⏸' : '▶'}
+                </button>
+                <button onClick={() => { setIsPlaying(false); setFrameIdx(i => Math.min(frames.length - 1, i + 1)); }} className="w-9 h-9 rounded-lg bg-white/5 hover:bg-white/10 text-white">⏭</button>
+              </div>
+              <div className="flex gap-1">
+                {SPEEDS.map(s => (
+                  <button key={s} onClick={() => setSpeed(s)}
+                    className={`px-2 h-7 rounded-md text-[10px] font-bold ${speed === s ? 'bg-pink-500 text-white' : 'bg-white/5 text-white/60'}`}>
+                    {s}x
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <button onClick={handleCopy} className="w-full py-2 bg-white/10 hover:bg-white/20 rounded-lg text-white/80 font-cute text-xs font-bold uppercase tracking-widest">
+              {copied ? 'Kopiert!' : 'Kopier reprise-data'}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReplayViewer;
@@ -0,0 +1,108 @@
+import React, { useState, useEffect } from 'react';
+import { BlockGameMode, SavedGameSlot } from '../types';
+import { storageService } from '../services/storageService';
+import { SAVE_SLOT_CONFIG } from '../config/gameConfig';
+import { CLASSIC_BOARD, describeBoard } from '../utils/boards';
+import { playSoftClick, playErrorSound } from '../utils/audio';
+import MiniBoard from './MiniBoard';
+
+interface SaveSlotsProps {
+  mode: BlockGameMode;
+  canSave: boolean; // The current run has something worth keeping
+  onSave: (name: string) => void;
+  onResume: (slot: SavedGameSlot) => void;
+  onClose: () => void;
+}
+
+const formatSavedAt = (savedAt: number): string =>
+  new Date(savedAt).toLocaleString('no-NO', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+/** Parks the current run under a name, or picks a parked run to continue */
+const SaveSlots: React.FC<SaveSlotsProps> = ({ mode, canSave, onSave, onResume, onClose }) => {
+  const [slots, setSlots] = useState<SavedGameSlot[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [name, setName] = useState('');
+
+  useEffect(() => {
+    storageService.loadGameSlots(mode).then(loaded => {
+      setSlots(loaded);
+      setIsLoading(false);
+    });
+  }, [mode]);
+
+  const isFull = slots.length >= SAVE_SLOT_CONFIG.MAX_SLOTS;
+  const defaultName = `Runde ${slots.length + 1}`;
+
+  const handleSave = () => {
+    if (!canSave || isFull) {
+      playErrorSound();
+      return;
+    }
+    onSave(name.trim() || defaultName);
+  };
+
+  const handleDelete = (slot: SavedGameSlot) => {
+    if (!window.confirm(`Slette «${slot.name}»?`)) return;
+    playSoftClick();
+    storageService.deleteGameSlot(slot.id);
+    setSlots(slots.filter(s => s.id !== slot.id));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/90 backdrop-blur-xl p-4 animate-fade-in" onClick={onClose}>
+      <div className="relative w-full max-w-sm bg-slate-900/90 border border-white/10 rounded-3xl p-5 shadow-2xl flex flex-col gap-3 animate-modal-zoom max-h-full" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-magic font-bold text-pink-200">Lagrede spill</h2>
+            <p className="text-white/40 text-[10px] font-cute">{slots.length}/{SAVE_SLOT_CONFIG.MAX_SLOTS} plasser brukt</p>
+          </div>
+          <button onClick={onClose} className="w-8 h-8 rounded-full bg-white/10 flex items-center justify-center text-white hover:bg-white/20">✕</button>
+        </div>
+
+        <div className="flex gap-2">
+          <input value={name} onChange={(e) => setName(e.target.value.slice(0, SAVE_SLOT_CONFIG.MAX_NAME_LENGTH))}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); }}
+            placeholder={defaultName} disabled={!canSave || isFull}
+            className="flex-1 min-w-0 bg-black/30 border border-white/10 rounded-xl px-3 py-2 text-white text-sm font-cute focus:outline-none focus:border-pink-500/50 disabled:opacity-40" />
+          <button onClick={handleSave} disabled={!canSave || isFull}
+            className="bg-gradient-to-r from-pink-500 to-purple-600 text-white font-bold px-3 rounded-xl shadow-lg font-cute text-xs disabled:opacity-40 disabled:grayscale">
+            Lagre og start ny
+          </button>
+        </div>
+        {!canSave && <p className="text-white/40 text-[10px] font-cute -mt-1">Spill litt først, så er det noe å lagre.</p>}
+        {canSave && isFull && <p className="text-amber-300/80 text-[10px] font-cute -mt-1">Alle plassene er fulle. Slett et spill først.</p>}
+
+        <div className="flex flex-col gap-1.5 overflow-y-auto min-h-0 -mx-1 px-1">
+          {isLoading && <p className="text-white/40 text-xs font-cute text-center py-6">Laster inn...</p>}
+          {!isLoading && slots.length === 0 && (
+            <p className="text-white/40 text-xs font-cute text-center py-6">Ingen lagrede spill ennå.</p>
+          )}
+          {slots.map(slot => (
+            <div key={slot.id} className="flex items-center gap-3 p-2 rounded-xl bg-white/5 border border-white/5">
+              <MiniBoard grid={slot.session.grid} className="w-14 shrink-0" />
+              <div className="flex-1 flex flex-col min-w-0">
+                <span className="text-white font-bold font-cute text-sm truncate">{slot.name}</span>
+                <span className="text-pink-200 font-mono font-bold text-xs">{slot.session.score} poeng</span>
+                <span className="text-white/40 text-[9px] font-cute truncate">
+                  {describeBoard(slot.session.board ?? CLASSIC_BOARD)} · {formatSavedAt(slot.savedAt)}
+                </span>
+              </div>
+              <div className="flex flex-col gap-1">
+                <button onClick={() => onResume(slot)}
+                  className="px-2.5 py-1 rounded-lg bg-emerald-500/20 border border-emerald-400/40 text-emerald-100 text-[10px] font-bold font-cute hover:bg-emerald-500/30">
+                  Fortsett
+                </button>
+                <button onClick={() => handleDelete(slot)}
+                  className="px-2.5 py-1 rounded-lg bg-white/5 border border-white/10 text-white/50 text-[10px] font-bold font-cute hover:bg-red-500/20 hover:text-red-200">
+                  Slett
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SaveSlots;
@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { RunStats, ScoreMultipliers, ScoreSource } from '../types';
+import { getScoreBreakdown } from '../utils/stats';
+import { playSoftClick } from '../utils/audio';
+
+interface ScoreBreakdownProps {
+  stats: RunStats;
+}
+
+const SOURCE_LABELS: Record<ScoreSource, string> = {
+  BLOCKS: '🧱 Brikker',
+  LINES: '✨ Linjer',
+  GOLD: '🪙 Gull',
+  PRESENT: '🎁 Gaver',
+  POWER_UP: '💥 Krefter'
+};
+
+const MULTIPLIER_LABELS: [keyof ScoreMultipliers, string][] = [
+  ['multiLine', 'linjer'], ['combo', 'kombo'], ['streak', 'streak'], ['cards', 'kort']
+];
+
+/** Only the factors that changed anything, e.g. "×1.5 kombo · ×1.1 streak" */
+const describeMultipliers = (multipliers: ScoreMultipliers): string =>
+  MULTIPLIER_LABELS
+    .filter(([key]) => multipliers[key] !== 1)
+    .map(([key, label]) => `×${Number(multipliers[key].toFixed(2))} ${label}`)
+    .join(' · ');
+
+/** Where the final score came from, with the latest scoring events behind a toggle */
+const ScoreBreakdown: React.FC<ScoreBreakdownProps> = ({ stats }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const rows = getScoreBreakdown(stats);
+  const log = stats.scoreLog ?? [];
+  if (rows.length === 0) return null;
+
+  return (
+    <div className="mt-2 pt-2 border-t border-white/5 flex flex-col gap-0.5 text-left">
+      {rows.map(row => (
+        <div key={row.source} className="flex items-center justify-between text-[10px] font-cute">
+          <span className="text-white/60">{SOURCE_LABELS[row.source]} <span className="text-white/30 font-mono">×{row.count}</span></span>
+          <span className="text-white/80 font-mono font-bold">+{row.points}</span>
+        </div>
+      ))}
+      {log.length > 0 && (
+        <button onClick={() => { playSoftClick(); setIsExpanded(!isExpanded); }}
+          className="self-center mt-1 text-[9px] uppercase tracking-widest font-bold text-pink-300/70 hover:text-pink-200">
+          {isExpanded ? 'Skjul detaljer ▴' : 'Vis detaljer ▾'}
+        </button>
+      )}
+      {isExpanded && (
+        <div className="mt-1 max-h-32 overflow-y-auto flex flex-col gap-0.5 bg-black/20 rounded-lg p-1.5">
+          {[...log].reverse().map((entry, i) => (
+            <div key={i} className="flex items-start justify-between gap-2 text-[9px] font-mono">
+              <span className="text-white/30 w-6 shrink-0">#{entry.placement}</span>
+              <span className="flex-1 text-white/60">
+                {SOURCE_LABELS[entry.source]}
+                {entry.multipliers && describeMultipliers(entry.multipliers) && (
+                  <span className="block text-white/35">{entry.base} {describeMultipliers(entry.multipliers)}</span>
+                )}
+              </span>
+              <span className="text-white/80 font-bold">+{entry.points}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScoreBreakdown;
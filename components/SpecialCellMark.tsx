@@ -0,0 +1,35 @@
+import React from 'react';
+import { GridCell } from '../types';
+import { isSpecialCell } from '../utils/cells';
+
+/** Glyph drawn on top of a special cell; plain blocks get nothing */
+const SpecialCellMark: React.FC<{ cell: GridCell }> = ({ cell }) => {
+  if (!isSpecialCell(cell)) return null;
+
+  switch (cell.kind) {
+    case 'ICE':
+      return (
+        <span className={`relative z-10 text-[10px] sm:text-xs text-white drop-shadow ${cell.cracked ? 'opacity-40' : ''}`}>
+          {cell.cracked ? '✕' : '❄'}
+        </span>
+      );
+    case 'PRESENT':
+      return (
+        <span className="relative z-10 text-[10px] sm:text-xs leading-none flex flex-col items-center">
+          🎁
+          <span className="flex gap-0.5 mt-px">
+            <span className={`w-1 h-1 rounded-full ${cell.rowCleared ? 'bg-white' : 'bg-black/40'}`} />
+            <span className={`w-1 h-1 rounded-full ${cell.colCleared ? 'bg-white' : 'bg-black/40'}`} />
+          </span>
+        </span>
+      );
+    case 'GOLD':
+      return <span className="relative z-10 text-[10px] sm:text-xs text-amber-900 font-bold">✦</span>;
+    case 'COAL':
+      return <span className="relative z-10 w-1.5 h-1.5 rounded-full bg-black/50" />;
+    case 'HOLE':
+      return null;
+  }
+};
+
+export default SpecialCellMark;
@@ -0,0 +1,164 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { BlockGameMode, GameStatsRecord, PowerUpType } from '../types';
+import { storageService } from '../services/storageService';
+import { summarizeStats } from '../utils/stats';
+import { SHAPES_TEMPLATES } from '../utils/blockEngine';
+import { playSoftClick } from '../utils/audio';
+
+interface StatsScreenProps {
+  onClose: () => void;
+}
+
+type StatsFilter = 'ALL' | Exclude<BlockGameMode, 'LEVEL'>;
+
+const FILTERS: [StatsFilter, string][] = [['ALL', 'Alle'], ['FREE_PLAY', 'Fritt spill'], ['DAILY', 'Dagens'], ['BLITZ', 'Blitz']];
+
+const POWER_UP_ICONS: Record<PowerUpType, string> = {
+  BOMB: '💣', LINE: '⚡', COLOR: '🌈', SINGLE: '🔨', REFRESH: '🔄', GRAVITY: '⬇️', SWAP: '🔀', FREEZE: '🧊', TRANSMUTE: '✨'
+};
+
+const formatDuration = (ms: number): string => {
+  const totalSeconds = Math.round(ms / 1000);
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+};
+
+const StatTile: React.FC<{ label: string, value: string | number }> = ({ label, value }) => (
+  <div className="bg-white/5 rounded-xl p-2 border border-white/5 flex flex-col">
+    <span className="text-white/40 text-[9px] font-bold uppercase tracking-wider font-cute">{label}</span>
+    <span className="text-white font-mono font-bold text-base leading-tight">{value}</span>
+  </div>
+);
+
+const Section: React.FC<{ title: string, children: React.ReactNode }> = ({ title, children }) => (
+  <div className="flex flex-col gap-1.5">
+    <h3 className="text-pink-300 text-[10px] font-bold uppercase tracking-wider font-cute">{title}</h3>
+    {children}
+  </div>
+);
+
+const StatsScreen: React.FC<StatsScreenProps> = ({ onClose }) => {
+  const [records, setRecords] = useState<GameStatsRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [filter, setFilter] = useState<StatsFilter>('ALL');
+
+  useEffect(() => {
+    storageService.loadGameStats().then(loaded => {
+      setRecords(loaded);
+      setIsLoading(false);
+    });
+  }, []);
+
+  const summary = useMemo(
+    () => summarizeStats(filter === 'ALL' ? records : records.filter(r => r.mode === filter)),
+    [records, filter]
+  );
+  const trendMax = Math.max(1, ...summary.trend.map(t => t.score));
+  const bucketMax = Math.max(1, ...summary.scoreBuckets.map(b => b.count));
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/90 backdrop-blur-xl p-4 animate-fade-in" onClick={onClose}>
+      <div className="relative w-full max-w-sm bg-slate-900/90 border border-white/10 rounded-3xl p-5 shadow-2xl flex flex-col gap-4 animate-modal-zoom max-h-full overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-magic font-bold text-pink-200">Statistikk</h2>
+          <button onClick={onClose} className="w-8 h-8 rounded-full bg-white/10 flex items-center justify-center text-white hover:bg-white/20">✕</button>
+        </div>
+
+        <div className="flex gap-1 flex-wrap">
+          {FILTERS.map(([value, label]) => (
+            <button key={value}
+              onClick={() => { playSoftClick(); setFilter(value); }}
+              className={`px-2.5 py-0.5 rounded-full text-[10px] font-bold font-cute uppercase tracking-wider transition-all ${filter === value ? 'bg-pink-500/30 text-white border border-pink-500/50' : 'bg-white/5 text-white/50 border border-white/5'}`}>
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {isLoading && <p className="text-white/40 text-xs font-cute text-center py-6">Laster inn...</p>}
+        {!isLoading && summary.games === 0 && (
+          <p className="text-white/40 text-xs font-cute text-center py-6">Ingen ferdige spill ennå. Spill en runde først!</p>
+        )}
+
+        {summary.games > 0 && (
+          <>
+            <div className="grid grid-cols-3 gap-1.5">
+              <StatTile label="Spill" value={summary.games} />
+              <StatTile label="Snitt" value={summary.averageScore} />
+              <StatTile label="Rekord" value={summary.bestScore} />
+              <StatTile label="Snitt-tid" value={formatDuration(summary.averageDurationMs)} />
+              <StatTile label="Linjer/spill" value={summary.averageLines.toFixed(1)} />
+              <StatTile label="Linjer totalt" value={summary.totalLines} />
+              <StatTile label="Beste kombo" value={`x${summary.bestCombo}`} />
+              <StatTile label="Beste streak" value={summary.bestStreak} />
+              <StatTile label="Mynter" value={summary.totalCoins} />
+            </div>
+
+            <Section title={`Siste ${summary.trend.length} spill`}>
+              <div className="relative h-24 flex items-end gap-px bg-black/20 rounded-lg p-1">
+                {summary.trend.map((point, i) => (
+                  <div key={i} className="flex-1 relative h-full flex items-end" title={`${point.score} (snitt ${point.average})`}>
+                    <div className="w-full bg-pink-500/60 rounded-t-sm" style={{ height: `${(point.score / trendMax) * 100}%` }} />
+                    <div className="absolute left-0 right-0 h-0.5 bg-amber-300" style={{ bottom: `${(point.average / trendMax) * 100}%` }} />
+                  </div>
+                ))}
+              </div>
+              <div className="flex gap-3 text-[9px] font-cute text-white/40">
+                <span><span className="inline-block w-2 h-2 bg-pink-500/60 rounded-sm mr-1" />Poeng</span>
+                <span><span className="inline-block w-2 h-0.5 bg-amber-300 align-middle mr-1" />Snitt så langt</span>
+              </div>
+            </Section>
+
+            <Section title="Poengfordeling">
+              <div className="flex flex-col gap-0.5">
+                {summary.scoreBuckets.map(bucket => (
+                  <div key={bucket.from} className="flex items-center gap-2 text-[10px] font-mono">
+                    <span className="w-16 text-right text-white/40">{bucket.from}+</span>
+                    <div className="flex-1 h-2.5 bg-white/5 rounded-full overflow-hidden">
+                      <div className="h-full bg-indigo-400/70 rounded-full" style={{ width: `${(bucket.count / bucketMax) * 100}%` }} />
+                    </div>
+                    <span className="w-6 text-white/60">{bucket.count}</span>
+                  </div>
+                ))}
+              </div>
+            </Section>
+
+            {summary.powerUpsUsed.length > 0 && (
+              <Section title="Gaver brukt">
+                <div className="flex flex-wrap gap-1.5">
+                  {summary.powerUpsUsed.map(({ powerUp, count }) => (
+                    <span key={powerUp} className="bg-white/5 border border-white/5 rounded-full px-2 py-0.5 text-xs text-white/80 font-mono">
+                      {POWER_UP_ICONS[powerUp]} {count}
+                    </span>
+                  ))}
+                </div>
+              </Section>
+            )}
+
+            {summary.endingShapes.length > 0 && (
+              <Section title="Brikkene som stoppet deg">
+                <div className="flex gap-3 items-end">
+                  {summary.endingShapes.slice(0, 5).map(({ templateId, count }) => {
+                    const layout = SHAPES_TEMPLATES.find(t => t.id === templateId)?.layout;
+                    return (
+                      <div key={templateId} className="flex flex-col items-center gap-1">
+                        {layout ? (
+                          <div className="grid gap-px" style={{ gridTemplateColumns: `repeat(${layout[0].length}, 1fr)` }}>
+                            {layout.map((row, i) => row.map((val, j) => (
+                              <div key={`${i}-${j}`} className={`w-2 h-2 ${val ? 'bg-pink-300/80 rounded-[1px]' : 'invisible'}`} />
+                            )))}
+                          </div>
+                        ) : <span className="text-white/40 text-xs">?</span>}
+                        <span className="text-white/60 text-[10px] font-mono">{count}×</span>
+                      </div>
+                    );
+                  })}
+                </div>
+              </Section>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StatsScreen;
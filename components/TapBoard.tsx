@@ -0,0 +1,54 @@
+import React from 'react';
+import { GridCell, Shape } from '../types';
+import { canPlaceShape } from '../utils/blockEngine';
+import { getCellColor, isHole } from '../utils/cells';
+import SpecialCellMark from './SpecialCellMark';
+
+interface TapBoardProps {
+  grid: GridCell[][];
+  isTurn: boolean;
+  selectedShape: Shape | null;
+  hoveredCell: { r: number, c: number } | null;
+  onHover: (r: number, c: number) => void;
+  onClick: (r: number, c: number) => void;
+}
+
+/** Board that places the selected shape where it is tapped, with a ghost preview under the pointer */
+const TapBoard: React.FC<TapBoardProps> = ({ grid, isTurn, selectedShape, hoveredCell, onHover, onClick }) => {
+  const ghostAt = (r: number, c: number): 'valid' | 'invalid' | null => {
+    if (!isTurn || !selectedShape || !hoveredCell) return null;
+    const i = r - hoveredCell.r;
+    const j = c - hoveredCell.c;
+    if (selectedShape.layout[i]?.[j] !== 1) return null;
+    return canPlaceShape(grid, selectedShape, hoveredCell.r, hoveredCell.c) ? 'valid' : 'invalid';
+  };
+
+  return (
+    <div className="grid gap-0.5 w-full aspect-square"
+      style={{ gridTemplateColumns: `repeat(${grid[0].length}, minmax(0, 1fr))`, gridTemplateRows: `repeat(${grid.length}, minmax(0, 1fr))` }}>
+      {grid.map((row, r) => row.map((cell, c) => {
+        const ghost = ghostAt(r, c);
+        const style: React.CSSProperties = ghost === 'valid'
+          ? { backgroundColor: selectedShape!.color }
+          : ghost === 'invalid' ? { backgroundColor: 'rgba(239, 68, 68, 0.4)' } : cell ? { backgroundColor: getCellColor(cell)! } : {};
+        return (
+          <div
+            key={`${r}-${c}`}
+            onMouseEnter={() => onHover(r, c)}
+            onClick={() => onClick(r, c)}
+            className={`w-full h-full rounded-[3px] flex items-center justify-center
+              ${isHole(cell) ? 'opacity-0' : ''}
+              ${ghost === 'valid' ? 'gem-block-3d gem-ghost' : ''}
+              ${!ghost && cell ? 'gem-block-3d' : ''}
+              ${!ghost && !cell ? 'cyber-cell-empty' : ''}`}
+            style={style}
+          >
+            {!ghost && cell && <SpecialCellMark cell={cell} />}
+          </div>
+        );
+      }))}
+    </div>
+  );
+};
+
+export default TapBoard;
@@ -0,0 +1,213 @@
+import React, { useState, useCallback } from 'react';
+import { GameEvent } from '../types';
+import { VERSUS_CONFIG } from '../config/gameConfig';
+import { applyAction } from '../utils/blockEngine';
+import { randomSeed } from '../utils/random';
+import {
+  VersusPlayer, VersusSide, VersusResult, PLAYER_NAMES,
+  createVersusSide, getGarbageRows, getVersusResult, otherPlayer
+} from '../utils/versus';
+import { playPopSound, playSoftClick, playSuccessSound, playErrorSound, playMagicalSparkle } from '../utils/audio';
+import TapBoard from './TapBoard';
+
+interface VersusGameProps {
+  isActive: boolean;
+}
+
+interface VersusMatch {
+  seed: number;
+  sides: [VersusSide, VersusSide];
+  toMove: VersusPlayer;
+  result: VersusResult | null;
+  lastGarbage: number; // Rows the player to move just received, for the banner
+}
+
+const createMatch = (): VersusMatch => {
+  const seed = randomSeed();
+  return { seed, sides: [createVersusSide(seed), createVersusSide(seed)], toMove: 0, result: null, lastGarbage: 0 };
+};
+
+/** Hands the turn over: pending garbage lands first, then the match is checked for a result */
+const startTurn = (match: VersusMatch, player: VersusPlayer): VersusMatch => {
+  const sides: [VersusSide, VersusSide] = [...match.sides];
+  const side = sides[player];
+  let received = 0;
+  if (side.pendingGarbage > 0) {
+    received = side.pendingGarbage;
+    sides[player] = { ...side, game: applyAction(side.game, { type: 'ADD_GARBAGE', rows: received }).state, pendingGarbage: 0 };
+  }
+  return { ...match, sides, toMove: player, lastGarbage: received, result: getVersusResult(sides, player) };
+};
+
+const RESULT_REASONS: Record<VersusResult['reason'], string> = {
+  TOPPED_OUT: 'Søppelet nådde toppen',
+  NO_MOVES: 'Ingen brikker fikk plass',
+  TURN_LIMIT: `Etter ${VERSUS_CONFIG.TURN_LIMIT} trekk hver`
+};
+
+/**
+ * Local two-player duel: players alternate placements on their own boards,
+ * and clearing two or more lines at once buries the opponent in garbage.
+ */
+const VersusGame: React.FC<VersusGameProps> = ({ isActive }) => {
+  const [match, setMatch] = useState<VersusMatch>(createMatch);
+  const [selectedIdx, setSelectedIdx] = useState<number | null>(null);
+  const [hoveredCell, setHoveredCell] = useState<{ r: number, c: number } | null>(null);
+
+  const { sides, toMove, result } = match;
+  const current = sides[toMove].game;
+  const selectedShape = selectedIdx !== null ? current.shapes[selectedIdx] ?? null : null;
+
+  const handlePlace = useCallback((r: number, c: number) => {
+    if (!isActive || result || selectedIdx === null) return;
+    const outcome = applyAction(current, { type: 'PLACE', shapeIndex: selectedIdx, r, c });
+    if (outcome.events.some(e => e.type === 'INVALID_ACTION')) {
+      playErrorSound();
+      return;
+    }
+
+    const cleared = outcome.events.find((e): e is Extract<GameEvent, { type: 'LINES_CLEARED' }> => e.type === 'LINES_CLEARED');
+    const garbage = cleared ? getGarbageRows(cleared.lines) : 0;
+    if (garbage > 0) playMagicalSparkle();
+    else if (cleared) playSuccessSound();
+    else playPopSound();
+
+    const opponent = otherPlayer(toMove);
+    const sidesAfter: [VersusSide, VersusSide] = [...sides];
+    sidesAfter[toMove] = { ...sides[toMove], game: outcome.state, turns: sides[toMove].turns + 1 };
+    sidesAfter[opponent] = { ...sides[opponent], pendingGarbage: sides[opponent].pendingGarbage + garbage };
+
+    const next = startTurn({ ...match, sides: sidesAfter }, opponent);
+    if (next.result) playSuccessSound();
+    setMatch(next);
+    setSelectedIdx(null);
+    setHoveredCell(null);
+  }, [isActive, result, selectedIdx, current, toMove, sides, match]);
+
+  const handleRotate = () => {
+    if (selectedIdx === null || result) return;
+    playSoftClick();
+    const sidesAfter: [VersusSide, VersusSide] = [...sides];
+    sidesAfter[toMove] = { ...sides[toMove], game: applyAction(current, { type: 'ROTATE', shapeIndex: selectedIdx }).state };
+    setMatch({ ...match, sides: sidesAfter });
+  };
+
+  const handleHold = () => {
+    if (selectedIdx === null || result) return;
+    playSoftClick();
+    const sidesAfter: [VersusSide, VersusSide] = [...sides];
+    sidesAfter[toMove] = { ...sides[toMove], game: applyAction(current, { type: 'HOLD', shapeIndex: selectedIdx }).state };
+    setMatch({ ...match, sides: sidesAfter });
+    setSelectedIdx(null);
+  };
+
+  const handleRematch = () => {
+    playPopSound();
+    setMatch(createMatch());
+    setSelectedIdx(null);
+    setHoveredCell(null);
+  };
+
+  return (
+    <div className="w-full h-full flex flex-col items-center px-2 gap-2 relative">
+      <div className="w-full max-w-[400px] flex items-end justify-between">
+        <div>
+          <h2 className="text-2xl font-magic font-bold text-pink-200">Duell</h2>
+          <p className="text-white/40 text-[10px] font-cute">Samme brikker, hver sin brett. Flere linjer sender søppel!</p>
+        </div>
+        <span className="text-white/50 text-[10px] font-bold font-mono">
+          Trekk {Math.min(sides[toMove].turns + 1, VERSUS_CONFIG.TURN_LIMIT)}/{VERSUS_CONFIG.TURN_LIMIT}
+        </span>
+      </div>
+
+      <div className="w-full max-w-[400px] grid grid-cols-2 gap-2">
+        {([0, 1] as const).map(player => {
+          const side = sides[player];
+          const isTurn = player === toMove && !result;
+          return (
+            <div key={player}
+              onMouseLeave={() => isTurn && setHoveredCell(null)}
+              className={`flex flex-col gap-1 p-1.5 rounded-xl border transition-all ${isTurn ? 'border-pink-500/60 bg-pink-500/10' : 'border-white/10 bg-black/20 opacity-60'}`}>
+              <div className="flex justify-between items-baseline px-0.5">
+                <span className={`text-[10px] font-bold font-cute uppercase tracking-wider ${isTurn ? 'text-white' : 'text-white/50'}`}>{PLAYER_NAMES[player]}</span>
+                <span className="text-white font-magic font-bold text-lg leading-none">{side.game.score}</span>
+              </div>
+              <TapBoard
+                grid={side.game.grid}
+                isTurn={isTurn}
+                selectedShape={isTurn ? selectedShape : null}
+                hoveredCell={isTurn ? hoveredCell : null}
+                onHover={(r, c) => isTurn && setHoveredCell({ r, c })}
+                onClick={(r, c) => isTurn && handlePlace(r, c)}
+              />
+              <div className="h-3 text-center text-[9px] font-bold font-cute text-slate-300">
+                {side.pendingGarbage > 0 && `⚠ ${side.pendingGarbage} søppelrader på vei`}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {!result && (
+        <>
+          <div className="text-white/70 text-xs font-cute h-4">
+            {match.lastGarbage > 0
+              ? <span className="text-slate-300 font-bold">{PLAYER_NAMES[toMove]} fikk {match.lastGarbage} søppelrader!</span>
+              : <>{PLAYER_NAMES[toMove]} sin tur</>}
+          </div>
+
+          <div className="flex items-center gap-2 h-16 w-full max-w-[400px]">
+            <button onClick={handleHold}
+              className={`w-14 h-14 rounded-xl border-2 border-dashed border-white/20 bg-black/20 flex items-center justify-center shrink-0 ${selectedIdx !== null ? 'border-pink-500/50 bg-pink-500/10' : ''}`}>
+              {current.holdShape ? (
+                <div className="grid gap-0.5" style={{ gridTemplateColumns: `repeat(${current.holdShape.layout[0].length}, 1fr)` }}>
+                  {current.holdShape.layout.map((row, i) => row.map((val, j) => (<div key={`${i}-${j}`} className={`w-2 h-2 ${val ? '' : 'invisible'}`} style={{ backgroundColor: val ? current.holdShape!.color : 'transparent' }} />)))}
+                </div>
+              ) : (<span className="text-lg opacity-30">📥</span>)}
+            </button>
+            <button onClick={handleRotate}
+              className="w-8 h-8 rounded-full bg-white/5 hover:bg-white/10 flex items-center justify-center border border-white/10 active:scale-90 transition-all shrink-0">
+              <span className="text-white/70 text-xs">↻</span>
+            </button>
+            <div className="flex-1 flex justify-center gap-2 items-center">
+              {current.shapes.map((shape, idx) => (
+                <button key={shape.id}
+                  onClick={() => { playSoftClick(); setSelectedIdx(selectedIdx === idx ? null : idx); }}
+                  className={`dock-shape-wrapper p-1.5 rounded-xl flex items-center justify-center min-w-[50px] min-h-[50px] ${selectedIdx === idx ? 'selected' : ''}`}>
+                  <div className="grid gap-0.5 pointer-events-none" style={{ gridTemplateColumns: `repeat(${shape.layout[0].length}, 1fr)` }}>
+                    {shape.layout.map((row, i) => row.map((val, j) => (<div key={`${i}-${j}`} className={`w-3 h-3 ${val ? 'shape-preview-block' : 'invisible'}`} style={{ backgroundColor: val ? shape.color : 'transparent' }} />)))}
+                  </div>
+                </button>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+
+      {result && (
+        <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-modal-zoom">
+          <div className="bg-slate-900/90 border border-white/20 p-6 rounded-3xl shadow-2xl w-full max-w-xs text-center flex flex-col gap-4">
+            <h3 className="text-3xl font-bold font-magic text-transparent bg-clip-text bg-gradient-to-br from-amber-300 to-yellow-100">
+              {result.winner === null ? 'Uavgjort!' : `${PLAYER_NAMES[result.winner]} vant!`}
+            </h3>
+            <p className="text-white/60 text-xs font-cute">{RESULT_REASONS[result.reason]}</p>
+            <div className="flex justify-center gap-6">
+              {([0, 1] as const).map(player => (
+                <div key={player} className="flex flex-col items-center">
+                  <span className="text-white/40 text-[9px] font-bold uppercase tracking-wider">{PLAYER_NAMES[player]}</span>
+                  <span className={`font-magic font-bold text-2xl ${result.winner === player ? 'text-amber-300' : 'text-white'}`}>{sides[player].game.score}</span>
+                </div>
+              ))}
+            </div>
+            <button onClick={handleRematch}
+              className="w-full bg-gradient-to-r from-pink-500 to-purple-600 text-white font-bold py-3 rounded-xl shadow-lg transform transition hover:scale-105 active:scale-95 font-cute tracking-wide">
+              Ny duell
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VersusGame;
@@ -0,0 +1,167 @@
+import React, { useState, useMemo } from 'react';
+import { MonsterCard } from '../types';
+import { ELEMENT_ICONS, RARITY_COLORS, RARITY_TRANSLATIONS } from '../constants';
+import { ENCOUNTER_CONFIG } from '../config/gameConfig';
+import { applyAction } from '../utils/blockEngine';
+import { CatchResult, CatchRound, createCatchRound, getCatchResult, getCatchTarget, getPlacementsLeft } from '../utils/encounters';
+import { storageService } from '../services/storageService';
+import { playPopSound, playSoftClick, playSuccessSound, playErrorSound, playMagicalSparkle } from '../utils/audio';
+import TapBoard from './TapBoard';
+
+interface WildEncounterProps {
+  card: MonsterCard;
+  onCaught: (card: MonsterCard) => void;
+  onEscaped: (score: number, target: number) => void;
+  onClose: () => void;
+}
+
+/** A wild monster shows up; the player can try to catch it with a short puzzle round or let it go */
+const WildEncounter: React.FC<WildEncounterProps> = ({ card, onCaught, onEscaped, onClose }) => {
+  const [round, setRound] = useState<CatchRound | null>(null);
+  const [result, setResult] = useState<CatchResult | null>(null);
+  const [selectedIdx, setSelectedIdx] = useState<number | null>(null);
+  const [hoveredCell, setHoveredCell] = useState<{ r: number, c: number } | null>(null);
+
+  const target = getCatchTarget(card.rarity);
+  const escapedCount = useMemo(() => storageService.loadEscapedMonsters().length, []);
+  const selectedShape = round && selectedIdx !== null ? round.game.shapes[selectedIdx] ?? null : null;
+
+  const finish = (outcome: CatchResult, score: number) => {
+    setResult(outcome);
+    if (outcome === 'CAUGHT') {
+      playMagicalSparkle();
+      onCaught(card);
+    } else {
+      playErrorSound();
+      onEscaped(score, target);
+    }
+  };
+
+  const handleStart = () => {
+    playPopSound();
+    setRound(createCatchRound(card));
+  };
+
+  const handleLetGo = () => {
+    playSoftClick();
+    finish('ESCAPED', 0);
+  };
+
+  const handlePlace = (r: number, c: number) => {
+    if (!round || result || selectedIdx === null) return;
+    const outcome = applyAction(round.game, { type: 'PLACE', shapeIndex: selectedIdx, r, c });
+    if (outcome.events.some(e => e.type === 'INVALID_ACTION')) {
+      playErrorSound();
+      return;
+    }
+    if (outcome.events.some(e => e.type === 'LINES_CLEARED')) playSuccessSound();
+    else playPopSound();
+
+    const next = { ...round, game: outcome.state, placements: round.placements + 1 };
+    setRound(next);
+    setSelectedIdx(null);
+    setHoveredCell(null);
+    const catchResult = getCatchResult(next);
+    if (catchResult) finish(catchResult, next.game.score);
+  };
+
+  const handleRotate = () => {
+    if (!round || selectedIdx === null || result) return;
+    playSoftClick();
+    setRound({ ...round, game: applyAction(round.game, { type: 'ROTATE', shapeIndex: selectedIdx }).state });
+  };
+
+  const progress = round ? Math.min(1, round.game.score / target) : 0;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/90 backdrop-blur-xl p-4 animate-fade-in">
+      <div className="relative w-full max-w-xs bg-slate-900/90 border border-white/10 rounded-3xl p-5 shadow-2xl flex flex-col gap-3 animate-modal-zoom">
+        <div className="flex items-center gap-3">
+          <span className={`text-5xl ${round || result ? '' : 'animate-bounce-subtle'}`}>{ELEMENT_ICONS[card.type]}</span>
+          <div className="flex-1 min-w-0">
+            <span className="text-white/40 text-[9px] font-bold uppercase tracking-wider font-cute">Et vilt monster!</span>
+            <p className="text-white font-bold font-cute text-lg truncate leading-tight">{card.name}{card.isShiny ? ' ✦' : ''}</p>
+            <span className={`text-[9px] uppercase tracking-widest font-bold ${RARITY_COLORS[card.rarity]}`}>{RARITY_TRANSLATIONS[card.rarity]} · {card.hp} HP</span>
+          </div>
+        </div>
+
+        {!round && !result && (
+          <>
+            <p className="text-white/60 text-xs font-cute italic">"{card.flavorText}"</p>
+            <p className="text-white/80 text-xs font-cute">
+              Få <span className="text-amber-300 font-bold">{target} poeng</span> på {ENCOUNTER_CONFIG.PLACEMENTS} brikker for å fange den!
+            </p>
+            <button onClick={handleStart}
+              className="w-full bg-gradient-to-r from-pink-500 to-purple-600 text-white font-bold py-3 rounded-xl shadow-lg font-cute active:scale-95 transition-transform">
+              Prøv å fange
+            </button>
+            <button onClick={handleLetGo}
+              className="w-full bg-white/10 text-white/70 font-bold py-2 rounded-xl font-cute text-sm">
+              La den gå
+            </button>
+            {escapedCount > 0 && (
+              <p className="text-white/30 text-[10px] font-cute text-center">{escapedCount} monstre har rømt så langt</p>
+            )}
+          </>
+        )}
+
+        {round && !result && (
+          <>
+            <div className="flex items-center gap-2">
+              <div className="flex-1 h-2.5 bg-black/40 rounded-full overflow-hidden">
+                <div className="h-full bg-gradient-to-r from-pink-400 to-amber-300 transition-all duration-300" style={{ width: `${progress * 100}%` }} />
+              </div>
+              <span className="text-white/80 font-mono text-[10px] font-bold">{round.game.score}/{target}</span>
+            </div>
+            <span className="text-white/50 text-[10px] font-bold font-cute text-center">{getPlacementsLeft(round)} brikker igjen</span>
+            <div onMouseLeave={() => setHoveredCell(null)}>
+              <TapBoard
+                grid={round.game.grid}
+                isTurn
+                selectedShape={selectedShape}
+                hoveredCell={hoveredCell}
+                onHover={(r, c) => setHoveredCell({ r, c })}
+                onClick={handlePlace}
+              />
+            </div>
+            <div className="flex items-center gap-2 h-14">
+              <button onClick={handleRotate}
+                className="w-8 h-8 rounded-full bg-white/5 hover:bg-white/10 flex items-center justify-center border border-white/10 active:scale-90 transition-all shrink-0">
+                <span className="text-white/70 text-xs">↻</span>
+              </button>
+              <div className="flex-1 flex justify-center gap-2 items-center">
+                {round.game.shapes.map((shape, idx) => (
+                  <button key={shape.id}
+                    onClick={() => { playSoftClick(); setSelectedIdx(selectedIdx === idx ? null : idx); }}
+                    className={`dock-shape-wrapper p-1.5 rounded-xl flex items-center justify-center min-w-[44px] min-h-[44px] ${selectedIdx === idx ? 'selected' : ''}`}>
+                    <div className="grid gap-0.5 pointer-events-none" style={{ gridTemplateColumns: `repeat(${shape.layout[0].length}, 1fr)` }}>
+                      {shape.layout.map((row, i) => row.map((val, j) => (<div key={`${i}-${j}`} className={`w-2.5 h-2.5 ${val ? 'shape-preview-block' : 'invisible'}`} style={{ backgroundColor: val ? shape.color : 'transparent' }} />)))}
+                    </div>
+                  </button>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+
+        {result && (
+          <>
+            <div className="text-center">
+              <div className="text-5xl mb-1">{result === 'CAUGHT' ? '🎉' : '💨'}</div>
+              <h3 className="text-2xl font-bold font-magic text-pink-200">{result === 'CAUGHT' ? 'Fanget!' : 'Den slapp unna...'}</h3>
+              <p className="text-white/60 text-xs font-cute">
+                {result === 'CAUGHT' ? `${card.name} er lagt til i samlingen din.` : round ? `${round.game.score} av ${target} poeng.` : `${card.name} forsvant inn i snøen.`}
+              </p>
+            </div>
+            <button onClick={() => { playSoftClick(); onClose(); }}
+              className="w-full bg-gradient-to-r from-pink-500 to-purple-600 text-white font-bold py-3 rounded-xl shadow-lg font-cute">
+              Fortsett
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default WildEncounter;
@@ -4,6 +4,8 @@
  * Modify these values to tweak game behavior without diving into component code.
  */
 
+import type { BlockGameMode } from '../types';
+
 // =============================================================================
 // XP & Leveling System
 // =============================================================================
@@ -49,7 +51,7 @@ export const DAILY_REWARDS = [50, 100, 150, 200, 250, 300, 500] as const;
 // =============================================================================
 
 export const BLOCK_GAME_CONFIG = {
-  /** Grid dimensions (NxN) */
+  /** Classic board dimensions (NxN); other board shapes live in utils/boards.ts */
   GRID_SIZE: 8,
   /** Points per block placed */
   POINTS_PER_BLOCK: 1,
@@ -63,6 +65,36 @@ export const BLOCK_GAME_CONFIG = {
   AUTO_SAVE_INTERVAL: 30000,
   /** Shape generation delay after clearing all (ms) */
   SHAPE_GENERATION_DELAY: 300,
+  /** Tray generation weights and the adaptive controller (see utils/difficulty.ts) */
+  DIFFICULTY: {
+    /** Adjust weights to the board and the player; off always uses the base weights */
+    ADAPTIVE: true,
+    /** Chance the challenge slot is a hard shape rather than a medium one */
+    BASE_HARD_CHANCE: 0.35,
+    /** Chance the connector slot is a medium shape rather than a small one */
+    BASE_MEDIUM_CHANCE: 0.5,
+    /** Chance the safety slot is a single block, after a hard or a medium challenge shape */
+    BASE_SINGLE_AFTER_HARD: 0.7,
+    BASE_SINGLE_AFTER_MEDIUM: 0.4,
+    /** Board fill ratio that counts as neutral; fuller boards ease off */
+    TARGET_FILL: 0.35,
+    /** Pressure per unit of fill ratio away from TARGET_FILL */
+    FILL_WEIGHT: 1,
+    /** Placements remembered for the recent clears signal */
+    RECENT_WINDOW: 6,
+    /** Pressure per line cleared within the window */
+    CLEAR_WEIGHT: 0.08,
+    /** Pressure per player level, counted up to LEVEL_CAP */
+    LEVEL_WEIGHT: 0.02,
+    LEVEL_CAP: 20,
+    /** How far full pressure (-1 to 1) moves each chance */
+    HARD_SWING: 0.25,
+    MEDIUM_SWING: 0.25,
+    SINGLE_SWING: 0.3,
+    /** Re-deal when no tray shape fits, falling back to a single block */
+    GUARANTEE_PLAYABLE: true,
+    GUARANTEE_ATTEMPTS: 5,
+  },
 } as const;
 
 export const POWER_UP_COSTS = {
@@ -71,6 +103,217 @@ export const POWER_UP_COSTS = {
   COLOR: 120,
   SINGLE: 50,
   REFRESH: 25,
+  GRAVITY: 90,
+  SWAP: 40,
+  FREEZE: 60,
+  TRANSMUTE: 70,
+  /** Not a power-up: shows the solver's recommended move */
+  HINT: 40,
+} as const;
+
+export const SPECIAL_CELL_CONFIG = {
+  /** Placements between special cell spawns in free play, Blitz and the daily challenge (0 = never) */
+  SPAWN_INTERVAL: 8,
+  /** Relative odds of each spawned cell type */
+  SPAWN_WEIGHTS: { COAL: 6, ICE: 2, GOLD: 2, PRESENT: 1 },
+  /** Bonus points per gold cell cleared */
+  GOLD_POINTS: 50,
+  /** Bonus coins per gold cell cleared, paid with the game's rewards */
+  GOLD_COINS: 5,
+  /** Bonus points per present opened (it also holds a power-up) */
+  PRESENT_POINTS: 100,
+} as const;
+
+export const UNDO_CONFIG = {
+  /** How many placements or power-ups can be taken back in a row */
+  MAX_DEPTH: 3,
+  /** Coins per undo */
+  COST: 30,
+} as const;
+
+export const CONTROLS_CONFIG = {
+  /** Pointer travel before a press on a tray shape becomes a drag (px) */
+  DRAG_THRESHOLD_PX: 8,
+  /** How far above a finger the dragged shape sits, so the finger doesn't hide it (px) */
+  TOUCH_LIFT_PX: 64,
+  /** Stick deflection that counts as a direction (0-1) */
+  GAMEPAD_STICK_THRESHOLD: 0.5,
+  /** A held direction starts repeating after this long, then repeats at the interval (ms) */
+  GAMEPAD_REPEAT_DELAY: 300,
+  GAMEPAD_REPEAT_INTERVAL: 110,
+} as const;
+
+// =============================================================================
+// Blitz Mode
+// =============================================================================
+
+export const BLITZ_CONFIG = {
+  /** Clock at the start of a run (seconds) */
+  START_SECONDS: 90,
+  /** Hard cap so long chains can't stall the run forever (seconds) */
+  MAX_SECONDS: 180,
+  /** Seconds added per cleared line */
+  SECONDS_PER_LINE: 3,
+  /** Extra seconds per combo step above the first */
+  SECONDS_PER_COMBO: 1,
+  /** Clock update interval (ms) */
+  TICK_INTERVAL: 100,
+  /** Remaining time that turns the clock red (seconds) */
+  WARNING_SECONDS: 10,
+} as const;
+
+/**
+ * Calculate time bonus for a line clear in Blitz mode
+ */
+export const getBlitzTimeBonus = (lines: number, combo: number): number => {
+  return lines * BLITZ_CONFIG.SECONDS_PER_LINE + Math.max(0, combo - 1) * BLITZ_CONFIG.SECONDS_PER_COMBO;
+};
+
+/**
+ * Coin and XP conversion per block game mode.
+ * Blitz runs are short, so each point is worth more.
+ */
+export const BLOCK_GAME_REWARDS = {
+  FREE_PLAY: { SCORE_TO_COINS_DIVISOR: ECONOMY_CONFIG.SCORE_TO_COINS_DIVISOR, XP_PER_POINT: 1 },
+  DAILY: { SCORE_TO_COINS_DIVISOR: ECONOMY_CONFIG.SCORE_TO_COINS_DIVISOR, XP_PER_POINT: 1 },
+  BLITZ: { SCORE_TO_COINS_DIVISOR: 6, XP_PER_POINT: 1.5 },
+  /** Only paid out the first time a level is completed */
+  LEVEL: { SCORE_TO_COINS_DIVISOR: ECONOMY_CONFIG.SCORE_TO_COINS_DIVISOR, XP_PER_POINT: 1 },
+} as const;
+
+/**
+ * Calculate coins and XP earned for a finished block game
+ */
+export const getBlockGameRewards = (score: number, mode: BlockGameMode, goldCollected: number = 0): { coins: number, xp: number } => {
+  const rates = BLOCK_GAME_REWARDS[mode];
+  return {
+    coins: Math.floor(score / rates.SCORE_TO_COINS_DIVISOR) + goldCollected * SPECIAL_CELL_CONFIG.GOLD_COINS,
+    xp: Math.floor(score * rates.XP_PER_POINT)
+  };
+};
+
+// =============================================================================
+// Game Stats
+// =============================================================================
+
+export const STATS_CONFIG = {
+  /** Longest gap between two actions that still counts as play time (ms) */
+  IDLE_CAP_MS: 30000,
+  /** Finished games kept; the oldest are dropped first */
+  MAX_RECORDS: 500,
+  /** Games shown in the score trend */
+  TREND_LENGTH: 30,
+  /** Most bars in the score distribution; bar width is rounded up to whole hundreds */
+  SCORE_BUCKETS: 8,
+  /** Scoring events kept for the game-over breakdown; earlier ones only count in the totals */
+  SCORE_LOG_LENGTH: 60,
+} as const;
+
+// =============================================================================
+// Monster Battles
+// =============================================================================
+
+export const BATTLE_CONFIG = {
+  /** Energy each fighter starts with */
+  START_ENERGY: 0,
+  /** Energy gained at the start of every own turn */
+  ENERGY_PER_TURN: 1,
+  /** Extra energy for resting instead of attacking */
+  REST_ENERGY: 1,
+  /** Most energy a fighter can hold; moves cost 1-4 */
+  MAX_ENERGY: 6,
+  /** Turns (both sides counted) before the fight is decided on remaining health */
+  MAX_TURNS: 40,
+  /** Pause before the opponent moves (ms) */
+  OPPONENT_DELAY: 900,
+  /** Rewards for winning a battle */
+  WIN_COINS: 15,
+  WIN_XP: 10,
+} as const;
+
+// =============================================================================
+// Move Effects
+// =============================================================================
+
+export const MOVE_EFFECT_CONFIG = {
+  /** Bonus of a "20+" move as a share of its base damage */
+  PLUS_BONUS_SHARE: 0.5,
+  /** Factor of an open "30x" move, which names no factor of its own */
+  OPEN_TIMES_FACTOR: 2,
+  /** Base damage per energy for printed damage without a number, such as "x2" */
+  DAMAGE_PER_COST: 10,
+  /** Effects read from old free-text descriptions */
+  INFERRED_HEAL: 20,
+  INFERRED_SHIELD: 20,
+  INFERRED_BURN_DAMAGE: 10,
+  INFERRED_BURN_TURNS: 2,
+  INFERRED_STUN_TURNS: 1,
+  /** Caps, so no card can lock an opponent down or hit endlessly */
+  MAX_STUN_TURNS: 2,
+  MAX_HITS: 4,
+  MAX_BURN_TURNS: 3,
+} as const;
+
+// =============================================================================
+// Card Power
+// =============================================================================
+
+export const POWER_CONFIG = {
+  /** Points per HP */
+  HP_WEIGHT: 0.5,
+  /** Points per damage per energy, averaged over the card's moves */
+  DAMAGE_PER_ENERGY_WEIGHT: 1.5,
+  /** Points per move */
+  MOVE_POINTS: 10,
+  /** Flat bonus for shiny cards */
+  SHINY_BONUS: 15,
+  /** Step of the power range filter in the collection */
+  RANGE_STEP: 10,
+} as const;
+
+// =============================================================================
+// Save Slots
+// =============================================================================
+
+export const SAVE_SLOT_CONFIG = {
+  /** Suspended runs kept per mode */
+  MAX_SLOTS: 6,
+  /** Longest slot name */
+  MAX_NAME_LENGTH: 24,
+} as const;
+
+// =============================================================================
+// Versus Mode
+// =============================================================================
+
+export const VERSUS_CONFIG = {
+  /** Placements each player gets before the higher score wins */
+  TURN_LIMIT: 30,
+  /** Garbage rows sent to the opponent, indexed by lines cleared in one placement (last entry covers more) */
+  GARBAGE_ROWS: [0, 0, 1, 2, 3],
+} as const;
+
+// =============================================================================
+// Wild Encounters
+// =============================================================================
+
+export const ENCOUNTER_CONFIG = {
+  /** Chance of a wild monster when the app opens */
+  APP_OPEN_CHANCE: 0.25,
+  /** Chance of a wild monster after a finished block game */
+  AFTER_GAME_CHANCE: 0.15,
+  /** Least time between two encounters (ms) */
+  COOLDOWN_MS: 20 * 60 * 1000,
+  /** Pause after a block game so its result can be seen first (ms) */
+  AFTER_GAME_DELAY: 2500,
+  /** Placements in a catch round */
+  PLACEMENTS: 10,
+  /** Board the catch round is played on */
+  BOARD_ID: 'SMALL',
+  /** Chance the monster is generated by Gemini rather than taken from the standard monsters */
+  GENERATED_CHANCE: 0.5,
+  /** Escaped monsters kept in the log */
+  ESCAPE_LOG_LENGTH: 20,
 } as const;
 
 // =============================================================================
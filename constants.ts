@@ -41,6 +41,30 @@ export const ELEMENT_ICONS: Record<ElementType, string> = {
   [ElementType.Fairy]: '✨',
 };
 
+// Damage multiplier for a move of the row's element hitting a monster of the column's element.
+// 2 is super effective, 0.5 is resisted. Columns follow the row order.
+const { Fire, Water, Grass, Electric, Psychic, Dark, Dragon, Steel, Fairy } = ElementType;
+const EFFECTIVENESS_ORDER = [Fire, Water, Grass, Electric, Psychic, Dark, Dragon, Steel, Fairy];
+const EFFECTIVENESS_ROWS: Record<ElementType, number[]> = {
+  //           Fire Water Grass Elec Psy  Dark Drag Steel Fairy
+  [Fire]:     [0.5, 0.5,  2,    1,   1,   1,   0.5, 2,    1],
+  [Water]:    [2,   0.5,  0.5,  1,   1,   1,   0.5, 1,    1],
+  [Grass]:    [0.5, 2,    0.5,  1,   1,   1,   0.5, 0.5,  1],
+  [Electric]: [1,   2,    0.5,  0.5, 1,   1,   0.5, 2,    1],
+  [Psychic]:  [1,   1,    1,    2,   0.5, 0.5, 1,   0.5,  1],
+  [Dark]:     [1,   1,    1,    1,   2,   0.5, 1,   1,    0.5],
+  [Dragon]:   [1,   1,    1,    1,   1,   1,   2,   0.5,  0.5],
+  [Steel]:    [0.5, 0.5,  1,    0.5, 1,   1,   1,   0.5,  2],
+  [Fairy]:    [0.5, 1,    1,    1,   1,   2,   2,   0.5,  1],
+};
+
+export const ELEMENT_EFFECTIVENESS = Object.fromEntries(
+  EFFECTIVENESS_ORDER.map(attacker => [
+    attacker,
+    Object.fromEntries(EFFECTIVENESS_ORDER.map((defender, i) => [defender, EFFECTIVENESS_ROWS[attacker][i]]))
+  ])
+) as Record<ElementType, Record<ElementType, number>>;
+
 export const MELD_REWARDS: Record<Rarity, { coins: number; xp: number }> = {
   [Rarity.Common]: { coins: 15, xp: 25 },
   [Rarity.Uncommon]: { coins: 30, xp: 60 },
@@ -48,3 +72,44 @@ export const MELD_REWARDS: Record<Rarity, { coins: number; xp: number }> = {
   [Rarity.Legendary]: { coins: 500, xp: 1000 },
   [Rarity.Mythical]: { coins: 1500, xp: 2500 },
 };
+
+// Power rating points for rarity (see utils/power.ts)
+export const RARITY_POWER: Record<Rarity, number> = {
+  [Rarity.Common]: 0,
+  [Rarity.Uncommon]: 10,
+  [Rarity.Rare]: 25,
+  [Rarity.Legendary]: 45,
+  [Rarity.Mythical]: 70,
+};
+
+// Score a wild monster's catch round must reach; rarer monsters are harder to catch
+export const CATCH_SCORES: Record<Rarity, number> = {
+  [Rarity.Common]: 100,
+  [Rarity.Uncommon]: 200,
+  [Rarity.Rare]: 300,
+  [Rarity.Legendary]: 450,
+  [Rarity.Mythical]: 600,
+};
+
+// Chance weights for the rarity of a generated wild monster
+export const WILD_RARITY_WEIGHTS: Record<Rarity, number> = {
+  [Rarity.Common]: 45,
+  [Rarity.Uncommon]: 30,
+  [Rarity.Rare]: 17,
+  [Rarity.Legendary]: 6,
+  [Rarity.Mythical]: 2,
+};
+
+// Block game passives from equipped cards. Rarity sets the tier the element's bonus is scaled by.
+export const MAX_EQUIPPED_CARDS = 3;
+
+export const CARD_PASSIVE_TIERS: Record<Rarity, number> = {
+  [Rarity.Common]: 1,
+  [Rarity.Uncommon]: 2,
+  [Rarity.Rare]: 3,
+  [Rarity.Legendary]: 4,
+  [Rarity.Mythical]: 5,
+};
+
+/** Tier from which Fire and Water cards give their bigger bonus */
+export const CARD_PASSIVE_STRONG_TIER = 4;
@@ -0,0 +1,118 @@
+/**
+ * Block Game Balance Simulator
+ * Plays seeded free play games with the bot and reports how the current
+ * BLOCK_GAME_CONFIG and ECONOMY_CONFIG play out.
+ *
+ * Usage: npm run simulate -- [--games 1000] [--strategy random|greedy|lookahead] [--seed 1] [--max-placements 1000] [--level 1] [--board classic]
+ *
+ * Greedy and lookahead can survive indefinitely, so games stop at a placement cap.
+ * Capped games are reported on their own and left out of the score, length and
+ * per-game figures, which would otherwise just measure the cap. The default
+ * random strategy plays games that end.
+ */
+
+import { BLOCK_GAME_CONFIG, ECONOMY_CONFIG } from '../config/gameConfig';
+import { REWARD_POWER_UP_TYPES } from '../utils/blockEngine';
+import { BOT_STRATEGIES, BotGameResult, BotStrategyName, playBotGame } from '../utils/blockBot';
+import { BOARDS, describeBoard } from '../utils/boards';
+
+// =============================================================================
+// Arguments
+// =============================================================================
+
+const readArg = (name: string, fallback: string): string => {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 && process.argv[index + 1] ? process.argv[index + 1] : fallback;
+};
+
+const games = parseInt(readArg('games', '1000'), 10);
+const strategyName = readArg('strategy', 'random').toUpperCase() as BotStrategyName;
+const baseSeed = parseInt(readArg('seed', '1'), 10);
+const maxPlacements = parseInt(readArg('max-placements', '1000'), 10);
+const playerLevel = parseInt(readArg('level', '1'), 10); // Feeds adaptive difficulty
+const board = BOARDS.find(b => b.id === readArg('board', 'classic').toUpperCase());
+
+if (!BOT_STRATEGIES[strategyName] || !board || !(games > 0) || !(maxPlacements > 0) || !(playerLevel > 0) || Number.isNaN(baseSeed)) {
+  console.error(`Usage: npm run simulate -- [--games N] [--strategy ${Object.keys(BOT_STRATEGIES).join('|').toLowerCase()}] [--seed N] [--max-placements N] [--level N] [--board ${BOARDS.map(b => b.id).join('|').toLowerCase()}]`);
+  process.exit(1);
+}
+
+// =============================================================================
+// Statistics
+// =============================================================================
+
+const mean = (values: number[]): number => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+const percentile = (sorted: number[], p: number): number =>
+  sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+
+const format = (value: number): string => value.toFixed(1).padStart(9);
+
+const printHistogram = (sorted: number[], buckets = 10) => {
+  const max = sorted[sorted.length - 1];
+  const size = Math.max(1, Math.ceil((max + 1) / buckets));
+  const counts = Array(buckets).fill(0);
+  sorted.forEach(v => { counts[Math.min(buckets - 1, Math.floor(v / size))]++; });
+  const widest = Math.max(...counts);
+  counts.forEach((count, i) => {
+    const label = `${i * size}-${(i + 1) * size - 1}`.padStart(13);
+    console.log(`  ${label} | ${'#'.repeat(Math.round((count / widest) * 40)).padEnd(40)} ${count}`);
+  });
+};
+
+// =============================================================================
+// Run
+// =============================================================================
+
+const strategy = BOT_STRATEGIES[strategyName];
+const results: BotGameResult[] = [];
+const startedAt = Date.now();
+
+for (let i = 0; i < games; i++) {
+  results.push(playBotGame((baseSeed + i) >>> 0, strategy, maxPlacements, playerLevel, board));
+  if (process.stdout.isTTY) process.stdout.write(`\r  ${i + 1}/${games} games`);
+}
+if (process.stdout.isTTY) process.stdout.write('\n');
+
+const finished = results.filter(r => r.placements < maxPlacements);
+const capped = results.filter(r => r.placements >= maxPlacements);
+const scores = finished.map(r => r.score).sort((a, b) => a - b);
+const totalPlacements = results.reduce((sum, r) => sum + r.placements, 0);
+
+console.log(`\n${games} games, strategy ${strategyName}, board ${describeBoard(board)}, player level ${playerLevel}, seeds ${baseSeed}-${baseSeed + games - 1} (${((Date.now() - startedAt) / 1000).toFixed(1)}s)`);
+console.log(`Config: adaptive difficulty ${BLOCK_GAME_CONFIG.DIFFICULTY.ADAPTIVE ? 'on' : 'off'}, ${BLOCK_GAME_CONFIG.POINTS_PER_BLOCK} pt/block, ${BLOCK_GAME_CONFIG.POINTS_PER_LINE} pt/line, score/${ECONOMY_CONFIG.SCORE_TO_COINS_DIVISOR} coins, pack ${ECONOMY_CONFIG.PACK_COST} coins`);
+
+console.log('\nCapped');
+console.log(`  hit the cap     ${capped.length}/${games} games (cap ${maxPlacements})`);
+if (capped.length > 0) {
+  const cappedScores = capped.map(r => r.score);
+  console.log(`  score           ${format(Math.min(...cappedScores))} - ${format(Math.max(...cappedScores)).trim()} (lower bounds, left out below)`);
+}
+
+if (finished.length === 0) {
+  console.log('\nNo game ended before the cap; try --strategy random.');
+  process.exit(0);
+}
+
+console.log(`\nScore (${finished.length} finished games)`);
+console.log(`  mean ${format(mean(scores))}   min ${format(scores[0])}   max ${format(scores[scores.length - 1])}`);
+console.log(`  p10  ${format(percentile(scores, 0.1))}   p50 ${format(percentile(scores, 0.5))}   p90 ${format(percentile(scores, 0.9))}`);
+printHistogram(scores);
+
+console.log('\nGame length');
+console.log(`  placements/game ${format(mean(finished.map(r => r.placements)))}`);
+console.log(`  lines/game      ${format(mean(finished.map(r => r.linesCleared)))}`);
+
+// Per-game counts come from finished games; rates per placement can use every game
+console.log('\nPower-ups (line clear drops and presents)');
+REWARD_POWER_UP_TYPES.forEach(type => {
+  const perGame = mean(finished.map(r => r.powerUpsEarned[type]));
+  const earned = results.reduce((sum, r) => sum + r.powerUpsEarned[type], 0);
+  console.log(`  ${type.padEnd(8)} ${format(perGame)} /game ${format((earned / totalPlacements) * 100)} /100 placements`);
+});
+console.log(`  used     ${format(mean(finished.map(r => r.powerUpsUsed)))} /game`);
+
+console.log('\nEconomy');
+const coins = mean(finished.map(r => r.coins));
+console.log(`  coins/game ${format(coins)}   xp/game ${format(mean(finished.map(r => r.xp)))}`);
+console.log(`  games per pack ${format(coins > 0 ? ECONOMY_CONFIG.PACK_COST / coins : Infinity)}`);
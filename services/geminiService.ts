@@ -1,5 +1,6 @@
 import { GoogleGenAI, Type } from "@google/genai";
 import { MonsterCard, ElementType, Rarity, Move } from "../types";
+import { inferMoveEffects, MOVE_EFFECT_TYPES, parseDamageText, sanitizeDamageModifier, sanitizeMoveEffects } from "../utils/moves";
 
 // =============================================================================
 // SECURITY WARNING: API Key Handling
@@ -59,11 +60,35 @@ interface RawCardResponse {
   moves: Array<{
     name: string;
     damage: string;
+    baseDamage?: number;
+    damageModifier?: { kind: string; value: number };
+    effects?: Array<{ type: string; amount: number; turns?: number }>;
     cost: number;
     description: string;
   }>;
 }
 
+/** Uses the structured damage and effects when Gemini sent them, otherwise reads them from the printed text */
+const transformMove = (m: RawCardResponse['moves'][number], i: number): Move => {
+  const damage = m.damage || '0';
+  const cost = Math.min(4, Math.max(1, m.cost || 1));
+  const description = m.description || '';
+  const parsed = parseDamageText(damage, cost);
+  const hasBaseDamage = typeof m.baseDamage === 'number' && Number.isFinite(m.baseDamage) && m.baseDamage >= 0;
+  const damageModifier = hasBaseDamage ? sanitizeDamageModifier(m.damageModifier) : parsed.damageModifier;
+  const effects = m.effects ? sanitizeMoveEffects(m.effects) : inferMoveEffects(description);
+
+  return {
+    name: m.name || `Move ${i + 1}`,
+    damage,
+    baseDamage: hasBaseDamage ? Math.round(m.baseDamage!) : parsed.baseDamage,
+    ...(damageModifier ? { damageModifier } : {}),
+    ...(effects.length > 0 ? { effects } : {}),
+    cost,
+    description
+  };
+};
+
 /** Validates and transforms raw card data to MonsterCard */
 const validateAndTransformCard = (
   raw: RawCardResponse,
@@ -86,12 +111,7 @@ const validateAndTransformCard = (
   // Mythical cards are ALWAYS shiny. Others have 15% chance.
   const isShiny = rarity === Rarity.Mythical || Math.random() < 0.15;
 
-  const moves: Move[] = (raw.moves || []).map((m, i) => ({
-    name: m.name || `Move ${i + 1}`,
-    damage: m.damage || '0',
-    cost: Math.min(4, Math.max(1, m.cost || 1)),
-    description: m.description || ''
-  }));
+  const moves: Move[] = (raw.moves || []).map(transformMove);
 
   return {
     id: `card-${Date.now()}-${index}-${Math.floor(Math.random() * 10000)}`,
@@ -134,6 +154,12 @@ PACK STRUCTURE (5 CARDS TOTAL):
 - Card 1, 2, 3: Common or Uncommon. (Fun, simple monsters).
 - Card 4: Rare. (Cooler, stronger design).
 - Card 5: The "Hit" card. Rare (40%), Legendary (40%), or Mythical (20%). Make this one epic.
+
+MOVE DATA (used by the battle game):
+- 'damage' is the printed text, e.g. "30", "20+" or "30x2".
+- 'baseDamage' is the plain number in it (30 for "30x2").
+- 'damageModifier' is only set when the text has an extra: "20+" is { kind: "PLUS", value: 10 } (bonus damage), "30x2" is { kind: "TIMES", value: 2 }.
+- 'effects' lists what the description promises: HEAL (health restored), SHIELD (damage absorbed), BURN (damage per turn, with 'turns' 1-3), STUN (turns the opponent loses, 1-2) or MULTI_HIT (number of hits, 2-4). Leave it empty for plain attacks, and keep the description consistent with it.
 `;
 
 // =============================================================================
@@ -183,7 +209,7 @@ const parseJsonResponse = (text: string): unknown => {
 // Fallback Data
 // =============================================================================
 
-const createFallbackCards = (): MonsterCard[] => {
+export const createFallbackCards = (): MonsterCard[] => {
   const timestamp = Date.now();
   return [
     {
@@ -195,8 +221,8 @@ const createFallbackCards = (): MonsterCard[] => {
       flavorText: "Ingen vet hvorfor han er så sur, men han smaker godt!",
       visualPrompt: 'A grumpy-looking gingerbread man with slightly burnt edges, holding a candy cane like a club, standing defiantly in the snow.',
       moves: [
-        { name: 'Hardt Bitt', damage: '10', cost: 1, description: 'Et skikkelig jafs.' },
-        { name: 'Krydder Sprut', damage: '20', cost: 2, description: 'En sky av kanel og ingefær.' }
+        { name: 'Hardt Bitt', damage: '10', baseDamage: 10, cost: 1, description: 'Et skikkelig jafs.' },
+        { name: 'Krydder Sprut', damage: '20', baseDamage: 20, cost: 2, description: 'En sky av kanel og ingefær.' }
       ],
       isShiny: false
     },
@@ -209,8 +235,8 @@ const createFallbackCards = (): MonsterCard[] => {
       flavorText: "Husk å sette ut grøt, ellers knyter han knuter på halen til katta!",
       visualPrompt: 'A traditional Norwegian barn gnome (Fjøsnisse) with a red hat, grey wool clothes, hiding in the shadows of a barn with a lantern.',
       moves: [
-        { name: 'Nissestrek', damage: '30', cost: 2, description: 'Lurer motstanderen trill rundt.' },
-        { name: 'Grøtsleiv', damage: '50', cost: 3, description: 'Et tungt slag med tresleiva.' }
+        { name: 'Nissestrek', damage: '30', baseDamage: 30, cost: 2, description: 'Lurer motstanderen trill rundt.' },
+        { name: 'Grøtsleiv', damage: '50', baseDamage: 50, cost: 3, description: 'Et tungt slag med tresleiva.' }
       ],
       isShiny: false
     },
@@ -223,8 +249,8 @@ const createFallbackCards = (): MonsterCard[] => {
       flavorText: "Laget av nordlys og isbre-vann. Vokter Nordkapp.",
       visualPrompt: 'A majestic dragon made entirely of jagged ice crystals and snow, with aurora borealis glowing in its chest, perched on a mountain peak.',
       moves: [
-        { name: 'Fryseånde', damage: '60', cost: 3, description: 'Fryser alt til is.' },
-        { name: 'Nordlys-Stråle', damage: '90', cost: 4, description: 'En blendende stråle av magisk lys.' }
+        { name: 'Fryseånde', damage: '60', baseDamage: 60, effects: [{ type: 'STUN', amount: 1 }], cost: 3, description: 'Fryser alt til is.' },
+        { name: 'Nordlys-Stråle', damage: '90', baseDamage: 90, cost: 4, description: 'En blendende stråle av magisk lys.' }
       ],
       isShiny: true
     },
@@ -237,8 +263,8 @@ const createFallbackCards = (): MonsterCard[] => {
       flavorText: "Klissete, rød og full av sukker. Ikke søl!",
       visualPrompt: 'A cute slime monster made of red soda (Julebrus), bubbling and fizzy, with a bottle cap as a hat.',
       moves: [
-        { name: 'Brus-Sprut', damage: '15', cost: 1, description: 'Kullsyre i øynene!' },
-        { name: 'Sukker-Sjokk', damage: '25', cost: 2, description: 'Gjør motstanderen hyperaktiv og forvirret.' }
+        { name: 'Brus-Sprut', damage: '15', baseDamage: 15, cost: 1, description: 'Kullsyre i øynene!' },
+        { name: 'Sukker-Sjokk', damage: '25', baseDamage: 25, effects: [{ type: 'STUN', amount: 1 }], cost: 2, description: 'Gjør motstanderen hyperaktiv og forvirret.' }
       ],
       isShiny: false
     },
@@ -251,18 +277,75 @@ const createFallbackCards = (): MonsterCard[] => {
       flavorText: "Lukter som en hel skog og stikker som bare det.",
       visualPrompt: 'A small troll made of pine branches, cones, and moss, blending into a winter forest.',
       moves: [
-        { name: 'Nåleregn', damage: '20', cost: 1, description: 'Skyter skarpe barnåler.' },
-        { name: 'Kvaeklyse', damage: '40', cost: 2, description: 'Klissete kvae som fanger fienden.' }
+        { name: 'Nåleregn', damage: '10x2', baseDamage: 10, effects: [{ type: 'MULTI_HIT', amount: 2 }], cost: 1, description: 'Skyter skarpe barnåler to ganger.' },
+        { name: 'Kvaeklyse', damage: '40', baseDamage: 40, effects: [{ type: 'STUN', amount: 1 }], cost: 2, description: 'Klissete kvae som fanger fienden.' }
       ],
       isShiny: false
     }
   ];
 };
 
+/**
+ * One of the predefined cards, for when a single monster is needed.
+ * With a rarity, a card of that rarity is preferred; otherwise any card takes it on.
+ */
+export const pickFallbackCard = (rarity?: Rarity): MonsterCard => {
+  const cards = createFallbackCards();
+  const matching = cards.filter(card => card.rarity === rarity);
+  const pool = matching.length > 0 ? matching : cards;
+  const card = pool[Math.floor(Math.random() * pool.length)];
+  return rarity ? { ...card, rarity } : card;
+};
+
 // =============================================================================
 // Public API
 // =============================================================================
 
+/** Response schema for one card; packs and wild monsters share it */
+const CARD_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    name: { type: Type.STRING },
+    type: { type: Type.STRING, enum: Object.values(ElementType) },
+    hp: { type: Type.INTEGER },
+    rarity: { type: Type.STRING, enum: Object.values(Rarity) },
+    flavorText: { type: Type.STRING },
+    visualPrompt: { type: Type.STRING, description: "Must be in English" },
+    moves: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          damage: { type: Type.STRING, description: "Printed damage, e.g. 30, 20+ or 30x2" },
+          baseDamage: { type: Type.INTEGER, description: "The number in the printed damage" },
+          damageModifier: {
+            type: Type.OBJECT,
+            properties: {
+              kind: { type: Type.STRING, enum: ['PLUS', 'TIMES'] },
+              value: { type: Type.INTEGER, description: "PLUS: bonus damage, TIMES: factor" }
+            }
+          },
+          effects: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                type: { type: Type.STRING, enum: MOVE_EFFECT_TYPES },
+                amount: { type: Type.INTEGER },
+                turns: { type: Type.INTEGER, description: "BURN only" }
+              }
+            }
+          },
+          cost: { type: Type.INTEGER, description: "Energy cost 1-4" },
+          description: { type: Type.STRING }
+        },
+        required: ['name', 'damage', 'baseDamage', 'cost', 'description']
+      }
+    }
+  }
+};
+
 /**
  * Generates a booster pack of 5 monster cards using Gemini AI.
  * Falls back to predefined cards if API call fails.
@@ -279,29 +362,7 @@ export const generateBoosterPack = async (): Promise<MonsterCard[]> => {
         responseMimeType: "application/json",
         responseSchema: {
           type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              name: { type: Type.STRING },
-              type: { type: Type.STRING, enum: Object.values(ElementType) },
-              hp: { type: Type.INTEGER },
-              rarity: { type: Type.STRING, enum: Object.values(Rarity) },
-              flavorText: { type: Type.STRING },
-              visualPrompt: { type: Type.STRING, description: "Must be in English" },
-              moves: {
-                type: Type.ARRAY,
-                items: {
-                  type: Type.OBJECT,
-                  properties: {
-                    name: { type: Type.STRING },
-                    damage: { type: Type.STRING },
-                    cost: { type: Type.INTEGER, description: "Energy cost 1-4" },
-                    description: { type: Type.STRING }
-                  }
-                }
-              }
-            }
-          }
+          items: CARD_SCHEMA
         }
       }
     });
@@ -324,6 +385,46 @@ export const generateBoosterPack = async (): Promise<MonsterCard[]> => {
   }
 };
 
+/**
+ * Generates a single wild monster of the given rarity.
+ * Falls back to one of the predefined cards if the API call fails.
+ */
+export const generateWildMonster = async (rarity: Rarity): Promise<MonsterCard> => {
+  try {
+    const ai = createAIClient();
+
+    const response = await ai.models.generateContent({
+      model: "gemini-2.5-flash",
+      contents: `Generate ONE wild monster, returned as an array with a single card. Ignore the pack structure: its rarity MUST be ${rarity}.`,
+      config: {
+        systemInstruction: CARD_GENERATION_SYSTEM_PROMPT,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.ARRAY,
+          items: CARD_SCHEMA
+        }
+      }
+    });
+
+    if (!response.text) {
+      throw new Error("No text returned from Gemini API");
+    }
+
+    const rawData = parseJsonResponse(response.text) as RawCardResponse[];
+
+    if (!Array.isArray(rawData) || rawData.length === 0) {
+      throw new Error("API response has no card");
+    }
+
+    return validateAndTransformCard({ ...rawData[0], rarity }, 0);
+
+  } catch (error) {
+    console.error("[GeminiService] Failed to generate wild monster:", error);
+    // Keep the rolled rarity, so the catch target matches what was rolled
+    return pickFallbackCard(rarity);
+  }
+};
+
 // =============================================================================
 // Image Generation
 // =============================================================================
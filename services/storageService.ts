@@ -1,10 +1,28 @@
 
-import { MonsterCard, PowerUpType, SavedGameSession, SavedLayout } from '../types';
+import { MonsterCard, BlockGameMode, PowerUpType, SavedGameSession, SavedLayout, BlockReplay, DailyChallengeRecord, LevelProgressRecord, PaceTrack, GameStatsRecord, SavedGameSlot, EscapedMonster } from '../types';
+import { STATS_CONFIG, ENCOUNTER_CONFIG } from '../config/gameConfig';
+import { migrateCard, needsMoveMigration } from '../utils/moves';
 
 const DB_NAME = 'JenJenMonstersDB';
-const DB_VERSION = 2; 
+const DB_VERSION = 7; 
 const CARD_STORE_NAME = 'user_cards'; 
 const GAME_STORE_NAME = 'game_state'; 
+const REPLAY_STORE_NAME = 'block_replays';
+const LEVEL_STORE_NAME = 'level_progress';
+const STATS_STORE_NAME = 'game_stats';
+const SLOT_STORE_NAME = 'game_slots';
+
+// Keys for in-progress block games in the game_state store
+export const FREE_PLAY_SESSION_KEY = 'current_session';
+export const DAILY_SESSION_KEY = 'daily_session';
+export const BLITZ_SESSION_KEY = 'blitz_session';
+
+// High scores are kept per board; the classic board keeps the original keys
+const highScoreKey = (base: string, boardId: string): string =>
+  boardId === 'CLASSIC' ? base : `${base}_${boardId.toLowerCase()}`;
+
+// Finished runs kept for review. The best run is always kept on top of this.
+const MAX_SAVED_REPLAYS = 20;
 
 // Singleton DB Instance to prevent connection leaks
 let dbInstance: IDBDatabase | null = null;
@@ -60,6 +78,36 @@ const getDB = (): Promise<IDBDatabase> => {
       if (!db.objectStoreNames.contains(GAME_STORE_NAME)) {
         db.createObjectStore(GAME_STORE_NAME);
       }
+
+      if (!db.objectStoreNames.contains(REPLAY_STORE_NAME)) {
+        db.createObjectStore(REPLAY_STORE_NAME, { keyPath: 'id' });
+      }
+
+      if (!db.objectStoreNames.contains(LEVEL_STORE_NAME)) {
+        db.createObjectStore(LEVEL_STORE_NAME, { keyPath: 'levelId' });
+      }
+
+      if (!db.objectStoreNames.contains(STATS_STORE_NAME)) {
+        db.createObjectStore(STATS_STORE_NAME, { keyPath: 'id' });
+      }
+
+      if (!db.objectStoreNames.contains(SLOT_STORE_NAME)) {
+        db.createObjectStore(SLOT_STORE_NAME, { keyPath: 'id' });
+      }
+
+      // Version 7: moves gained numeric damage and effects, filled in from the printed text
+      const upgradeTx = (event.target as IDBOpenDBRequest).transaction;
+      if (event.oldVersion > 0 && event.oldVersion < 7 && upgradeTx) {
+        const cursorRequest = upgradeTx.objectStore(CARD_STORE_NAME).openCursor();
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (!cursor) return;
+          // Cards stored without a moves list are given an empty one rather than failing the upgrade
+          const card = cursor.value;
+          if (card && typeof card === 'object' && needsMoveMigration(card)) cursor.update(migrateCard(card));
+          cursor.continue();
+        };
+      }
     };
   });
 
@@ -297,20 +345,20 @@ export const storageService = {
     }
   },
 
-  async saveGameSession(session: SavedGameSession) {
+  async saveGameSession(session: SavedGameSession, key: string = FREE_PLAY_SESSION_KEY) {
     try {
         const db = await getDB();
         const tx = db.transaction(GAME_STORE_NAME, 'readwrite');
-        tx.objectStore(GAME_STORE_NAME).put(session, 'current_session');
+        tx.objectStore(GAME_STORE_NAME).put(session, key);
     } catch(e) { console.error("Error saving session", e); }
   },
 
-  async loadGameSession(): Promise<SavedGameSession | null> {
+  async loadGameSession(key: string = FREE_PLAY_SESSION_KEY): Promise<SavedGameSession | null> {
     try {
         const db = await getDB();
         return new Promise((resolve) => {
             const tx = db.transaction(GAME_STORE_NAME, 'readonly');
-            const req = tx.objectStore(GAME_STORE_NAME).get('current_session');
+            const req = tx.objectStore(GAME_STORE_NAME).get(key);
             req.onsuccess = () => resolve(req.result);
             req.onerror = () => resolve(null);
         });
@@ -320,14 +368,163 @@ export const storageService = {
     }
   },
 
-  async clearGameSession() {
+  async clearGameSession(key: string = FREE_PLAY_SESSION_KEY) {
       try {
           const db = await getDB();
           const tx = db.transaction(GAME_STORE_NAME, 'readwrite');
-          tx.objectStore(GAME_STORE_NAME).delete('current_session');
+          tx.objectStore(GAME_STORE_NAME).delete(key);
       } catch(e) { console.error("Error clearing session", e); }
   },
 
+  // --- SAVE SLOTS ---
+
+  async saveGameSlot(slot: SavedGameSlot) {
+    try {
+        const db = await getDB();
+        const tx = db.transaction(SLOT_STORE_NAME, 'readwrite');
+        tx.objectStore(SLOT_STORE_NAME).put(slot);
+    } catch(e) { console.error("Error saving game slot", e); }
+  },
+
+  /** Suspended runs of one mode, newest first */
+  async loadGameSlots(mode: BlockGameMode): Promise<SavedGameSlot[]> {
+    try {
+        const db = await getDB();
+        return new Promise((resolve) => {
+            const tx = db.transaction(SLOT_STORE_NAME, 'readonly');
+            const req = tx.objectStore(SLOT_STORE_NAME).getAll();
+            req.onsuccess = () => resolve((req.result as SavedGameSlot[]).filter(s => s.mode === mode).sort((a, b) => b.savedAt - a.savedAt));
+            req.onerror = () => resolve([]);
+        });
+    } catch (e) {
+        console.error('[StorageService] Failed to load game slots:', e);
+        return [];
+    }
+  },
+
+  async deleteGameSlot(id: string) {
+    try {
+        const db = await getDB();
+        const tx = db.transaction(SLOT_STORE_NAME, 'readwrite');
+        tx.objectStore(SLOT_STORE_NAME).delete(id);
+    } catch(e) { console.error("Error deleting game slot", e); }
+  },
+
+  // --- REPLAYS ---
+
+  async saveReplay(replay: BlockReplay) {
+    try {
+        const replays = await this.loadReplays();
+        const best = replays.reduce<BlockReplay | null>((top, r) => (!top || r.score > top.score) ? r : top, null);
+        // Keep the newest runs plus the all-time best one
+        const toDelete = replays
+            .slice(MAX_SAVED_REPLAYS - 1)
+            .filter(r => r.id !== best?.id || replay.score > r.score);
+
+        const db = await getDB();
+        return new Promise<void>((resolve, reject) => {
+            const tx = db.transaction(REPLAY_STORE_NAME, 'readwrite');
+            const store = tx.objectStore(REPLAY_STORE_NAME);
+
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+
+            store.put(replay);
+            toDelete.forEach(r => store.delete(r.id));
+        });
+    } catch (e) {
+        console.error('[StorageService] Failed to save replay:', e);
+    }
+  },
+
+  // Newest first
+  async loadReplays(): Promise<BlockReplay[]> {
+    try {
+        const db = await getDB();
+        return new Promise((resolve) => {
+            const tx = db.transaction(REPLAY_STORE_NAME, 'readonly');
+            const req = tx.objectStore(REPLAY_STORE_NAME).getAll();
+            req.onsuccess = () => resolve((req.result as BlockReplay[]).sort((a, b) => b.createdAt - a.createdAt));
+            req.onerror = () => resolve([]);
+        });
+    } catch (e) {
+        console.error('[StorageService] Failed to load replays:', e);
+        return [];
+    }
+  },
+
+  async deleteReplay(id: string) {
+    try {
+        const db = await getDB();
+        const tx = db.transaction(REPLAY_STORE_NAME, 'readwrite');
+        tx.objectStore(REPLAY_STORE_NAME).delete(id);
+    } catch(e) { console.error("Error deleting replay", e); }
+  },
+
+  // --- PUZZLE LEVELS ---
+
+  async saveLevelProgress(record: LevelProgressRecord) {
+    try {
+        const db = await getDB();
+        const tx = db.transaction(LEVEL_STORE_NAME, 'readwrite');
+        tx.objectStore(LEVEL_STORE_NAME).put(record);
+    } catch(e) { console.error("Error saving level progress", e); }
+  },
+
+  async loadLevelProgress(): Promise<LevelProgressRecord[]> {
+    try {
+        const db = await getDB();
+        return new Promise((resolve) => {
+            const tx = db.transaction(LEVEL_STORE_NAME, 'readonly');
+            const req = tx.objectStore(LEVEL_STORE_NAME).getAll();
+            req.onsuccess = () => resolve(req.result);
+            req.onerror = () => resolve([]);
+        });
+    } catch (e) {
+        console.error('[StorageService] Failed to load level progress:', e);
+        return [];
+    }
+  },
+
+  // --- GAME STATS ---
+
+  async saveGameStats(record: GameStatsRecord) {
+    try {
+        const records = await this.loadGameStats();
+        const toDelete = records.slice(STATS_CONFIG.MAX_RECORDS - 1);
+
+        const db = await getDB();
+        return new Promise<void>((resolve, reject) => {
+            const tx = db.transaction(STATS_STORE_NAME, 'readwrite');
+            const store = tx.objectStore(STATS_STORE_NAME);
+
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+
+            store.put(record);
+            toDelete.forEach(r => store.delete(r.id));
+        });
+    } catch (e) {
+        console.error('[StorageService] Failed to save game stats:', e);
+    }
+  },
+
+  // Newest first
+  async loadGameStats(): Promise<GameStatsRecord[]> {
+    try {
+        const db = await getDB();
+        return new Promise((resolve) => {
+            const tx = db.transaction(STATS_STORE_NAME, 'readonly');
+            const req = tx.objectStore(STATS_STORE_NAME).getAll();
+            req.onsuccess = () => resolve((req.result as GameStatsRecord[]).sort((a, b) => b.finishedAt - a.finishedAt));
+            req.onerror = () => resolve([]);
+        });
+    } catch (e) {
+        console.error('[StorageService] Failed to load game stats:', e);
+        return [];
+    }
+  },
+
   // --- LOCAL STORAGE HELPERS ---
 
   saveCoins(amount: number) {
@@ -339,15 +536,52 @@ export const storageService = {
     return saved ? parseInt(saved, 10) : 300; 
   },
 
-  saveHighScore(score: number) {
-    localStorage.setItem('jenjen_highscore', score.toString());
+  saveHighScore(score: number, boardId: string = 'CLASSIC') {
+    localStorage.setItem(highScoreKey('jenjen_highscore', boardId), score.toString());
   },
 
-  loadHighScore(): number {
-    const saved = localStorage.getItem('jenjen_highscore');
+  loadHighScore(boardId: string = 'CLASSIC'): number {
+    const saved = localStorage.getItem(highScoreKey('jenjen_highscore', boardId));
     return saved ? parseInt(saved, 10) : 0;
   },
 
+  saveBlitzHighScore(score: number, boardId: string = 'CLASSIC') {
+    localStorage.setItem(highScoreKey('jenjen_highscore_blitz', boardId), score.toString());
+  },
+
+  loadBlitzHighScore(boardId: string = 'CLASSIC'): number {
+    const saved = localStorage.getItem(highScoreKey('jenjen_highscore_blitz', boardId));
+    return saved ? parseInt(saved, 10) : 0;
+  },
+
+  /** Score and board after each placement of the best run in a mode, per board */
+  savePaceTrack(mode: BlockGameMode, boardId: string, track: PaceTrack) {
+    try {
+      localStorage.setItem(highScoreKey(`jenjen_pace_${mode.toLowerCase()}`, boardId), JSON.stringify(track));
+    } catch (e) {
+      console.warn('[StorageService] Failed to save pace track:', e);
+    }
+  },
+
+  loadPaceTrack(mode: BlockGameMode, boardId: string): PaceTrack | null {
+    try {
+      const saved = localStorage.getItem(highScoreKey(`jenjen_pace_${mode.toLowerCase()}`, boardId));
+      return saved ? JSON.parse(saved) : null;
+    } catch (e) {
+      console.warn('[StorageService] Failed to parse pace track, resetting:', e);
+      return null;
+    }
+  },
+
+  /** Board picked for new runs in a mode */
+  saveBoardId(mode: BlockGameMode, boardId: string) {
+    localStorage.setItem(`jenjen_board_${mode.toLowerCase()}`, boardId);
+  },
+
+  loadBoardId(mode: BlockGameMode): string | null {
+    return localStorage.getItem(`jenjen_board_${mode.toLowerCase()}`);
+  },
+
   saveFavorites(ids: string[]) {
     localStorage.setItem('jenjen_favorites', JSON.stringify(ids));
   },
@@ -362,6 +596,21 @@ export const storageService = {
     }
   },
 
+  /** Collection cards equipped for block runs, in equip order */
+  saveEquippedCardIds(ids: string[]) {
+    localStorage.setItem('jenjen_equipped_cards', JSON.stringify(ids));
+  },
+
+  loadEquippedCardIds(): string[] {
+    try {
+      const saved = localStorage.getItem('jenjen_equipped_cards');
+      return saved ? JSON.parse(saved) : [];
+    } catch (e) {
+      console.warn('[StorageService] Failed to parse equipped cards, resetting:', e);
+      return [];
+    }
+  },
+
   saveLastViewedTime(timestamp: number) {
     localStorage.setItem('jenjen_last_viewed', timestamp.toString());
   },
@@ -396,6 +645,22 @@ export const storageService = {
     }
   },
 
+  // --- DAILY CHALLENGE ---
+
+  saveDailyChallenges(records: Record<string, DailyChallengeRecord>) {
+    localStorage.setItem('jenjen_daily_challenges', JSON.stringify(records));
+  },
+
+  loadDailyChallenges(): Record<string, DailyChallengeRecord> {
+    try {
+      const saved = localStorage.getItem('jenjen_daily_challenges');
+      return saved ? JSON.parse(saved) : {};
+    } catch (e) {
+      console.warn('[StorageService] Failed to parse daily challenges, resetting:', e);
+      return {};
+    }
+  },
+
   // --- MUSIC PREFERENCE ---
   saveMusicMuted(isMuted: boolean) {
     localStorage.setItem('jenjen_music_muted', JSON.stringify(isMuted));
@@ -430,5 +695,32 @@ export const storageService = {
       console.warn('[StorageService] Failed to parse collection layouts, resetting:', e);
       return [];
     }
+  },
+
+  // --- WILD ENCOUNTERS ---
+
+  saveLastEncounterAt(timestamp: number) {
+    localStorage.setItem('jenjen_last_encounter', timestamp.toString());
+  },
+
+  loadLastEncounterAt(): number {
+    const saved = localStorage.getItem('jenjen_last_encounter');
+    return saved ? parseInt(saved, 10) : 0;
+  },
+
+  /** Newest first, keeping only the latest escapes */
+  recordEscapedMonster(entry: EscapedMonster) {
+    const escaped = [entry, ...this.loadEscapedMonsters()].slice(0, ENCOUNTER_CONFIG.ESCAPE_LOG_LENGTH);
+    localStorage.setItem('jenjen_escaped_monsters', JSON.stringify(escaped));
+  },
+
+  loadEscapedMonsters(): EscapedMonster[] {
+    try {
+      const saved = localStorage.getItem('jenjen_escaped_monsters');
+      return saved ? JSON.parse(saved) : [];
+    } catch (e) {
+      console.warn('[StorageService] Failed to parse escaped monsters, resetting:', e);
+      return [];
+    }
   }
 };
@@ -20,9 +20,26 @@ export enum Rarity {
   Mythical = 'Mythical'
 }
 
+export type MoveEffectType = 'HEAL' | 'BURN' | 'STUN' | 'SHIELD' | 'MULTI_HIT';
+
+export interface MoveEffect {
+  type: MoveEffectType;
+  amount: number; // HEAL and SHIELD: health, BURN: damage per turn, STUN: turns skipped, MULTI_HIT: hits
+  turns?: number; // BURN: turns it keeps burning
+}
+
+/** The extra on a printed damage such as "20+" (bonus damage) or "30x2" (multiplied) */
+export interface DamageModifier {
+  kind: 'PLUS' | 'TIMES';
+  value: number; // PLUS: bonus damage, TIMES: factor
+}
+
 export interface Move {
   name: string;
-  damage: string;
+  damage: string; // Printed damage, shown on the card
+  baseDamage: number;
+  damageModifier?: DamageModifier;
+  effects?: MoveEffect[];
   cost: number;
   description: string;
 }
@@ -42,18 +59,41 @@ export interface MonsterCard {
 
 export type AppState = 'IDLE' | 'OPENING' | 'REVEALED';
 
-export type ViewState = 'GAME' | 'SHOP' | 'COLLECTION';
+export type ViewState = 'GAME' | 'BATTLE' | 'SHOP' | 'COLLECTION';
+
+export type BlockGameMode = 'FREE_PLAY' | 'DAILY' | 'BLITZ' | 'LEVEL';
 
 // Game Types
 export type BlockColor = string;
-export type GridCell = BlockColor | null;
+export type SpecialCellKind = 'ICE' | 'PRESENT' | 'GOLD' | 'COAL' | 'HOLE';
+
+/** A block with rules of its own; plain blocks stay bare color strings */
+export interface SpecialCell {
+  kind: SpecialCellKind;
+  color: BlockColor;
+  cracked?: boolean; // ICE: the first clear cracks it, the second removes it
+  rowCleared?: boolean; // PRESENT: opens once both its row and its column have been cleared
+  colCleared?: boolean;
+}
+
+export type GridCell = BlockColor | SpecialCell | null;
+
+/** Size and outline of the playing field; masked boards have HOLE cells that never hold a block */
+export interface BoardDefinition {
+  id: string;
+  name: string;
+  rows: number;
+  cols: number;
+  mask?: string[]; // One string per row, '#' playable and '.' hole; every cell is playable when absent
+}
 export type ShapeLayout = number[][]; // 2D array 0/1
-export type PowerUpType = 'BOMB' | 'LINE' | 'COLOR' | 'SINGLE' | 'REFRESH';
+export type PowerUpType = 'BOMB' | 'LINE' | 'COLOR' | 'SINGLE' | 'REFRESH' | 'GRAVITY' | 'SWAP' | 'FREEZE' | 'TRANSMUTE';
 
 export interface Shape {
   id: string;
   layout: ShapeLayout;
   color: string;
+  templateId?: string; // SHAPES_TEMPLATES id; missing on shapes saved before stats were kept
 }
 
 export interface FloatingText {
@@ -83,10 +123,255 @@ export interface SavedGameSession {
   streakCount: number;
   rescueMode: boolean;
   isGameOver: boolean;
+  powerUps?: Record<PowerUpType, number>; // The run's own inventory (missing in older sessions)
+  shapeCounter?: number; // Missing in sessions saved before the engine refactor
+  seed?: number; // Seed the run started from (missing in older sessions)
+  rngState?: number; // PRNG position, so a resumed run continues the same sequence
+  dealRngState?: number; // Position of the separate tray stream, for runs that have one
+  replayLog?: ReplayLog; // Actions so far, so a resumed run still produces a full replay
+  timeLeftMs?: number; // Blitz clock; a restored Blitz run always starts paused
+  difficulty?: DifficultyState; // Missing in sessions saved before adaptive difficulty
+  goldCollected?: number;
+  board?: BoardDefinition; // Missing in sessions saved before board shapes, which are all classic
+  streakFrozen?: boolean;
+  runStats?: RunStats; // Missing in sessions saved before stats were kept
+  modifiers?: RunModifiers;
+  freeRefreshes?: number;
+}
+
+/** A suspended block run parked under a name, so several runs can wait at once */
+export interface SavedGameSlot {
+  id: string;
+  name: string;
+  mode: BlockGameMode;
+  savedAt: number;
+  session: SavedGameSession;
+}
+
+// Block Engine Types
+/** Where a SCORED event's points came from */
+export type ScoreSource = 'BLOCKS' | 'LINES' | 'GOLD' | 'PRESENT' | 'POWER_UP';
+
+/** Factors a line clear's base points were multiplied by */
+export interface ScoreMultipliers {
+  multiLine: number;
+  combo: number;
+  streak: number;
+  cards: number; // From equipped card passives, 1 without
+}
+
+/** Passive bonuses from equipped monster cards (see utils/cardPassives.ts) */
+export interface RunModifiers {
+  bombRadius: number; // Extra rings around a BOMB blast
+  freeRefreshes: number; // REFRESH uses that don't spend the inventory
+  streakBonus: number; // Added to the per-streak score multiplier
+  comboBonus: number; // Added to the per-combo score multiplier
+  lineBonus: number; // Extra share of line points, 0.1 is +10%
+  blockPoints: number; // Extra points per placed block
+  specialPoints: number; // Extra points for each gold cell and present
+  startFrozen: boolean; // The run starts with FREEZE active
+}
+
+/** Power-ups aimed at a board cell */
+export type TargetedPowerUpType = 'BOMB' | 'LINE' | 'COLOR' | 'SINGLE' | 'GRAVITY';
+/** Power-ups aimed at shapes in the tray */
+export type TrayPowerUpType = 'SWAP' | 'TRANSMUTE';
+
+/** Tray and obstacle settings, fixed when a run starts so a seed keeps dealing the same game */
+export interface DifficultyState {
+  adaptive: boolean; // Weights follow the board and the player; off for the shared daily challenge
+  guaranteePlayable: boolean;
+  playerLevel: number;
+  recentClears: number[]; // Lines cleared by each recent placement, oldest first
+  spawnInterval?: number; // Placements between special cell spawns; missing or 0 never spawns
+  spawnCountdown?: number;
+}
+
+export interface GameState {
+  grid: GridCell[][];
+  shapes: Shape[];
+  holdShape: Shape | null;
+  score: number;
+  comboCount: number;
+  streakCount: number;
+  powerUps: Record<PowerUpType, number>;
+  rescueMode: boolean;
+  isGameOver: boolean;
+  shapeCounter: number; // Used to build unique shape IDs
+  seed: number; // Seed the run started from, for reproducing and sharing games
+  rngState: number; // Current PRNG state; all engine randomness is drawn from here
+  shapeQueue?: Shape[]; // Fixed deal order for puzzle levels; trays are random when absent
+  difficulty?: DifficultyState; // Absent in runs that predate adaptive difficulty, which keep the base weights
+  goldCollected?: number; // Gold cells cleared this run, paid out as bonus coins
+  board?: BoardDefinition; // Classic board when absent
+  streakFrozen?: boolean; // FREEZE is active: the next placement that clears nothing keeps the streak
+  modifiers?: RunModifiers; // Passives from equipped cards, fixed for the run
+  freeRefreshes?: number; // REFRESH uses from Water cards left this run
+  dealRngState?: number; // Separate PRNG for trays, so boards sharing a seed get the same shapes however they are played
+}
+
+export type GameAction =
+  | { type: 'PLACE'; shapeIndex: number; r: number; c: number }
+  | { type: 'ROTATE'; shapeIndex: number }
+  | { type: 'HOLD'; shapeIndex: number }
+  | { type: 'USE_POWER_UP'; powerUp: TargetedPowerUpType; r: number; c: number }
+  | { type: 'USE_TRAY_POWER_UP'; powerUp: TrayPowerUpType; shapeIndices: number[] } // SWAP takes two slots, TRANSMUTE one
+  | { type: 'REFRESH'; purchased?: boolean }
+  | { type: 'FREEZE'; purchased?: boolean }
+  | { type: 'GRANT_POWER_UP'; powerUp: PowerUpType }
+  | { type: 'SYNC_POWER_UPS'; powerUps: Record<PowerUpType, number> } // Free play: a resumed run takes over the shared inventory
+  | { type: 'CHECK_STUCK'; canBuyPowerUp: boolean }
+  | { type: 'ADD_GARBAGE'; rows: number } // Versus: obstacle rows pushed up from the bottom
+  | { type: 'TIME_UP' };
+
+export interface CellRef {
+  r: number;
+  c: number;
+  color: BlockColor;
+}
+
+export type GameEvent =
+  | { type: 'SHAPE_PLACED'; r: number; c: number; points: number } // Block points only, line bonus is in LINES_CLEARED
+  | {
+      type: 'LINES_CLEARED';
+      r: number;
+      c: number;
+      rows: number[];
+      cols: number[];
+      cells: CellRef[];
+      placedGrid: GridCell[][]; // Grid after placement, before the lines were removed
+      lines: number;
+      points: number;
+      combo: number;
+      streak: number;
+      word: string;
+    }
+  | { type: 'STREAK_BROKEN'; r: number; c: number }
+  | { type: 'STREAK_FROZEN' }
+  | { type: 'STREAK_SAVED'; r: number; c: number } // A frozen streak survived a placement that cleared nothing
+  | { type: 'ICE_CRACKED'; cells: { r: number; c: number }[] }
+  | { type: 'GOLD_COLLECTED'; r: number; c: number; count: number; points: number }
+  | { type: 'PRESENT_OPENED'; r: number; c: number; powerUp: PowerUpType; points: number }
+  | { type: 'CELL_SPAWNED'; r: number; c: number; kind: SpecialCellKind }
+  | { type: 'POWER_UP_REWARDED'; r: number; c: number; powerUp: PowerUpType }
+  | { type: 'POWER_UP_USED'; powerUp: TargetedPowerUpType; r: number; c: number; cells: CellRef[]; points: number }
+  | { type: 'TRAY_POWER_UP_USED'; powerUp: TrayPowerUpType; shapeIndices: number[] }
+  | { type: 'SHAPES_DEALT'; reason: 'TRAY_EMPTY' | 'REFRESH' }
+  | { type: 'SHAPE_ROTATED'; shapeIndex: number }
+  | { type: 'SHAPE_HELD'; shapeIndex: number; swapped: boolean }
+  | { type: 'INVALID_ACTION'; action: GameAction['type']; reason: 'GAME_OVER' | 'NO_SHAPE' | 'BLOCKED' | 'NO_POWER_UP' | 'EMPTY_TARGET' | 'ALREADY_ACTIVE' }
+  | { type: 'GARBAGE_ADDED'; rows: number }
+  | { type: 'SCORED'; source: ScoreSource; base: number; points: number; multipliers?: ScoreMultipliers }
+  | { type: 'RESCUE_STARTED' }
+  | { type: 'RESCUE_ENDED' }
+  | { type: 'GAME_OVER'; score: number };
+
+export interface GameActionResult {
+  state: GameState;
+  events: GameEvent[];
+}
+
+// Replay Types
+export interface ReplayLog {
+  seed: number;
+  startPowerUps: Record<PowerUpType, number>;
+  difficulty?: DifficultyState; // As the run started
+  board?: BoardDefinition;
+  modifiers?: RunModifiers;
+  dealRngState?: number; // Start of the separate tray stream, for runs that have one
+  actions: GameAction[]; // Only actions that changed the state
+}
+
+export interface BlockReplay extends ReplayLog {
+  id: string;
+  score: number;
+  createdAt: number;
+}
+
+// Personal-best pace, recorded from the replay when a run ends
+export interface PaceTrack {
+  score: number; // Final score of the run
+  scores: number[]; // Score after each placement
+  boards: string[]; // Board after each placement, encoded by utils/pace.ts
+  recordedAt: number;
+}
+
+// Stats Types
+/** Running totals for the current run, updated from engine events */
+export interface RunStats {
+  playTimeMs: number; // Time between actions, with long breaks capped
+  lastActionAt: number;
+  linesCleared: number;
+  bestCombo: number;
+  bestStreak: number;
+  placements: number;
+  powerUpsUsed: Partial<Record<PowerUpType, number>>;
+  powerUpsRewarded?: number;
+  scoreBySource?: Partial<Record<ScoreSource, { points: number, count: number }>>; // Missing in runs saved before the breakdown
+  scoreLog?: ScoreLogEntry[]; // Latest scoring events, newest last
+}
+
+export interface ScoreLogEntry {
+  placement: number; // Placements made when the points came in
+  source: ScoreSource;
+  base: number;
+  points: number;
+  multipliers?: ScoreMultipliers;
+}
+
+/** One finished block game */
+export interface GameStatsRecord {
+  id: string;
+  mode: BlockGameMode;
+  boardId: string;
+  score: number;
+  durationMs: number;
+  linesCleared: number;
+  bestCombo: number;
+  bestStreak: number;
+  placements: number;
+  powerUpsUsed: Partial<Record<PowerUpType, number>>;
+  coinsEarned: number;
+  endingShapes: string[]; // Template ids left in the tray and hold when the run ended
+  finishedAt: number;
+}
+
+// Daily Challenge Types
+export interface DailyChallengeRecord {
+  dateKey: string; // Local calendar day, YYYY-MM-DD
+  score: number; // The day's single scored attempt
+  bestScore: number; // Best of all attempts that day, including practice runs
+  attempts: number;
+  completedAt: number; // When the scored attempt ended
+}
+
+// Puzzle Level Types
+export type LevelGoal =
+  | { type: 'CLEAR_LINES'; target: number }
+  | { type: 'REACH_SCORE'; target: number }
+  | { type: 'CLEAR_GOLD' }
+  | { type: 'OPEN_PRESENTS' };
+
+/** Level file format, as stored in config/levels.json */
+export interface LevelDefinition {
+  id: string;
+  name: string;
+  grid: string[]; // One string per row: '.' empty, 'G' gold, 'I' ice, 'P' present, 'C' coal, 'X' stone, '0'-'4' palette colors
+  shapes: string[]; // SHAPES_TEMPLATES ids, dealt three at a time in this order
+  goal: LevelGoal;
+  moveLimit: number; // Placements allowed
+  stars?: [number, number]; // Moves left needed for 2 and 3 stars
+}
+
+export interface LevelProgressRecord {
+  levelId: string;
+  stars: number; // Best rating so far, 1-3
+  bestScore: number;
+  completedAt: number;
 }
 
 // Collection Layout Types
-export type SortOption = 'NEWEST' | 'OLDEST' | 'RARITY_DESC' | 'RARITY_ASC' | 'NAME_ASC' | 'NAME_DESC' | 'FAVORITES';
+export type SortOption = 'NEWEST' | 'OLDEST' | 'RARITY_DESC' | 'RARITY_ASC' | 'NAME_ASC' | 'NAME_DESC' | 'FAVORITES' | 'POWER';
 export type FilterOption = ElementType | Rarity | 'ALL' | 'FAVORITES' | 'NEW';
 
 export interface SavedLayout {
@@ -94,4 +379,60 @@ export interface SavedLayout {
   name: string;
   filter: FilterOption;
   sort: SortOption;
-}
\ No newline at end of file
+  powerRange?: PowerRange;
+}
+
+/** Inclusive bounds on the power rating shown in the collection */
+export interface PowerRange {
+  min: number;
+  max: number;
+}
+
+// Wild Encounter Types
+export type EncounterTrigger = 'APP_OPEN' | 'AFTER_GAME';
+
+/** A wild monster that got away, kept so the player can see what was missed */
+export interface EscapedMonster {
+  name: string;
+  type: ElementType;
+  rarity: Rarity;
+  isShiny: boolean;
+  score: number; // Catch round score, 0 when the player let it go
+  target: number;
+  escapedAt: number;
+}
+
+// Battle Types
+export type BattleSide = 0 | 1; // 0 is the player, 1 the opponent
+
+export interface BattleFighter {
+  card: MonsterCard;
+  hp: number;
+  maxHp: number;
+  energy: number;
+  shield: number; // Absorbs damage from the next hit
+  burn: { damage: number; turns: number } | null; // Damage taken at the start of each own turn
+  stunnedTurns: number; // Own turns still to be skipped
+  stunImmune: boolean; // Just sat out a stun, so the next turn can't be taken away too
+}
+
+export interface BattleState {
+  fighters: [BattleFighter, BattleFighter];
+  turn: BattleSide; // Whose move it is
+  turnCount: number; // Turns taken so far by both sides
+  winner: BattleSide | 'DRAW' | null;
+}
+
+export type BattleAction =
+  | { type: 'USE_MOVE'; moveIndex: number }
+  | { type: 'REST' };
+
+export type BattleEvent =
+  | { type: 'MOVE_USED'; side: BattleSide; moveIndex: number; damage: number; effectiveness: number; hits: number; blocked: number }
+  | { type: 'EFFECT_APPLIED'; side: BattleSide; effect: MoveEffect } // side is the fighter affected
+  | { type: 'BURN_DAMAGE'; side: BattleSide; damage: number }
+  | { type: 'TURN_SKIPPED'; side: BattleSide }
+  | { type: 'RESTED'; side: BattleSide; energy: number }
+  | { type: 'ENERGY_GAINED'; side: BattleSide; energy: number }
+  | { type: 'FAINTED'; side: BattleSide }
+  | { type: 'BATTLE_ENDED'; winner: BattleSide | 'DRAW' };
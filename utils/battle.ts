@@ -0,0 +1,239 @@
+/**
+ * Monster Battles
+ * Two cards take turns until one runs out of health. Every turn starts with
+ * energy; a move spends its cost in energy and deals its damage, scaled by the
+ * element chart, and resting skips the attack for extra energy. Moves can also
+ * heal, shield, burn, stun or hit several times. Like the block engine, applyBattleAction never
+ * mutates and reports what happened as events for the screen to animate.
+ */
+
+import { BattleAction, BattleEvent, BattleFighter, BattleSide, BattleState, MonsterCard, Move, MoveEffect } from '../types';
+import { BATTLE_CONFIG } from '../config/gameConfig';
+import { getEffectiveness } from './elements';
+
+export interface BattleActionResult {
+  state: BattleState;
+  events: BattleEvent[];
+}
+
+// =============================================================================
+// Moves
+// =============================================================================
+
+/** Damage of one hit before the element chart; "x2" moves are multiplied, "20+" moves add their bonus when energy is left over */
+export const getMoveDamage = (move: Move, hasSpareEnergy = false): number => {
+  const modifier = move.damageModifier;
+  const times = modifier?.kind === 'TIMES' ? modifier.value : 1;
+  const bonus = modifier?.kind === 'PLUS' && hasSpareEnergy ? modifier.value : 0;
+  return move.baseDamage * times + bonus;
+};
+
+export const getMoveEffect = (move: Move, type: MoveEffect['type']): MoveEffect | undefined =>
+  move.effects?.find(effect => effect.type === type);
+
+export const getMoveHits = (move: Move): number => getMoveEffect(move, 'MULTI_HIT')?.amount ?? 1;
+
+/** Damage of each hit once the element chart is applied */
+const getHitDamage = (move: Move, attacker: BattleFighter, defender: BattleFighter): number =>
+  Math.floor(getMoveDamage(move, attacker.energy > move.cost) * getEffectiveness(attacker.card.type, defender.card.type));
+
+/** Damage a move deals to the defender over all its hits, before any shield */
+export const getAttackDamage = (move: Move, attacker: BattleFighter, defender: BattleFighter): number =>
+  getHitDamage(move, attacker, defender) * getMoveHits(move);
+
+export const canAffordMove = (fighter: BattleFighter, move: Move): boolean => fighter.energy >= move.cost;
+
+// =============================================================================
+// Setup
+// =============================================================================
+
+const createFighter = (card: MonsterCard, energy: number): BattleFighter => ({
+  card,
+  hp: Math.max(1, card.hp),
+  maxHp: Math.max(1, card.hp),
+  energy,
+  shield: 0,
+  burn: null,
+  stunnedTurns: 0,
+  stunImmune: false
+});
+
+const gainEnergy = (fighter: BattleFighter, amount: number): BattleFighter =>
+  ({ ...fighter, energy: Math.min(BATTLE_CONFIG.MAX_ENERGY, fighter.energy + amount) });
+
+/** The player moves first and has the first turn's energy already */
+export const createBattle = (playerCard: MonsterCard, opponentCard: MonsterCard): BattleState => ({
+  fighters: [
+    createFighter(playerCard, BATTLE_CONFIG.START_ENERGY + BATTLE_CONFIG.ENERGY_PER_TURN),
+    createFighter(opponentCard, BATTLE_CONFIG.START_ENERGY)
+  ],
+  turn: 0,
+  turnCount: 0,
+  winner: null
+});
+
+export const otherSide = (side: BattleSide): BattleSide => side === 0 ? 1 : 0;
+
+// =============================================================================
+// Turns
+// =============================================================================
+
+const setFighter = (fighters: BattleState['fighters'], side: BattleSide, fighter: BattleFighter): BattleState['fighters'] =>
+  side === 0 ? [fighter, fighters[1]] : [fighters[0], fighter];
+
+/** Health left as a share of the maximum, used to settle fights that hit the turn limit */
+const healthShare = (fighter: BattleFighter): number => fighter.hp / fighter.maxHp;
+
+const faint = (state: BattleState, side: BattleSide, events: BattleEvent[]): BattleState => {
+  const winner = otherSide(side);
+  events.push({ type: 'FAINTED', side });
+  events.push({ type: 'BATTLE_ENDED', winner });
+  return { ...state, winner };
+};
+
+/** Burn ticks first; a stunned fighter then sits the turn out, everyone else gets their energy */
+const startTurn = (state: BattleState, events: BattleEvent[]): BattleState => {
+  const side = state.turn;
+  let fighter = state.fighters[side];
+
+  if (fighter.burn) {
+    const damage = Math.min(fighter.hp, fighter.burn.damage);
+    const turns = fighter.burn.turns - 1;
+    fighter = { ...fighter, hp: fighter.hp - damage, burn: turns > 0 ? { ...fighter.burn, turns } : null };
+    events.push({ type: 'BURN_DAMAGE', side, damage });
+    if (fighter.hp === 0) return faint({ ...state, fighters: setFighter(state.fighters, side, fighter) }, side, events);
+  }
+
+  if (fighter.stunnedTurns > 0) {
+    fighter = { ...fighter, stunnedTurns: fighter.stunnedTurns - 1, stunImmune: fighter.stunnedTurns === 1 };
+    events.push({ type: 'TURN_SKIPPED', side });
+    return endTurn({ ...state, fighters: setFighter(state.fighters, side, fighter) }, events);
+  }
+
+  fighter = gainEnergy({ ...fighter, stunImmune: false }, BATTLE_CONFIG.ENERGY_PER_TURN);
+  events.push({ type: 'ENERGY_GAINED', side, energy: fighter.energy });
+  return { ...state, fighters: setFighter(state.fighters, side, fighter) };
+};
+
+/** Hands the turn over, or ends the fight when the turn limit is reached */
+const endTurn = (state: BattleState, events: BattleEvent[]): BattleState => {
+  const turnCount = state.turnCount + 1;
+  if (turnCount >= BATTLE_CONFIG.MAX_TURNS) {
+    const [player, opponent] = state.fighters;
+    const diff = healthShare(player) - healthShare(opponent);
+    const winner: BattleState['winner'] = diff > 0 ? 0 : diff < 0 ? 1 : 'DRAW';
+    events.push({ type: 'BATTLE_ENDED', winner });
+    return { ...state, turnCount, winner };
+  }
+  return startTurn({ ...state, turn: otherSide(state.turn), turnCount }, events);
+};
+
+/** Heal and shield help the attacker, burn and stun land on the defender; returns null when the effect has nothing to do */
+const applyEffect = (attacker: BattleFighter, defender: BattleFighter, effect: MoveEffect): [BattleFighter, BattleFighter] | null => {
+  switch (effect.type) {
+    case 'HEAL':
+      return attacker.hp < attacker.maxHp ? [{ ...attacker, hp: Math.min(attacker.maxHp, attacker.hp + effect.amount) }, defender] : null;
+    case 'SHIELD':
+      return [{ ...attacker, shield: Math.max(attacker.shield, effect.amount) }, defender];
+    case 'BURN':
+      return [attacker, { ...defender, burn: { damage: effect.amount, turns: effect.turns ?? 1 } }];
+    case 'STUN':
+      return defender.stunImmune || defender.stunnedTurns > 0 ? null : [attacker, { ...defender, stunnedTurns: effect.amount }];
+    case 'MULTI_HIT':
+      return null; // Counted in the damage
+  }
+};
+
+const useMove = (state: BattleState, moveIndex: number, events: BattleEvent[]): BattleState => {
+  const side = state.turn;
+  const target = otherSide(side);
+  let attacker = state.fighters[side];
+  const move = attacker.card.moves[moveIndex];
+  if (!move || !canAffordMove(attacker, move)) return state;
+
+  let defender = state.fighters[target];
+  const hits = getMoveHits(move);
+  const hitDamage = getHitDamage(move, attacker, defender);
+  // The shield soaks up what it can of the first hit and then breaks
+  const blocked = hitDamage > 0 ? Math.min(defender.shield, hitDamage) : 0;
+  const damage = hitDamage * hits - blocked;
+  attacker = { ...attacker, energy: attacker.energy - move.cost };
+  defender = { ...defender, hp: Math.max(0, defender.hp - damage), shield: hitDamage > 0 ? 0 : defender.shield };
+  events.push({ type: 'MOVE_USED', side, moveIndex, damage, effectiveness: getEffectiveness(attacker.card.type, defender.card.type), hits, blocked });
+
+  if (defender.hp === 0) {
+    const fighters = setFighter(setFighter(state.fighters, side, attacker), target, defender);
+    return faint({ ...state, fighters, turnCount: state.turnCount + 1 }, target, events);
+  }
+
+  (move.effects ?? []).forEach(effect => {
+    const result = applyEffect(attacker, defender, effect);
+    if (!result) return;
+    [attacker, defender] = result;
+    events.push({ type: 'EFFECT_APPLIED', side: effect.type === 'HEAL' || effect.type === 'SHIELD' ? side : target, effect });
+  });
+
+  const fighters = setFighter(setFighter(state.fighters, side, attacker), target, defender);
+  return endTurn({ ...state, fighters }, events);
+};
+
+const rest = (state: BattleState, events: BattleEvent[]): BattleState => {
+  const fighter = gainEnergy(state.fighters[state.turn], BATTLE_CONFIG.REST_ENERGY);
+  events.push({ type: 'RESTED', side: state.turn, energy: fighter.energy });
+  return endTurn({ ...state, fighters: setFighter(state.fighters, state.turn, fighter) }, events);
+};
+
+/** Applies the move of whoever's turn it is; a finished fight or an unaffordable move changes nothing */
+export const applyBattleAction = (state: BattleState, action: BattleAction): BattleActionResult => {
+  if (state.winner !== null) return { state, events: [] };
+  const events: BattleEvent[] = [];
+  switch (action.type) {
+    case 'USE_MOVE':
+      return { state: useMove(state, action.moveIndex, events), events };
+    case 'REST':
+      return { state: rest(state, events), events };
+  }
+};
+
+// =============================================================================
+// Opponent
+// =============================================================================
+
+/** Rough worth of a move's effects, in damage, for the fight as it stands */
+const getEffectValue = (move: Move, attacker: BattleFighter, defender: BattleFighter): number =>
+  (move.effects ?? []).reduce((sum, effect) => {
+    switch (effect.type) {
+      case 'HEAL': return sum + Math.min(effect.amount, attacker.maxHp - attacker.hp);
+      case 'SHIELD': return sum + (attacker.shield === 0 ? effect.amount / 2 : 0);
+      case 'BURN': return sum + (defender.burn ? 0 : effect.amount * (effect.turns ?? 1));
+      case 'STUN': return sum + (defender.stunImmune || defender.stunnedTurns > 0 ? 0 : effect.amount * 20);
+      default: return sum;
+    }
+  }, 0);
+
+/**
+ * Finishes the fight when it can, otherwise picks the move with the most damage
+ * and effect value the energy allows. Saves up by resting when a move at least
+ * twice as good is one rest away.
+ */
+export const chooseBattleAction = (state: BattleState): BattleAction => {
+  const attacker = state.fighters[state.turn];
+  const defender = state.fighters[otherSide(state.turn)];
+  const moves = attacker.card.moves.map((move, moveIndex) => {
+    const damage = Math.max(0, getAttackDamage(move, attacker, defender) - defender.shield);
+    return { moveIndex, move, damage, value: damage + getEffectValue(move, attacker, defender) };
+  });
+  const affordable = moves.filter(m => canAffordMove(attacker, m.move));
+
+  const finisher = affordable
+    .filter(m => m.damage >= defender.hp)
+    .sort((a, b) => a.move.cost - b.move.cost)[0];
+  if (finisher) return { type: 'USE_MOVE', moveIndex: finisher.moveIndex };
+
+  const best = [...affordable].sort((a, b) => b.value - a.value)[0];
+  const strongest = [...moves].sort((a, b) => b.value - a.value)[0];
+  const energyAfterRest = Math.min(BATTLE_CONFIG.MAX_ENERGY, attacker.energy + BATTLE_CONFIG.REST_ENERGY + BATTLE_CONFIG.ENERGY_PER_TURN);
+  const isWorthSaving = !!strongest && strongest.move.cost <= energyAfterRest && strongest.value >= 2 * (best?.value ?? 0);
+  if (!best || best.value === 0 || (isWorthSaving && strongest !== best)) return { type: 'REST' };
+  return { type: 'USE_MOVE', moveIndex: best.moveIndex };
+};
@@ -0,0 +1,167 @@
+/**
+ * Block Game Bot
+ * Plays the engine headlessly with a pluggable strategy. Used by the balance
+ * simulator (scripts/simulate.ts) to measure how the current config plays out.
+ */
+
+import { BoardDefinition, GameAction, GameState, PowerUpType, TargetedPowerUpType } from '../types';
+import { getBlockGameRewards } from '../config/gameConfig';
+import { applyAction, createInitialState, getPowerUpAffectedCells, hasAvailableMove, DEFAULT_POWER_UPS, POWER_UP_TYPES } from './blockEngine';
+import { createRng, Rng } from './random';
+import { createDifficultyState } from './difficulty';
+import { listMoves, findBestMove, getMoveActions, HintMove } from './hints';
+import { isHole } from './cells';
+
+export type BotStrategyName = 'GREEDY' | 'LOOKAHEAD' | 'RANDOM';
+
+/** Picks the next placement, or null when nothing fits */
+export type BotStrategy = (state: GameState, rng: Rng) => HintMove | null;
+
+/** Candidates the lookahead strategy explores a second move for */
+const LOOKAHEAD_WIDTH = 6;
+/** Rating for a first move that leaves the known shapes with nowhere to go */
+const DEAD_END_RATING = -1000;
+
+// =============================================================================
+// Strategies
+// =============================================================================
+
+/** Rates the move after each of the best few candidates, using only the shapes already known */
+const lookahead: BotStrategy = (state) => {
+  const candidates = listMoves(state).sort((a, b) => b.rating - a.rating).slice(0, LOOKAHEAD_WIDTH);
+  let best: { move: HintMove, value: number } | null = null;
+
+  for (const move of candidates) {
+    let next = state;
+    let dealt = false;
+    for (const action of getMoveActions(move)) {
+      const result = applyAction(next, action);
+      next = result.state;
+      dealt = dealt || result.events.some(e => e.type === 'SHAPES_DEALT');
+    }
+    // A fresh deal is unknown to a fair player, so such a move counts double instead
+    const isTrayKnown = !dealt && next.shapes.length > 0;
+    const followUp = isTrayKnown ? findBestMove(next)?.rating ?? DEAD_END_RATING : move.rating;
+    const value = move.rating + followUp;
+    if (!best || value > best.value) best = { move, value };
+  }
+  return best?.move ?? null;
+};
+
+export const BOT_STRATEGIES: Record<BotStrategyName, BotStrategy> = {
+  GREEDY: (state) => findBestMove(state),
+  LOOKAHEAD: lookahead,
+  RANDOM: (state, rng) => {
+    const moves = listMoves(state);
+    return moves.length > 0 ? moves[Math.floor(rng.next() * moves.length)] : null;
+  }
+};
+
+// Power-ups the bot rates by how many blocks they remove
+const CLEARING_POWER_UPS: TargetedPowerUpType[] = ['BOMB', 'LINE', 'COLOR', 'SINGLE'];
+
+/** The clearing power-up target that removes the most blocks */
+const findBestClearingAction = (state: GameState): GameAction | null => {
+  const targeted = CLEARING_POWER_UPS.filter(type => state.powerUps[type] > 0);
+  let best: { action: GameAction, cleared: number } | null = null;
+  for (const powerUp of targeted) {
+    for (let r = 0; r < state.grid.length; r++) {
+      for (let c = 0; c < state.grid[r].length; c++) {
+        if (isHole(state.grid[r][c])) continue;
+        if ((powerUp === 'COLOR' || powerUp === 'SINGLE') && !state.grid[r][c]) continue;
+        const cleared = getPowerUpAffectedCells(state.grid, r, c, powerUp).filter(p => state.grid[p.r][p.c]).length;
+        if (!best || cleared > best.cleared) best = { action: { type: 'USE_POWER_UP', powerUp, r, c }, cleared };
+      }
+    }
+  }
+  return best?.action ?? null;
+};
+
+/** GRAVITY settles the whole board wherever it is aimed; SWAP and TRANSMUTE are tried on every slot */
+const listOtherRescueActions = (state: GameState): GameAction[] => {
+  const actions: GameAction[] = [];
+  if (state.powerUps.GRAVITY > 0) actions.push({ type: 'USE_POWER_UP', powerUp: 'GRAVITY', r: 0, c: 0 });
+  if (state.powerUps.SWAP > 0) {
+    for (let i = 0; i < state.shapes.length; i++) {
+      for (let j = i + 1; j < state.shapes.length; j++) actions.push({ type: 'USE_TRAY_POWER_UP', powerUp: 'SWAP', shapeIndices: [i, j] });
+    }
+  }
+  if (state.powerUps.TRANSMUTE > 0) {
+    state.shapes.forEach((_, i) => actions.push({ type: 'USE_TRAY_POWER_UP', powerUp: 'TRANSMUTE', shapeIndices: [i] }));
+  }
+  return actions;
+};
+
+/**
+ * What the bot does when stuck: a free refresh first, otherwise the first
+ * power-up that leaves a move open, trying the best clearing target before
+ * GRAVITY, SWAP and TRANSMUTE. When none does, the best clearing target
+ * still buys some room. Never buys anything.
+ */
+export const chooseRescueAction = (state: GameState): GameAction | null => {
+  if (state.powerUps.REFRESH > 0) return { type: 'REFRESH' };
+
+  const clearing = findBestClearingAction(state);
+  const candidates = [...(clearing ? [clearing] : []), ...listOtherRescueActions(state)];
+  const unsticking = candidates.find(action => {
+    const { state: next, events } = applyAction(state, action);
+    return !events.some(e => e.type === 'INVALID_ACTION') && hasAvailableMove(next);
+  });
+  return unsticking ?? clearing;
+};
+
+// =============================================================================
+// Game Loop
+// =============================================================================
+
+export interface BotGameResult {
+  seed: number;
+  score: number;
+  placements: number;
+  linesCleared: number;
+  powerUpsEarned: Record<PowerUpType, number>;
+  powerUpsUsed: number;
+  coins: number;
+  xp: number;
+}
+
+const emptyPowerUpCount = (): Record<PowerUpType, number> =>
+  Object.fromEntries(POWER_UP_TYPES.map(type => [type, 0])) as Record<PowerUpType, number>;
+
+/**
+ * Plays one free play game to the end. The seed fixes the deal; the bot's own
+ * choices (random strategy only) draw from a separate stream derived from it.
+ */
+export const playBotGame = (seed: number, strategy: BotStrategy, maxPlacements = 5000, playerLevel = 1, board?: BoardDefinition): BotGameResult => {
+  let state = createInitialState(DEFAULT_POWER_UPS, seed, createDifficultyState(playerLevel), board);
+  const botRng = createRng(seed ^ 0x5bd1e995);
+  const result: BotGameResult = {
+    seed, score: 0, placements: 0, linesCleared: 0,
+    powerUpsEarned: emptyPowerUpCount(), powerUpsUsed: 0, coins: 0, xp: 0
+  };
+
+  while (!state.isGameOver && result.placements < maxPlacements) {
+    const move = strategy(state, botRng);
+    const rescue = move ? null : chooseRescueAction(state);
+    const actions: GameAction[] = move ? getMoveActions(move) : rescue ? [rescue] : [];
+    // Power-ups that can't help would keep the engine in rescue mode forever, so the run ends here
+    if (actions.length === 0) break;
+
+    const before = state;
+    for (const action of actions) {
+      const { state: next, events } = applyAction(state, action);
+      state = next;
+      events.forEach(event => {
+        if (event.type === 'SHAPE_PLACED') result.placements++;
+        if (event.type === 'LINES_CLEARED') result.linesCleared += event.lines;
+        if (event.type === 'POWER_UP_REWARDED' || event.type === 'PRESENT_OPENED') result.powerUpsEarned[event.powerUp]++;
+        if (event.type === 'POWER_UP_USED' || event.type === 'TRAY_POWER_UP_USED') result.powerUpsUsed++;
+        if (event.type === 'SHAPES_DEALT' && event.reason === 'REFRESH') result.powerUpsUsed++;
+      });
+    }
+    if (state === before) break; // Nothing the bot can do changes the board any more
+  }
+
+  const rewards = getBlockGameRewards(state.score, 'FREE_PLAY', state.goldCollected);
+  return { ...result, score: state.score, coins: rewards.coins, xp: rewards.xp };
+};
@@ -0,0 +1,797 @@
+/**
+ * Block Game Engine
+ * Framework-free rules for the block puzzle: placement, line clears, combo/streak scoring,
+ * power-ups and game over. No React, timers or audio in here - the component dispatches
+ * actions and turns the returned events into animations and sounds.
+ */
+
+import {
+  GridCell,
+  Shape,
+  ShapeLayout,
+  PowerUpType,
+  TargetedPowerUpType,
+  TrayPowerUpType,
+  GameState,
+  GameAction,
+  GameEvent,
+  GameActionResult,
+  SavedGameSession,
+  DifficultyState,
+  BoardDefinition,
+  RunModifiers
+} from '../types';
+import { BLOCK_GAME_CONFIG, SPECIAL_CELL_CONFIG } from '../config/gameConfig';
+import { Rng, createRng, randomSeed, pickRandom, shuffle } from './random';
+import { getDifficultyWeights, recordClears } from './difficulty';
+import { clearLines, createSpecialCell, getCellColor, isHole, isLineFull, resolveHits, ClearResult, SPECIAL_CELL_KINDS } from './cells';
+import { createBoardGrid } from './boards';
+
+// =============================================================================
+// Static Data
+// =============================================================================
+
+// Christmas Palette: Santa Red, Pine Green, Gold, Ice Blue, Royal Purple
+export const COLORS = [
+  '#ef4444', // Red
+  '#15803d', // Green
+  '#eab308', // Gold
+  '#3b82f6', // Ice Blue
+  '#a855f7'  // Purple
+];
+
+export const JULE_WORDS = [
+    "GOD JUL!", "HO HO HO!", "NISSEFAR!", "JULEBRUS!",
+    "PEPPERKAKE!", "MARSIPAN!", "RIBBE!", "PINNEKJØTT!",
+    "MANDEL!", "GLØGG!", "JULERIBBE!", "SNØMANN!"
+];
+
+export type ShapeDifficulty = 'EASY' | 'MEDIUM' | 'HARD';
+
+// Expanded Shape Library
+export const SHAPES_TEMPLATES: { layout: ShapeLayout, id: string, difficulty: ShapeDifficulty }[] = [
+  { id: '1x1', layout: [[1]], difficulty: 'EASY' },
+  { id: '1x2', layout: [[1, 1]], difficulty: 'EASY' },
+  { id: '2x1', layout: [[1], [1]], difficulty: 'EASY' },
+  { id: '2x2', layout: [[1, 1], [1, 1]], difficulty: 'EASY' },
+  { id: 'Diag2', layout: [[1,0],[0,1]], difficulty: 'EASY' },
+
+  { id: '1x3', layout: [[1, 1, 1]], difficulty: 'MEDIUM' },
+  { id: '3x1', layout: [[1], [1], [1]], difficulty: 'MEDIUM' },
+  { id: 'L', layout: [[1, 0], [1, 0], [1, 1]], difficulty: 'MEDIUM' },
+  { id: 'L_inv', layout: [[0, 1], [0, 1], [1, 1]], difficulty: 'MEDIUM' },
+  { id: 'T', layout: [[1, 1, 1], [0, 1, 0]], difficulty: 'MEDIUM' },
+  { id: 'T_inv', layout: [[0, 1, 0], [1, 1, 1]], difficulty: 'MEDIUM' },
+  { id: 'Z', layout: [[1, 1, 0], [0, 1, 1]], difficulty: 'MEDIUM' },
+  { id: 'S', layout: [[0, 1, 1], [1, 1, 0]], difficulty: 'MEDIUM' },
+  { id: 'Diag3', layout: [[1,0,0],[0,1,0],[0,0,1]], difficulty: 'MEDIUM' },
+
+  { id: '3x3_L', layout: [[1, 0, 0], [1, 0, 0], [1, 1, 1]], difficulty: 'HARD' },
+  { id: 'Plus', layout: [[0, 1, 0], [1, 1, 1], [0, 1, 0]], difficulty: 'HARD' },
+  { id: 'U', layout: [[1, 0, 1], [1, 1, 1]], difficulty: 'HARD' },
+  { id: 'BigL', layout: [[1,0,0],[1,0,0],[1,1,1]], difficulty: 'HARD' }
+];
+
+export const POWER_UP_TYPES: PowerUpType[] = ['BOMB', 'LINE', 'COLOR', 'SINGLE', 'REFRESH', 'GRAVITY', 'SWAP', 'FREEZE', 'TRANSMUTE'];
+
+/** Aimed at a board cell; GRAVITY acts on the whole board wherever it is aimed */
+export const TARGETED_POWER_UP_TYPES: TargetedPowerUpType[] = ['BOMB', 'LINE', 'COLOR', 'SINGLE', 'GRAVITY'];
+
+/** Aimed at shapes in the tray */
+export const TRAY_POWER_UP_TYPES: TrayPowerUpType[] = ['SWAP', 'TRANSMUTE'];
+
+/** Dropped by big clears and presents. Kept to the original five so saved replays still play out the same */
+export const REWARD_POWER_UP_TYPES: PowerUpType[] = ['BOMB', 'LINE', 'COLOR', 'SINGLE', 'REFRESH'];
+
+/** Power-ups that can get a stuck board moving again; FREEZE only matters once a shape fits */
+export const RESCUE_POWER_UP_TYPES: PowerUpType[] = POWER_UP_TYPES.filter(type => type !== 'FREEZE');
+
+export const isTargetedPowerUp = (type: PowerUpType): type is TargetedPowerUpType =>
+  (TARGETED_POWER_UP_TYPES as PowerUpType[]).includes(type);
+
+export const isTrayPowerUp = (type: PowerUpType): type is TrayPowerUpType =>
+  (TRAY_POWER_UP_TYPES as PowerUpType[]).includes(type);
+
+export const DEFAULT_POWER_UPS: Record<PowerUpType, number> = {
+  BOMB: 1,
+  LINE: 1,
+  COLOR: 1,
+  SINGLE: 1,
+  REFRESH: 1,
+  GRAVITY: 1,
+  SWAP: 1,
+  FREEZE: 1,
+  TRANSMUTE: 1
+};
+
+/** For runs that are played without power-ups (puzzle levels, versus) */
+export const NO_POWER_UPS: Record<PowerUpType, number> = { BOMB: 0, LINE: 0, COLOR: 0, SINGLE: 0, REFRESH: 0, GRAVITY: 0, SWAP: 0, FREEZE: 0, TRANSMUTE: 0 };
+
+// =============================================================================
+// Grid & Shape Helpers
+// =============================================================================
+
+export const createEmptyGrid = (board?: BoardDefinition): GridCell[][] => createBoardGrid(board);
+
+// Rotate Matrix 90deg Clockwise
+export const rotateLayout = (layout: ShapeLayout): ShapeLayout => {
+  const rows = layout.length;
+  const cols = layout[0].length;
+  const newLayout: number[][] = Array(cols).fill(0).map(() => Array(rows).fill(0));
+
+  for(let r=0; r<rows; r++) {
+    for(let c=0; c<cols; c++) {
+      newLayout[c][rows - 1 - r] = layout[r][c];
+    }
+  }
+  return newLayout;
+};
+
+export const canPlaceShape = (grid: GridCell[][], shape: Shape, r: number, c: number): boolean => {
+  for (let i = 0; i < shape.layout.length; i++) {
+    for (let j = 0; j < shape.layout[i].length; j++) {
+      if (shape.layout[i][j] === 1) {
+        const nr = r + i;
+        const nc = c + j;
+        if (nr < 0 || nc < 0 || nr >= grid.length || nc >= grid[nr].length || grid[nr][nc] !== null) return false;
+      }
+    }
+  }
+  return true;
+};
+
+export const canPlaceShapeAnywhere = (grid: GridCell[][], shape: Shape): boolean => {
+  for (let r = 0; r < grid.length; r++) {
+    for (let c = 0; c < grid[r].length; c++) {
+      if (canPlaceShape(grid, shape, r, c)) return true;
+    }
+  }
+  return false;
+};
+
+export const canFitShapeWithRotation = (grid: GridCell[][], shape: Shape): boolean => {
+  let layout = shape.layout;
+  for (let i = 0; i < 4; i++) {
+    if (canPlaceShapeAnywhere(grid, { ...shape, layout })) return true;
+    layout = rotateLayout(layout);
+  }
+  return false;
+};
+
+/** Full rows and columns; holes don't count, so a line only needs its playable cells filled */
+export const findFullLines = (grid: GridCell[][]): { rows: number[], cols: number[] } => {
+  const rows: number[] = [];
+  const cols: number[] = [];
+  for (let i = 0; i < grid.length; i++) { if (isLineFull(grid[i])) rows.push(i); }
+  for (let j = 0; j < grid[0].length; j++) { if (isLineFull(grid.map(row => row[j]))) cols.push(j); }
+  return { rows, cols };
+};
+
+/** Lets every block fall as far as it can in its column; a hole holds up whatever is above it */
+export const applyGravity = (grid: GridCell[][]): GridCell[][] => {
+  const next = grid.map(row => [...row]);
+  for (let c = 0; c < next[0].length; c++) {
+    let floor = next.length - 1; // Lowest free cell the next block can land on
+    for (let r = next.length - 1; r >= 0; r--) {
+      const cell = next[r][c];
+      if (isHole(cell)) { floor = r - 1; continue; }
+      if (cell === null) continue;
+      if (floor !== r) {
+        next[floor][c] = cell;
+        next[r][c] = null;
+      }
+      floor--;
+    }
+  }
+  return next;
+};
+
+/** True if any tray shape (or the held shape) fits somewhere, in any rotation */
+export const hasAvailableMove = (state: GameState): boolean =>
+  state.shapes.some(s => canFitShapeWithRotation(state.grid, s))
+  || (state.holdShape ? canFitShapeWithRotation(state.grid, state.holdShape) : false);
+
+/** Rings a BOMB clears around its target; Fire cards add to it */
+export const getBombRadius = (state: GameState): number => 1 + (state.modifiers?.bombRadius ?? 0);
+
+/** Cells a power-up aimed at (r, c) would hit; holes are never part of it */
+export const getPowerUpAffectedCells = (
+  grid: GridCell[][],
+  r: number,
+  c: number,
+  type: PowerUpType,
+  bombRadius: number = 1
+): {r: number, c: number}[] => {
+  const rows = grid.length;
+  const cols = grid[0].length;
+  const affected: {r: number, c: number}[] = [];
+  if (type === 'GRAVITY') {
+      // Every block with open space below it
+      for (let j = 0; j < cols; j++) {
+          let hasGap = false;
+          for (let i = rows - 1; i >= 0; i--) {
+              const cell = grid[i][j];
+              if (isHole(cell)) hasGap = false;
+              else if (cell === null) hasGap = true;
+              else if (hasGap) affected.push({ r: i, c: j });
+          }
+      }
+      return affected;
+  }
+  if (isHole(grid[r]?.[c] ?? null)) return affected;
+  if (type === 'BOMB') {
+      for (let i = -bombRadius; i <= bombRadius; i++) {
+          for (let j = -bombRadius; j <= bombRadius; j++) {
+              const nr = r + i;
+              const nc = c + j;
+              if (nr >= 0 && nr < rows && nc >= 0 && nc < cols) affected.push({ r: nr, c: nc });
+          }
+      }
+  } else if (type === 'LINE') {
+      for (let i = 0; i < Math.max(rows, cols); i++) {
+          if (i < cols) affected.push({ r, c: i });
+          if (i < rows) affected.push({ r: i, c });
+      }
+  } else if (type === 'COLOR') {
+      const targetColor = getCellColor(grid[r][c]);
+      if (targetColor) {
+          for (let i = 0; i < rows; i++) {
+              for (let j = 0; j < cols; j++) {
+                  if (getCellColor(grid[i][j]) === targetColor) affected.push({ r: i, c: j });
+              }
+          }
+      }
+  } else if (type === 'SINGLE') {
+      affected.push({ r, c });
+  }
+  return affected.filter(cell => !isHole(grid[cell.r][cell.c]));
+};
+
+/**
+ * Deals a new tray of three shapes: one challenge, one connector and one safety piece.
+ * All randomness comes from the given generator, so a seed always produces the same trays.
+ * Bucket weights come from the run's difficulty settings and the current board.
+ */
+export const generateShapes = (
+  shapeCounter: number,
+  rng: Rng,
+  grid: GridCell[][] = createEmptyGrid(),
+  difficulty?: DifficultyState
+): { shapes: Shape[], shapeCounter: number } => {
+  const shuffledColors = shuffle(rng, COLORS);
+  const weights = getDifficultyWeights(grid, difficulty);
+
+  // Categorize shapes
+  const single = SHAPES_TEMPLATES.find(s => s.id === '1x1')!;
+  const small = SHAPES_TEMPLATES.filter(s => ['1x2', '2x1', 'Diag2'].includes(s.id));
+  const medium = SHAPES_TEMPLATES.filter(s => (s.difficulty === 'MEDIUM' || s.id === '2x2'));
+  const hard = SHAPES_TEMPLATES.filter(s => s.difficulty === 'HARD');
+
+  const drawTray = () => {
+    // Slot 1: Challenge
+    const pool1 = rng.next() < weights.hardChance ? hard : medium;
+    const s1 = pickRandom(rng, pool1);
+
+    // Slot 2: Connector
+    const pool2 = rng.next() < weights.mediumChance ? medium : small;
+    const s2 = pickRandom(rng, pool2);
+
+    // Slot 3: Safety
+    const probSingle = s1.difficulty === 'HARD' ? weights.singleAfterHard : weights.singleAfterMedium;
+    const s3 = rng.next() < probSingle ? single : pickRandom(rng, small);
+    return [s1, s2, s3];
+  };
+
+  let templates = drawTray();
+  if (difficulty?.guaranteePlayable) {
+    const isPlayable = () => templates.some(t => canFitShapeWithRotation(grid, { id: t.id, layout: t.layout, color: '' }));
+    for (let attempt = 1; attempt < BLOCK_GAME_CONFIG.DIFFICULTY.GUARANTEE_ATTEMPTS && !isPlayable(); attempt++) {
+      templates = drawTray();
+    }
+    // A single block fits any board that still has an empty cell
+    if (!isPlayable()) templates = [templates[0], templates[1], single];
+  }
+
+  const shuffledTemplates = shuffle(rng, templates);
+
+  let counter = shapeCounter;
+  const shapes = shuffledTemplates.map((template, i) => {
+      counter += 1;
+      return {
+          id: `shape-${counter}`,
+          layout: template.layout,
+          color: shuffledColors[i % shuffledColors.length],
+          templateId: template.id
+      };
+  });
+
+  return { shapes, shapeCounter: counter };
+};
+
+// =============================================================================
+// State Construction
+// =============================================================================
+
+export const createInitialState = (
+  powerUps: Record<PowerUpType, number> = DEFAULT_POWER_UPS,
+  seed: number = randomSeed(),
+  difficulty?: DifficultyState,
+  board?: BoardDefinition,
+  modifiers?: RunModifiers
+): GameState => {
+  const rng = createRng(seed);
+  const grid = createEmptyGrid(board);
+  const dealt = generateShapes(0, rng, grid, difficulty);
+  return {
+    grid,
+    shapes: dealt.shapes,
+    holdShape: null,
+    score: 0,
+    comboCount: 0,
+    streakCount: 0,
+    powerUps: { ...powerUps },
+    rescueMode: false,
+    isGameOver: false,
+    shapeCounter: dealt.shapeCounter,
+    seed,
+    rngState: rng.state,
+    difficulty,
+    board,
+    modifiers,
+    freeRefreshes: modifiers?.freeRefreshes || undefined,
+    streakFrozen: modifiers?.startFrozen || undefined
+  };
+};
+
+/** Moves tray dealing onto its own stream, so how the board is played never changes which shapes come next */
+export const withDealStream = (state: GameState): GameState => ({ ...state, dealRngState: (state.seed ^ 0x9e3779b9) >>> 0 });
+
+/** The session's own inventory wins; the given one only fills in for sessions saved before it was stored */
+export const restoreState = (session: SavedGameSession, powerUps: Record<PowerUpType, number> = DEFAULT_POWER_UPS): GameState => {
+  // Sessions saved before seeding was added continue on a fresh seed
+  const seed = session.seed ?? randomSeed();
+  const state: GameState = {
+    grid: session.grid,
+    shapes: session.shapes,
+    holdShape: session.holdShape,
+    score: session.score,
+    comboCount: session.comboCount,
+    streakCount: session.streakCount,
+    powerUps: { ...powerUps, ...session.powerUps },
+    rescueMode: session.rescueMode,
+    isGameOver: session.isGameOver,
+    shapeCounter: session.shapeCounter ?? 0,
+    seed,
+    rngState: session.rngState ?? seed,
+    dealRngState: session.dealRngState,
+    difficulty: session.difficulty,
+    goldCollected: session.goldCollected,
+    board: session.board,
+    streakFrozen: session.streakFrozen,
+    modifiers: session.modifiers,
+    freeRefreshes: session.freeRefreshes
+  };
+  if (state.shapes.length > 0) return state;
+  const rng = createRng(state.rngState);
+  return { ...dealIfEmpty(state, [], rng), rngState: rng.state };
+};
+
+export const toSavedSession = (state: GameState): SavedGameSession => ({
+  grid: state.grid,
+  shapes: state.shapes,
+  holdShape: state.holdShape,
+  score: state.score,
+  comboCount: state.comboCount,
+  streakCount: state.streakCount,
+  rescueMode: state.rescueMode,
+  isGameOver: state.isGameOver,
+  powerUps: state.powerUps,
+  shapeCounter: state.shapeCounter,
+  seed: state.seed,
+  rngState: state.rngState,
+  dealRngState: state.dealRngState,
+  difficulty: state.difficulty,
+  goldCollected: state.goldCollected,
+  board: state.board,
+  streakFrozen: state.streakFrozen,
+  modifiers: state.modifiers,
+  freeRefreshes: state.freeRefreshes
+});
+
+// =============================================================================
+// Action Handlers
+// =============================================================================
+
+const invalid = (state: GameState, action: GameAction, reason: Extract<GameEvent, { type: 'INVALID_ACTION' }>['reason']): GameActionResult => ({
+  state,
+  events: [{ type: 'INVALID_ACTION', action: action.type, reason }]
+});
+
+/** Scores gold and opens presents that a clear removed, and reports cracked ice */
+const applySpecialRewards = (state: GameState, cleared: ClearResult, events: GameEvent[], rng: Rng): GameState => {
+  let { score, powerUps, goldCollected = 0 } = state;
+  const bonus = state.modifiers?.specialPoints ?? 0;
+  if (cleared.cracked.length > 0) events.push({ type: 'ICE_CRACKED', cells: cleared.cracked });
+  if (cleared.gold.length > 0) {
+    const points = cleared.gold.length * (SPECIAL_CELL_CONFIG.GOLD_POINTS + bonus);
+    score += points;
+    goldCollected += cleared.gold.length;
+    events.push({ type: 'GOLD_COLLECTED', ...cleared.gold[0], count: cleared.gold.length, points });
+    events.push({ type: 'SCORED', source: 'GOLD', base: cleared.gold.length, points });
+  }
+  cleared.presents.forEach(cell => {
+    const powerUp = pickRandom(rng, REWARD_POWER_UP_TYPES);
+    powerUps = { ...powerUps, [powerUp]: powerUps[powerUp] + 1 };
+    const points = SPECIAL_CELL_CONFIG.PRESENT_POINTS + bonus;
+    score += points;
+    events.push({ type: 'PRESENT_OPENED', ...cell, powerUp, points });
+    events.push({ type: 'SCORED', source: 'PRESENT', base: 1, points });
+  });
+  return { ...state, score, powerUps, goldCollected };
+};
+
+/**
+ * Counts down the run's spawn timer and drops a special cell on the board when it runs out.
+ * Only cells with room around them are picked, so a spawn never completes a line by itself.
+ */
+const spawnSpecialCell = (state: GameState, events: GameEvent[], rng: Rng): GameState => {
+  const { difficulty } = state;
+  if (!difficulty?.spawnInterval) return state;
+  const countdown = (difficulty.spawnCountdown ?? difficulty.spawnInterval) - 1;
+  if (countdown > 0) return { ...state, difficulty: { ...difficulty, spawnCountdown: countdown } };
+
+  const reset = { ...state, difficulty: { ...difficulty, spawnCountdown: difficulty.spawnInterval } };
+  const emptyInRow = state.grid.map(row => row.filter(cell => cell === null).length);
+  const emptyInCol = state.grid[0].map((_, c) => state.grid.filter(row => row[c] === null).length);
+  const candidates: { r: number, c: number }[] = [];
+  state.grid.forEach((row, r) => row.forEach((cell, c) => {
+    if (cell === null && emptyInRow[r] > 1 && emptyInCol[c] > 1) candidates.push({ r, c });
+  }));
+  if (candidates.length === 0) return reset;
+
+  const { r, c } = pickRandom(rng, candidates);
+  const weights = SPECIAL_CELL_CONFIG.SPAWN_WEIGHTS;
+  let roll = rng.next() * SPECIAL_CELL_KINDS.reduce((sum, kind) => sum + weights[kind], 0);
+  const kind = SPECIAL_CELL_KINDS.find(k => (roll -= weights[k]) < 0) ?? 'COAL';
+
+  const grid = state.grid.map(row => [...row]);
+  grid[r][c] = createSpecialCell(kind);
+  events.push({ type: 'CELL_SPAWNED', r, c, kind });
+  return { ...reset, grid };
+};
+
+/**
+ * Draws the next tray. Runs with their own deal stream (versus, the daily challenge) draw from it,
+ * so what happens on the board never changes which shapes come next.
+ */
+const dealShapes = (state: GameState, rng: Rng): { shapes: Shape[], shapeCounter: number, dealRngState?: number } => {
+  if (state.dealRngState === undefined) return generateShapes(state.shapeCounter, rng, state.grid, state.difficulty);
+  const dealRng = createRng(state.dealRngState);
+  const dealt = generateShapes(state.shapeCounter, dealRng, state.grid, state.difficulty);
+  return { ...dealt, dealRngState: dealRng.state };
+};
+
+/** Deals a fresh tray when the last shape has been used up */
+const dealIfEmpty = (state: GameState, events: GameEvent[], rng: Rng): GameState => {
+  if (state.shapes.length > 0) return state;
+  if (state.shapeQueue) {
+    // Puzzle levels deal from their fixed queue and simply run dry
+    if (state.shapeQueue.length === 0) return state;
+    events.push({ type: 'SHAPES_DEALT', reason: 'TRAY_EMPTY' });
+    return { ...state, shapes: state.shapeQueue.slice(0, 3), shapeQueue: state.shapeQueue.slice(3) };
+  }
+  events.push({ type: 'SHAPES_DEALT', reason: 'TRAY_EMPTY' });
+  return { ...state, ...dealShapes(state, rng) };
+};
+
+const placeShape = (state: GameState, action: Extract<GameAction, { type: 'PLACE' }>): GameActionResult => {
+  const { shapeIndex, r, c } = action;
+  const shape = state.shapes[shapeIndex];
+  if (!shape) return invalid(state, action, 'NO_SHAPE');
+  if (!canPlaceShape(state.grid, shape, r, c)) return invalid(state, action, 'BLOCKED');
+
+  const events: GameEvent[] = [];
+  const rng = createRng(state.rngState);
+  const placedGrid = state.grid.map(row => [...row]);
+  let placedCount = 0;
+  for (let i = 0; i < shape.layout.length; i++) {
+    for (let j = 0; j < shape.layout[i].length; j++) {
+      if (shape.layout[i][j] === 1) {
+        placedGrid[r + i][c + j] = shape.color;
+        placedCount++;
+      }
+    }
+  }
+
+  const { rows, cols } = findFullLines(placedGrid);
+  const totalLines = rows.length + cols.length;
+
+  const modifiers = state.modifiers;
+  let points = placedCount * (BLOCK_GAME_CONFIG.POINTS_PER_BLOCK + (modifiers?.blockPoints ?? 0));
+  events.push({ type: 'SHAPE_PLACED', r, c, points });
+  events.push({ type: 'SCORED', source: 'BLOCKS', base: placedCount, points });
+  let next: GameState = {
+    ...state,
+    shapes: state.shapes.filter((_, i) => i !== shapeIndex),
+    difficulty: state.difficulty && recordClears(state.difficulty, totalLines)
+  };
+
+  if (totalLines > 0) {
+    const combo = state.comboCount + 1;
+    const streak = state.streakCount + 1;
+
+    const linePoints = totalLines * BLOCK_GAME_CONFIG.POINTS_PER_LINE;
+    const multiLineMultiplier = totalLines > 3 ? 3 : (totalLines > 1 ? totalLines * 0.8 : 1);
+    const comboMultiplier = 1 + (combo * (0.2 + (modifiers?.comboBonus ?? 0)));
+    const streakMultiplier = 1 + (streak * (0.1 + (modifiers?.streakBonus ?? 0)));
+    const cardMultiplier = 1 + (modifiers?.lineBonus ?? 0);
+    const lineBonus = Math.floor(linePoints * multiLineMultiplier * comboMultiplier * streakMultiplier * cardMultiplier);
+    points += lineBonus;
+    const scored: GameEvent = {
+      type: 'SCORED',
+      source: 'LINES',
+      base: linePoints,
+      points: lineBonus,
+      multipliers: { multiLine: multiLineMultiplier, combo: comboMultiplier, streak: streakMultiplier, cards: cardMultiplier }
+    };
+
+    const cleared = clearLines(placedGrid, rows, cols);
+
+    events.push({
+      type: 'LINES_CLEARED',
+      r, c, rows, cols, placedGrid,
+      cells: cleared.removed,
+      lines: totalLines,
+      points: lineBonus,
+      combo,
+      streak,
+      word: pickRandom(rng, JULE_WORDS)
+    });
+    events.push(scored);
+
+    let powerUps = state.powerUps;
+    if (totalLines >= 3 || combo >= 4 || streak >= 5) {
+      const reward = pickRandom(rng, REWARD_POWER_UP_TYPES);
+      powerUps = { ...powerUps, [reward]: powerUps[reward] + 1 };
+      events.push({ type: 'POWER_UP_REWARDED', r, c, powerUp: reward });
+    }
+
+    next = applySpecialRewards(
+      { ...next, grid: cleared.grid, powerUps, comboCount: combo, streakCount: streak, score: state.score + points },
+      cleared, events, rng
+    );
+  } else if (state.streakFrozen && state.streakCount > 0) {
+    // FREEZE spends itself here and the streak carries on
+    events.push({ type: 'STREAK_SAVED', r, c });
+    next = { ...next, grid: placedGrid, comboCount: 0, streakFrozen: false, score: state.score + points };
+  } else {
+    if (state.streakCount > 0) events.push({ type: 'STREAK_BROKEN', r, c });
+    next = { ...next, grid: placedGrid, comboCount: 0, streakCount: 0, score: state.score + points };
+  }
+
+  next = spawnSpecialCell(next, events, rng);
+  next = dealIfEmpty(next, events, rng);
+  return { state: { ...next, rngState: rng.state }, events };
+};
+
+const rotateShape = (state: GameState, action: Extract<GameAction, { type: 'ROTATE' }>): GameActionResult => {
+  const shape = state.shapes[action.shapeIndex];
+  if (!shape) return invalid(state, action, 'NO_SHAPE');
+  const shapes = state.shapes.map((s, i) => i === action.shapeIndex ? { ...s, layout: rotateLayout(s.layout) } : s);
+  return { state: { ...state, shapes }, events: [{ type: 'SHAPE_ROTATED', shapeIndex: action.shapeIndex }] };
+};
+
+const holdShape = (state: GameState, action: Extract<GameAction, { type: 'HOLD' }>): GameActionResult => {
+  const shape = state.shapes[action.shapeIndex];
+  if (!shape) return invalid(state, action, 'NO_SHAPE');
+
+  const events: GameEvent[] = [{ type: 'SHAPE_HELD', shapeIndex: action.shapeIndex, swapped: state.holdShape !== null }];
+  const shapes = state.holdShape
+    ? state.shapes.map((s, i) => i === action.shapeIndex ? state.holdShape! : s)
+    : state.shapes.filter((_, i) => i !== action.shapeIndex);
+
+  const rng = createRng(state.rngState);
+  const next = dealIfEmpty({ ...state, shapes, holdShape: shape }, events, rng);
+  return { state: { ...next, rngState: rng.state }, events };
+};
+
+/** Drops every block down, then clears whatever lines that completed. Combo and streak are left alone */
+const useGravity = (state: GameState, action: Extract<GameAction, { type: 'USE_POWER_UP' }>): GameActionResult => {
+  const { r, c } = action;
+  if (getPowerUpAffectedCells(state.grid, r, c, 'GRAVITY').length === 0) return invalid(state, action, 'EMPTY_TARGET');
+
+  const settled = applyGravity(state.grid);
+  const events: GameEvent[] = [{ type: 'POWER_UP_USED', powerUp: 'GRAVITY', r, c, cells: [], points: 0 }];
+  const rng = createRng(state.rngState);
+  let next: GameState = {
+    ...state,
+    grid: settled,
+    powerUps: { ...state.powerUps, GRAVITY: state.powerUps.GRAVITY - 1 },
+    rescueMode: false
+  };
+
+  const { rows, cols } = findFullLines(settled);
+  const lines = rows.length + cols.length;
+  if (lines > 0) {
+    const cleared = clearLines(settled, rows, cols);
+    const points = lines * BLOCK_GAME_CONFIG.POINTS_PER_LINE;
+    events.push({
+      type: 'LINES_CLEARED',
+      r, c, rows, cols,
+      placedGrid: settled,
+      cells: cleared.removed,
+      lines,
+      points,
+      combo: state.comboCount,
+      streak: state.streakCount,
+      word: pickRandom(rng, JULE_WORDS)
+    });
+    events.push({ type: 'SCORED', source: 'LINES', base: points, points });
+    next = applySpecialRewards({ ...next, grid: cleared.grid, score: state.score + points }, cleared, events, rng);
+  }
+  return { state: { ...next, rngState: rng.state }, events };
+};
+
+const usePowerUp = (state: GameState, action: Extract<GameAction, { type: 'USE_POWER_UP' }>): GameActionResult => {
+  const { powerUp, r, c } = action;
+  if (state.powerUps[powerUp] <= 0) return invalid(state, action, 'NO_POWER_UP');
+  if (powerUp === 'GRAVITY') return useGravity(state, action);
+  if (isHole(state.grid[r][c])) return invalid(state, action, 'EMPTY_TARGET');
+  if ((powerUp === 'COLOR' || powerUp === 'SINGLE') && !state.grid[r][c]) return invalid(state, action, 'EMPTY_TARGET');
+
+  // Power-ups hit from every side, so a present opens and ice cracks in one go
+  const affected = getPowerUpAffectedCells(state.grid, r, c, powerUp, getBombRadius(state));
+  const cleared = resolveHits(state.grid, affected.map(cell => ({ ...cell, fromRow: true, fromCol: true })));
+  const events: GameEvent[] = [];
+  const rng = createRng(state.rngState);
+
+  const points = cleared.removed.length * 20;
+  events.push({ type: 'POWER_UP_USED', powerUp, r, c, cells: cleared.removed, points });
+  if (points > 0) events.push({ type: 'SCORED', source: 'POWER_UP', base: cleared.removed.length, points });
+  const next = applySpecialRewards({
+    ...state,
+    grid: cleared.grid,
+    score: state.score + points,
+    powerUps: { ...state.powerUps, [powerUp]: state.powerUps[powerUp] - 1 },
+    rescueMode: false
+  }, cleared, events, rng);
+  return { state: { ...next, rngState: rng.state }, events };
+};
+
+const refreshShapes = (state: GameState, action: Extract<GameAction, { type: 'REFRESH' }>): GameActionResult => {
+  // Free refreshes from Water cards are spent before the inventory
+  const freeRefreshes = state.freeRefreshes ?? 0;
+  const isFree = !action.purchased && freeRefreshes > 0;
+  if (!action.purchased && !isFree && state.powerUps.REFRESH <= 0) return invalid(state, action, 'NO_POWER_UP');
+  if (state.shapeQueue) return invalid(state, action, 'NO_POWER_UP'); // A fixed queue can't be rerolled
+  const rng = createRng(state.rngState);
+  return {
+    state: {
+      ...state,
+      ...dealShapes(state, rng),
+      rngState: rng.state,
+      powerUps: action.purchased || isFree ? state.powerUps : { ...state.powerUps, REFRESH: state.powerUps.REFRESH - 1 },
+      freeRefreshes: isFree ? freeRefreshes - 1 : state.freeRefreshes,
+      rescueMode: false
+    },
+    events: [{ type: 'SHAPES_DEALT', reason: 'REFRESH' }]
+  };
+};
+
+/** SWAP rerolls two tray slots, TRANSMUTE shrinks one shape to a single block */
+const useTrayPowerUp = (state: GameState, action: Extract<GameAction, { type: 'USE_TRAY_POWER_UP' }>): GameActionResult => {
+  const { powerUp, shapeIndices } = action;
+  if (state.powerUps[powerUp] <= 0) return invalid(state, action, 'NO_POWER_UP');
+  const slots = powerUp === 'SWAP' ? 2 : 1;
+  if (shapeIndices.length !== slots || new Set(shapeIndices).size !== slots || shapeIndices.some(i => !state.shapes[i])) {
+    return invalid(state, action, 'NO_SHAPE');
+  }
+
+  const powerUps = { ...state.powerUps, [powerUp]: state.powerUps[powerUp] - 1 };
+  const events: GameEvent[] = [{ type: 'TRAY_POWER_UP_USED', powerUp, shapeIndices }];
+  if (powerUp === 'TRANSMUTE') {
+    const shapes = state.shapes.map((s, i) => shapeIndices.includes(i) ? { ...s, layout: [[1]], templateId: '1x1' } : s);
+    return { state: { ...state, shapes, powerUps, rescueMode: false }, events };
+  }
+
+  if (state.shapeQueue) return invalid(state, action, 'NO_POWER_UP'); // A fixed queue can't be rerolled
+  const rng = createRng(state.rngState);
+  const dealt = dealShapes(state, rng);
+  const shapes = state.shapes.map((s, i) => shapeIndices.includes(i) ? dealt.shapes[shapeIndices.indexOf(i)] : s);
+  return {
+    state: { ...state, ...dealt, shapes, rngState: rng.state, powerUps, rescueMode: false },
+    events
+  };
+};
+
+const freezeStreak = (state: GameState, action: Extract<GameAction, { type: 'FREEZE' }>): GameActionResult => {
+  if (!action.purchased && state.powerUps.FREEZE <= 0) return invalid(state, action, 'NO_POWER_UP');
+  if (state.streakFrozen) return invalid(state, action, 'ALREADY_ACTIVE');
+  return {
+    state: {
+      ...state,
+      streakFrozen: true,
+      powerUps: action.purchased ? state.powerUps : { ...state.powerUps, FREEZE: state.powerUps.FREEZE - 1 }
+    },
+    events: [{ type: 'STREAK_FROZEN' }]
+  };
+};
+
+/**
+ * Versus: pushes the board up and fills the bottom with coal rows, each with one random gap.
+ * Blocks pushed off the top end the run.
+ */
+const addGarbage = (state: GameState, action: Extract<GameAction, { type: 'ADD_GARBAGE' }>): GameActionResult => {
+  const rows = Math.min(action.rows, state.grid.length);
+  if (rows <= 0) return { state, events: [] };
+
+  // Holes stay where they are: garbage and shifted blocks only go into playable cells,
+  // and a block pushed off the top or into a hole tops the board out
+  const rng = createRng(state.rngState);
+  const height = state.grid.length;
+  const isFilled = (cell: GridCell) => cell !== null && !isHole(cell);
+  const toppedOut = state.grid.some((row, r) => row.some((cell, c) =>
+    isFilled(cell) && (r < rows || isHole(state.grid[r - rows][c]))));
+  const grid = state.grid.map((row, r) => {
+    const source = r + rows;
+    if (source < height) return row.map((cell, c) => isHole(cell) ? cell : (isHole(state.grid[source][c]) ? null : state.grid[source][c]));
+    const playable = row.map((cell, c) => isHole(cell) ? -1 : c).filter(c => c >= 0);
+    const gap = playable.length > 0 ? playable[Math.floor(rng.next() * playable.length)] : -1;
+    return row.map((cell, c) => isHole(cell) ? cell : (c === gap ? null : createSpecialCell('COAL')));
+  });
+  const events: GameEvent[] = [{ type: 'GARBAGE_ADDED', rows }];
+  let next: GameState = { ...state, grid, rngState: rng.state };
+  if (toppedOut) {
+    next = { ...next, isGameOver: true };
+    events.push({ type: 'GAME_OVER', score: state.score });
+  }
+  return { state: next, events };
+};
+
+const checkStuck = (state: GameState, action: Extract<GameAction, { type: 'CHECK_STUCK' }>): GameActionResult => {
+  if (hasAvailableMove(state)) {
+    return state.rescueMode
+      ? { state: { ...state, rescueMode: false }, events: [{ type: 'RESCUE_ENDED' }] }
+      : { state, events: [] };
+  }
+
+  const hasPowerUps = RESCUE_POWER_UP_TYPES.some(type => state.powerUps[type] > 0) || (state.freeRefreshes ?? 0) > 0;
+  if (hasPowerUps || action.canBuyPowerUp) {
+    return { state: { ...state, rescueMode: true }, events: [{ type: 'RESCUE_STARTED' }] };
+  }
+  return { state: { ...state, rescueMode: false, isGameOver: true }, events: [{ type: 'GAME_OVER', score: state.score }] };
+};
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Applies a single player action to the game state.
+ * Never mutates the input; rejected actions return the same state with an INVALID_ACTION event.
+ */
+export const applyAction = (state: GameState, action: GameAction): GameActionResult => {
+  if (state.isGameOver) return invalid(state, action, 'GAME_OVER');
+
+  switch (action.type) {
+    case 'PLACE': return placeShape(state, action);
+    case 'ROTATE': return rotateShape(state, action);
+    case 'HOLD': return holdShape(state, action);
+    case 'USE_POWER_UP': return usePowerUp(state, action);
+    case 'USE_TRAY_POWER_UP': return useTrayPowerUp(state, action);
+    case 'REFRESH': return refreshShapes(state, action);
+    case 'FREEZE': return freezeStreak(state, action);
+    case 'ADD_GARBAGE': return addGarbage(state, action);
+    case 'GRANT_POWER_UP':
+      return {
+        state: { ...state, powerUps: { ...state.powerUps, [action.powerUp]: state.powerUps[action.powerUp] + 1 } },
+        events: []
+      };
+    case 'SYNC_POWER_UPS': return { state: { ...state, powerUps: { ...action.powerUps } }, events: [] };
+    case 'CHECK_STUCK': return checkStuck(state, action);
+    case 'TIME_UP':
+      // Timed modes end the run from outside; the engine itself has no clock
+      return { state: { ...state, rescueMode: false, isGameOver: true }, events: [{ type: 'GAME_OVER', score: state.score }] };
+    default: return { state, events: [] };
+  }
+};
@@ -0,0 +1,57 @@
+/**
+ * Board Shapes
+ * The playing fields a block game can run on: square boards in a few sizes,
+ * a wide one and masked boards whose holes are filled in with HOLE cells.
+ * A run keeps its board definition, so saves and replays rebuild the same field.
+ */
+
+import { BoardDefinition, GridCell } from '../types';
+import { BLOCK_GAME_CONFIG } from '../config/gameConfig';
+import { createSpecialCell } from './cells';
+
+export const CLASSIC_BOARD: BoardDefinition = {
+  id: 'CLASSIC',
+  name: 'Klassisk',
+  rows: BLOCK_GAME_CONFIG.GRID_SIZE,
+  cols: BLOCK_GAME_CONFIG.GRID_SIZE
+};
+
+export const BOARDS: BoardDefinition[] = [
+  CLASSIC_BOARD,
+  { id: 'SMALL', name: 'Liten', rows: 6, cols: 6 },
+  { id: 'LARGE', name: 'Stor', rows: 10, cols: 10 },
+  { id: 'WIDE', name: 'Bred', rows: 7, cols: 10 },
+  {
+    id: 'TREE',
+    name: 'Juletre',
+    rows: 10,
+    cols: 9,
+    mask: [
+      '...###...',
+      '..#####..',
+      '.#######.',
+      '..#####..',
+      '.#######.',
+      '#########',
+      '.#######.',
+      '#########',
+      '...###...',
+      '...###...'
+    ]
+  }
+];
+
+/** Falls back to the classic board for unknown or retired ids */
+export const getBoard = (id: string | null | undefined): BoardDefinition =>
+  BOARDS.find(board => board.id === id) ?? CLASSIC_BOARD;
+
+/** Short label such as "Juletre 9×10" (columns first, as seen on screen) */
+export const describeBoard = (board: BoardDefinition): string => `${board.name} ${board.cols}×${board.rows}`;
+
+export const isPlayableCell = (board: BoardDefinition, r: number, c: number): boolean =>
+  !board.mask || board.mask[r]?.[c] === '#';
+
+/** An empty grid for the board, with holes already in place */
+export const createBoardGrid = (board: BoardDefinition = CLASSIC_BOARD): GridCell[][] =>
+  Array(board.rows).fill(null).map((_, r) =>
+    Array(board.cols).fill(null).map((__, c) => isPlayableCell(board, r, c) ? null : createSpecialCell('HOLE')));
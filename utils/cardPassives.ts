@@ -0,0 +1,82 @@
+/**
+ * Card Passives
+ * Cards equipped before a block run each give a passive bonus picked by their
+ * element and scaled by their rarity. The bonuses are folded into one
+ * RunModifiers object that the engine reads for the whole run.
+ */
+
+import { ElementType, MonsterCard, RunModifiers } from '../types';
+import { CARD_PASSIVE_TIERS, CARD_PASSIVE_STRONG_TIER, MAX_EQUIPPED_CARDS } from '../constants';
+
+export const NO_MODIFIERS: RunModifiers = {
+  bombRadius: 0,
+  freeRefreshes: 0,
+  streakBonus: 0,
+  comboBonus: 0,
+  lineBonus: 0,
+  blockPoints: 0,
+  specialPoints: 0,
+  startFrozen: false
+};
+
+interface ElementPassive {
+  describe: (tier: number) => string;
+  apply: (modifiers: RunModifiers, tier: number) => RunModifiers;
+}
+
+const isStrong = (tier: number): boolean => tier >= CARD_PASSIVE_STRONG_TIER;
+
+const ELEMENT_PASSIVES: Record<ElementType, ElementPassive> = {
+  [ElementType.Fire]: {
+    describe: tier => `💣 sprenger ${isStrong(tier) ? '2 ringer' : '1 ring'} ekstra`,
+    apply: (m, tier) => ({ ...m, bombRadius: m.bombRadius + (isStrong(tier) ? 2 : 1) })
+  },
+  [ElementType.Water]: {
+    describe: tier => `${isStrong(tier) ? 2 : 1} gratis 🔄 per runde`,
+    apply: (m, tier) => ({ ...m, freeRefreshes: m.freeRefreshes + (isStrong(tier) ? 2 : 1) })
+  },
+  [ElementType.Electric]: {
+    describe: tier => `+${tier * 2}% streak-bonus per steg`,
+    apply: (m, tier) => ({ ...m, streakBonus: m.streakBonus + tier * 0.02 })
+  },
+  [ElementType.Psychic]: {
+    describe: tier => `+${tier * 4}% kombo-bonus per steg`,
+    apply: (m, tier) => ({ ...m, comboBonus: m.comboBonus + tier * 0.04 })
+  },
+  [ElementType.Dark]: {
+    describe: tier => `+${tier * 3}% kombo-bonus per steg`,
+    apply: (m, tier) => ({ ...m, comboBonus: m.comboBonus + tier * 0.03 })
+  },
+  [ElementType.Grass]: {
+    describe: tier => `+${tier} poeng per blokk`,
+    apply: (m, tier) => ({ ...m, blockPoints: m.blockPoints + tier })
+  },
+  [ElementType.Dragon]: {
+    describe: tier => `+${tier * 5}% linjepoeng`,
+    apply: (m, tier) => ({ ...m, lineBonus: m.lineBonus + tier * 0.05 })
+  },
+  [ElementType.Fairy]: {
+    describe: tier => `+${tier * 20} poeng for gull og gaver`,
+    apply: (m, tier) => ({ ...m, specialPoints: m.specialPoints + tier * 20 })
+  },
+  [ElementType.Steel]: {
+    describe: () => 'Starter runden med frosset streak',
+    apply: m => ({ ...m, startFrozen: true })
+  }
+};
+
+export const describeCardPassive = (card: MonsterCard): string =>
+  ELEMENT_PASSIVES[card.type].describe(CARD_PASSIVE_TIERS[card.rarity]);
+
+/** Equipped ids that still point at a card in the collection, in equip order */
+export const resolveEquippedCards = (cards: MonsterCard[], ids: string[]): MonsterCard[] =>
+  ids.map(id => cards.find(card => card.id === id)).filter((card): card is MonsterCard => !!card).slice(0, MAX_EQUIPPED_CARDS);
+
+/** Modifiers for a run with these cards; undefined without cards, so such runs match older ones */
+export const buildRunModifiers = (cards: MonsterCard[]): RunModifiers | undefined => {
+  if (cards.length === 0) return undefined;
+  return cards.slice(0, MAX_EQUIPPED_CARDS).reduce(
+    (modifiers, card) => ELEMENT_PASSIVES[card.type].apply(modifiers, CARD_PASSIVE_TIERS[card.rarity]),
+    NO_MODIFIERS
+  );
+};
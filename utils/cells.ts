@@ -0,0 +1,87 @@
+/**
+ * Special Cells
+ * Rules for grid cells that are more than a colored block: ice that takes two
+ * clears, presents that open once their row and column have both cleared,
+ * gold worth bonus coins and coal that the board spawns over time. Holes mark
+ * the cells a shaped board leaves out; nothing can be placed on or clear them.
+ */
+
+import { BlockColor, CellRef, GridCell, SpecialCell, SpecialCellKind } from '../types';
+
+export const SPECIAL_CELL_COLORS: Record<SpecialCellKind, BlockColor> = {
+  ICE: '#bae6fd',
+  PRESENT: '#f43f5e',
+  GOLD: '#facc15',
+  COAL: '#334155',
+  HOLE: 'transparent'
+};
+
+/** Kinds the board can spawn; holes only come from the board shape */
+export const SPECIAL_CELL_KINDS: Exclude<SpecialCellKind, 'HOLE'>[] = ['COAL', 'ICE', 'GOLD', 'PRESENT'];
+
+export const createSpecialCell = (kind: SpecialCellKind): SpecialCell => ({ kind, color: SPECIAL_CELL_COLORS[kind] });
+
+export const isSpecialCell = (cell: GridCell): cell is SpecialCell => cell !== null && typeof cell === 'object';
+
+export const isHole = (cell: GridCell): boolean => isSpecialCell(cell) && cell.kind === 'HOLE';
+
+export const getCellColor = (cell: GridCell): BlockColor | null => isSpecialCell(cell) ? cell.color : cell;
+
+/**
+ * What is left of a cell after a clear passes through it.
+ * Row and column matter only for presents; power-ups hit from both directions.
+ */
+export const hitCell = (cell: GridCell, fromRow: boolean, fromCol: boolean): GridCell => {
+  if (!isSpecialCell(cell)) return null;
+  switch (cell.kind) {
+    case 'HOLE': return cell;
+    case 'ICE': return cell.cracked ? null : { ...cell, cracked: true };
+    case 'PRESENT': {
+      const rowCleared = !!cell.rowCleared || fromRow;
+      const colCleared = !!cell.colCleared || fromCol;
+      return rowCleared && colCleared ? null : { ...cell, rowCleared, colCleared };
+    }
+    default: return null;
+  }
+};
+
+export interface ClearResult {
+  grid: GridCell[][];
+  removed: CellRef[];
+  cracked: { r: number, c: number }[];
+  gold: { r: number, c: number }[];
+  presents: { r: number, c: number }[];
+}
+
+/** Applies hitCell to the given cells, each at most once */
+export const resolveHits = (grid: GridCell[][], hits: { r: number, c: number, fromRow: boolean, fromCol: boolean }[]): ClearResult => {
+  const next = grid.map(row => [...row]);
+  const result: ClearResult = { grid: next, removed: [], cracked: [], gold: [], presents: [] };
+
+  hits.forEach(({ r, c, fromRow, fromCol }) => {
+    const cell = grid[r][c];
+    if (cell === null) return;
+    const remaining = hitCell(cell, fromRow, fromCol);
+    next[r][c] = remaining;
+    if (remaining === null) {
+      result.removed.push({ r, c, color: getCellColor(cell)! });
+      if (isSpecialCell(cell) && cell.kind === 'GOLD') result.gold.push({ r, c });
+      if (isSpecialCell(cell) && cell.kind === 'PRESENT') result.presents.push({ r, c });
+    } else if (isSpecialCell(cell) && cell.kind === 'ICE') {
+      result.cracked.push({ r, c });
+    }
+  });
+  return result;
+};
+
+/** A line is full once all of its playable cells are taken; a line of only holes never is */
+export const isLineFull = (cells: GridCell[]): boolean =>
+  cells.every(cell => cell !== null) && cells.some(cell => !isHole(cell));
+
+/** Clears full rows and columns; a cell where both cross is hit once, from both sides */
+export const clearLines = (grid: GridCell[][], rows: number[], cols: number[]): ClearResult => {
+  const hits: { r: number, c: number, fromRow: boolean, fromCol: boolean }[] = [];
+  rows.forEach(r => { for (let c = 0; c < grid[r].length; c++) hits.push({ r, c, fromRow: true, fromCol: cols.includes(c) }); });
+  cols.forEach(c => { for (let r = 0; r < grid.length; r++) if (!rows.includes(r)) hits.push({ r, c, fromRow: false, fromCol: true }); });
+  return resolveHits(grid, hits);
+};
@@ -0,0 +1,141 @@
+/**
+ * Block Game Controls
+ * Turns keyboard keys, gamepad buttons and drag positions into board commands,
+ * so the component handles the same few commands whatever the input device.
+ */
+
+import { ShapeLayout } from '../types';
+import { CONTROLS_CONFIG } from '../config/gameConfig';
+
+export type ControlCommand =
+  | { type: 'MOVE'; dr: number; dc: number }
+  | { type: 'SELECT_SHAPE'; index: number }
+  | { type: 'CYCLE_SHAPE'; step: number }
+  | { type: 'ROTATE' }
+  | { type: 'HOLD' }
+  | { type: 'CONFIRM' }
+  | { type: 'CANCEL' };
+
+const UP: ControlCommand = { type: 'MOVE', dr: -1, dc: 0 };
+const DOWN: ControlCommand = { type: 'MOVE', dr: 1, dc: 0 };
+const LEFT: ControlCommand = { type: 'MOVE', dr: 0, dc: -1 };
+const RIGHT: ControlCommand = { type: 'MOVE', dr: 0, dc: 1 };
+
+// =============================================================================
+// Keyboard
+// =============================================================================
+
+const KEY_COMMANDS: Record<string, ControlCommand> = {
+  ArrowUp: UP,
+  ArrowDown: DOWN,
+  ArrowLeft: LEFT,
+  ArrowRight: RIGHT,
+  r: { type: 'ROTATE' },
+  h: { type: 'HOLD' },
+  Enter: { type: 'CONFIRM' },
+  ' ': { type: 'CONFIRM' },
+  Escape: { type: 'CANCEL' }
+};
+
+/** Command for a KeyboardEvent.key; number keys pick a tray shape */
+export const getKeyCommand = (key: string): ControlCommand | null => {
+  if (/^[1-9]$/.test(key)) return { type: 'SELECT_SHAPE', index: Number(key) - 1 };
+  return KEY_COMMANDS[key.length === 1 ? key.toLowerCase() : key] ?? null;
+};
+
+// =============================================================================
+// Gamepad
+// =============================================================================
+
+// Button indices of the standard gamepad layout
+const GAMEPAD_BUTTONS: Record<number, ControlCommand> = {
+  0: { type: 'CONFIRM' }, // A
+  1: { type: 'CANCEL' }, // B
+  2: { type: 'ROTATE' }, // X
+  3: { type: 'HOLD' }, // Y
+  4: { type: 'CYCLE_SHAPE', step: -1 }, // LB
+  5: { type: 'CYCLE_SHAPE', step: 1 }, // RB
+  12: UP,
+  13: DOWN,
+  14: LEFT,
+  15: RIGHT
+};
+
+/**
+ * Creates a poller that reads every connected gamepad and returns the commands
+ * pressed since the last call. Held directions repeat like a keyboard would.
+ */
+export const createGamepadPoller = () => {
+  const pressedAt = new Map<number, number>();
+  const repeatedAt = new Map<number, number>();
+
+  return (now: number): ControlCommand[] => {
+    const pads = typeof navigator !== 'undefined' && navigator.getGamepads ? navigator.getGamepads() : [];
+    const held = new Set<number>();
+    for (const pad of pads) {
+      if (!pad) continue;
+      Object.keys(GAMEPAD_BUTTONS).forEach(index => { if (pad.buttons[Number(index)]?.pressed) held.add(Number(index)); });
+      // The left stick counts as the d-pad
+      const [x = 0, y = 0] = pad.axes;
+      if (y < -CONTROLS_CONFIG.GAMEPAD_STICK_THRESHOLD) held.add(12);
+      if (y > CONTROLS_CONFIG.GAMEPAD_STICK_THRESHOLD) held.add(13);
+      if (x < -CONTROLS_CONFIG.GAMEPAD_STICK_THRESHOLD) held.add(14);
+      if (x > CONTROLS_CONFIG.GAMEPAD_STICK_THRESHOLD) held.add(15);
+    }
+
+    const commands: ControlCommand[] = [];
+    held.forEach(index => {
+      const command = GAMEPAD_BUTTONS[index];
+      const since = pressedAt.get(index);
+      if (since === undefined) {
+        pressedAt.set(index, now);
+        repeatedAt.set(index, now);
+        commands.push(command);
+      } else if (command.type === 'MOVE' && now - since >= CONTROLS_CONFIG.GAMEPAD_REPEAT_DELAY
+          && now - repeatedAt.get(index)! >= CONTROLS_CONFIG.GAMEPAD_REPEAT_INTERVAL) {
+        repeatedAt.set(index, now);
+        commands.push(command);
+      }
+    });
+    [...pressedAt.keys()].forEach(index => {
+      if (held.has(index)) return;
+      pressedAt.delete(index);
+      repeatedAt.delete(index);
+    });
+    return commands;
+  };
+};
+
+// =============================================================================
+// Cursor & Dragging
+// =============================================================================
+
+/** Moves the board cursor one step without leaving the board; the first move starts it in the middle */
+export const moveCursor = (cursor: { r: number, c: number } | null, dr: number, dc: number, rows: number, cols: number): { r: number, c: number } => {
+  if (!cursor) return { r: Math.floor(rows / 2), c: Math.floor(cols / 2) };
+  return {
+    r: Math.min(rows - 1, Math.max(0, cursor.r + dr)),
+    c: Math.min(cols - 1, Math.max(0, cursor.c + dc))
+  };
+};
+
+/**
+ * Top-left cell for a dragged shape centred on the given screen point,
+ * or null when the point is off the board.
+ */
+export const getDragAnchor = (
+  x: number,
+  y: number,
+  rect: { left: number, top: number, width: number, height: number },
+  rows: number,
+  cols: number,
+  layout: ShapeLayout
+): { r: number, c: number } | null => {
+  const col = ((x - rect.left) / rect.width) * cols;
+  const row = ((y - rect.top) / rect.height) * rows;
+  if (col < 0 || row < 0 || col >= cols || row >= rows) return null;
+  return {
+    r: Math.round(row - layout.length / 2),
+    c: Math.round(col - layout[0].length / 2)
+  };
+};
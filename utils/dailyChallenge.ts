@@ -0,0 +1,40 @@
+/**
+ * Daily Challenge
+ * Every calendar day maps to one seed, so all players get the same shape sequence.
+ * Days use the player's local midnight, the same boundary as the advent calendar.
+ */
+
+import { DailyChallengeRecord } from '../types';
+import { seedFromString } from './random';
+
+/** Local midnight for the given date */
+export const getDayStart = (date: Date = new Date()): number =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+
+/** Stable key for a local calendar day, e.g. "2024-12-24" */
+export const toDateKey = (date: Date = new Date()): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export const getDailySeed = (dateKey: string): number => seedFromString(`daily-${dateKey}`);
+
+/**
+ * Adds a finished run to the day's record. Only the first run of the day is scored,
+ * later runs are practice and can only raise the best score.
+ */
+export const recordDailyRun = (
+  existing: DailyChallengeRecord | undefined,
+  dateKey: string,
+  score: number
+): DailyChallengeRecord => {
+  if (!existing) {
+    return { dateKey, score, bestScore: score, attempts: 1, completedAt: Date.now() };
+  }
+  return {
+    ...existing,
+    bestScore: Math.max(existing.bestScore, score),
+    attempts: existing.attempts + 1
+  };
+};
@@ -0,0 +1,80 @@
+/**
+ * Adaptive Difficulty
+ * Turns the board, recent clears and player level into a single pressure value
+ * and from that into the bucket weights generateShapes deals trays with.
+ * Positive pressure deals harder trays, negative pressure eases off.
+ */
+
+import { DifficultyState, GridCell } from '../types';
+import { BLOCK_GAME_CONFIG, SPECIAL_CELL_CONFIG } from '../config/gameConfig';
+import { isHole } from './cells';
+
+const CONFIG = BLOCK_GAME_CONFIG.DIFFICULTY;
+
+export interface DifficultyWeights {
+  pressure: number;
+  fillRatio: number;
+  recentLines: number;
+  hardChance: number;
+  mediumChance: number;
+  singleAfterHard: number;
+  singleAfterMedium: number;
+}
+
+const clamp = (value: number, min: number, max: number): number => Math.min(max, Math.max(min, value));
+
+/** Settings for a new run, taken from the current config */
+export const createDifficultyState = (playerLevel: number, adaptive: boolean = CONFIG.ADAPTIVE): DifficultyState => ({
+  adaptive,
+  guaranteePlayable: CONFIG.GUARANTEE_PLAYABLE,
+  playerLevel,
+  recentClears: [],
+  spawnInterval: SPECIAL_CELL_CONFIG.SPAWN_INTERVAL,
+  spawnCountdown: SPECIAL_CELL_CONFIG.SPAWN_INTERVAL
+});
+
+/**
+ * For runs where everyone must see the same trays (versus, the daily challenge):
+ * nothing about the board steers the deal, so no adaptive weights, no playable
+ * guarantee and no special cell spawns.
+ */
+export const createFixedDealDifficulty = (): DifficultyState => ({
+  ...createDifficultyState(1, false),
+  guaranteePlayable: false,
+  spawnInterval: 0,
+  spawnCountdown: 0
+});
+
+export const recordClears = (difficulty: DifficultyState, lines: number): DifficultyState => ({
+  ...difficulty,
+  recentClears: [...difficulty.recentClears, lines].slice(-CONFIG.RECENT_WINDOW)
+});
+
+/** Share of the playable cells that are taken; holes in shaped boards don't count */
+export const getFillRatio = (grid: GridCell[][]): number => {
+  const cells = grid.flat().filter(cell => !isHole(cell));
+  return cells.filter(cell => cell !== null).length / cells.length;
+};
+
+/** Base weights when not adaptive, otherwise shifted by the current pressure */
+export const getDifficultyWeights = (grid: GridCell[][], difficulty?: DifficultyState): DifficultyWeights => {
+  const fillRatio = getFillRatio(grid);
+  const recentLines = difficulty ? difficulty.recentClears.reduce((sum, lines) => sum + lines, 0) : 0;
+  const pressure = difficulty?.adaptive
+    ? clamp(
+        Math.min(difficulty.playerLevel, CONFIG.LEVEL_CAP) * CONFIG.LEVEL_WEIGHT
+        + recentLines * CONFIG.CLEAR_WEIGHT
+        - (fillRatio - CONFIG.TARGET_FILL) * CONFIG.FILL_WEIGHT,
+        -1, 1)
+    : 0;
+
+  return {
+    pressure,
+    fillRatio,
+    recentLines,
+    hardChance: clamp(CONFIG.BASE_HARD_CHANCE + pressure * CONFIG.HARD_SWING, 0, 1),
+    mediumChance: clamp(CONFIG.BASE_MEDIUM_CHANCE + pressure * CONFIG.MEDIUM_SWING, 0, 1),
+    singleAfterHard: clamp(CONFIG.BASE_SINGLE_AFTER_HARD - pressure * CONFIG.SINGLE_SWING, 0, 1),
+    singleAfterMedium: clamp(CONFIG.BASE_SINGLE_AFTER_MEDIUM - pressure * CONFIG.SINGLE_SWING, 0, 1)
+  };
+};
@@ -0,0 +1,43 @@
+/**
+ * Element Matchups
+ * Lookups on the effectiveness chart in constants.ts: what an element hits hard,
+ * what hits it hard, and how well each card in a collection fares against an element.
+ */
+
+import { ElementType, MonsterCard } from '../types';
+import { ELEMENT_EFFECTIVENESS } from '../constants';
+
+export const ELEMENT_TYPES = Object.values(ElementType);
+
+/** Multiplier for a move of the attacking element against a monster of the defending one */
+export const getEffectiveness = (attacker: ElementType, defender: ElementType): number =>
+  ELEMENT_EFFECTIVENESS[attacker][defender];
+
+/** Elements this element deals double damage to */
+export const getStrengths = (type: ElementType): ElementType[] =>
+  ELEMENT_TYPES.filter(defender => getEffectiveness(type, defender) > 1);
+
+/** Elements that deal double damage to this element */
+export const getWeaknesses = (type: ElementType): ElementType[] =>
+  ELEMENT_TYPES.filter(attacker => getEffectiveness(attacker, type) > 1);
+
+/** Elements whose moves only do half damage to this element */
+export const getResistances = (type: ElementType): ElementType[] =>
+  ELEMENT_TYPES.filter(attacker => getEffectiveness(attacker, type) < 1);
+
+export interface CardMatchup {
+  card: MonsterCard;
+  attack: number; // Multiplier on the card's moves against the opponent
+  defense: number; // Multiplier on the opponent's moves against the card
+  rating: number; // attack / defense; above 1 is a good pick
+}
+
+/** Cards ordered from best to worst pick against an opponent of the given element; ties go to the tougher card */
+export const rankCardsAgainst = (cards: MonsterCard[], opponent: ElementType): CardMatchup[] =>
+  cards
+    .map(card => {
+      const attack = getEffectiveness(card.type, opponent);
+      const defense = getEffectiveness(opponent, card.type);
+      return { card, attack, defense, rating: attack / defense };
+    })
+    .sort((a, b) => b.rating - a.rating || b.card.hp - a.card.hp);
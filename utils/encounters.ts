@@ -0,0 +1,69 @@
+/**
+ * Wild Encounters
+ * Now and then a wild monster shows up when the app opens or after a block game.
+ * Catching it takes a short round on a small board: a fixed number of placements,
+ * and the score has to reach a target that grows with the monster's rarity.
+ */
+
+import { EncounterTrigger, GameState, MonsterCard, Rarity } from '../types';
+import { ENCOUNTER_CONFIG } from '../config/gameConfig';
+import { CATCH_SCORES, WILD_RARITY_WEIGHTS } from '../constants';
+import { NO_POWER_UPS, createInitialState, hasAvailableMove } from './blockEngine';
+import { createDifficultyState } from './difficulty';
+import { getBoard } from './boards';
+import { randomSeed } from './random';
+
+export interface CatchRound {
+  card: MonsterCard;
+  game: GameState;
+  target: number;
+  placements: number; // Made so far
+}
+
+export type CatchResult = 'CAUGHT' | 'ESCAPED';
+
+// =============================================================================
+// Appearing
+// =============================================================================
+
+/** Rolls whether a wild monster appears; never twice within the cooldown */
+export const rollEncounter = (trigger: EncounterTrigger, lastEncounterAt: number, now: number = Date.now(), roll: number = Math.random()): boolean => {
+  if (now - lastEncounterAt < ENCOUNTER_CONFIG.COOLDOWN_MS) return false;
+  const chance = trigger === 'APP_OPEN' ? ENCOUNTER_CONFIG.APP_OPEN_CHANCE : ENCOUNTER_CONFIG.AFTER_GAME_CHANCE;
+  return roll < chance;
+};
+
+/** Rarity for a generated wild monster, weighted so rare ones stay rare */
+export const pickWildRarity = (roll: number = Math.random()): Rarity => {
+  const entries = Object.entries(WILD_RARITY_WEIGHTS) as [Rarity, number][];
+  const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+  let remaining = roll * total;
+  for (const [rarity, weight] of entries) {
+    remaining -= weight;
+    if (remaining < 0) return rarity;
+  }
+  return Rarity.Common;
+};
+
+// =============================================================================
+// Catch Round
+// =============================================================================
+
+export const getCatchTarget = (rarity: Rarity): number => CATCH_SCORES[rarity];
+
+/** A fresh round on the catch board, with no power-ups and no adaptive dealing */
+export const createCatchRound = (card: MonsterCard, seed: number = randomSeed()): CatchRound => ({
+  card,
+  game: createInitialState(NO_POWER_UPS, seed, createDifficultyState(1, false), getBoard(ENCOUNTER_CONFIG.BOARD_ID)),
+  target: getCatchTarget(card.rarity),
+  placements: 0
+});
+
+export const getPlacementsLeft = (round: CatchRound): number => Math.max(0, ENCOUNTER_CONFIG.PLACEMENTS - round.placements);
+
+/** Caught as soon as the target is reached; escaped once placements or moves run out; null while the round goes on */
+export const getCatchResult = (round: CatchRound): CatchResult | null => {
+  if (round.game.score >= round.target) return 'CAUGHT';
+  if (getPlacementsLeft(round) === 0 || round.game.isGameOver || !hasAvailableMove(round.game)) return 'ESCAPED';
+  return null;
+};
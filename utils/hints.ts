@@ -0,0 +1,141 @@
+/**
+ * Hint Solver
+ * Brute-forces every placement and rotation of the tray (and the held shape)
+ * and ranks the outcomes, so the board can point at a sensible next move.
+ */
+
+import { GameAction, GameState, GridCell, Shape, ShapeLayout } from '../types';
+import { SHAPES_TEMPLATES, applyAction, canPlaceShape, canFitShapeWithRotation, canPlaceShapeAnywhere, rotateLayout } from './blockEngine';
+
+/** How much each outcome counts when ranking moves */
+const WEIGHTS = {
+  LINE: 12,
+  HOLE: -4,
+  MOBILITY: 1,
+  STRANDED_SHAPE: -30,
+} as const;
+
+export interface HintMove {
+  source: 'TRAY' | 'HOLD';
+  shapeIndex: number; // Tray slot; for HOLD, the slot the held shape swaps into
+  rotations: number; // Clockwise quarter turns from the shape's current layout
+  r: number;
+  c: number;
+  cells: { r: number, c: number }[];
+  lines: number;
+  rating: number;
+}
+
+// =============================================================================
+// Board Evaluation
+// =============================================================================
+
+/** Empty cells with no empty neighbour; only single-block shapes can fill them */
+export const countHoles = (grid: GridCell[][]): number => {
+  let holes = 0;
+  for (let r = 0; r < grid.length; r++) {
+    for (let c = 0; c < grid[r].length; c++) {
+      if (grid[r][c] !== null) continue;
+      const isOpen = [[r - 1, c], [r + 1, c], [r, c - 1], [r, c + 1]]
+        .some(([nr, nc]) => nr >= 0 && nc >= 0 && nr < grid.length && nc < grid[nr].length && grid[nr][nc] === null);
+      if (!isOpen) holes++;
+    }
+  }
+  return holes;
+};
+
+/** How many of the known shapes still fit somewhere, as a measure of open space */
+export const countMobility = (grid: GridCell[][]): number =>
+  SHAPES_TEMPLATES.filter(t => canPlaceShapeAnywhere(grid, { id: t.id, layout: t.layout, color: '' })).length;
+
+// =============================================================================
+// Search
+// =============================================================================
+
+/** The distinct layouts of a shape, paired with the quarter turns that reach them */
+const getRotations = (layout: ShapeLayout): { layout: ShapeLayout, rotations: number }[] => {
+  const seen = new Set<string>();
+  const result: { layout: ShapeLayout, rotations: number }[] = [];
+  let current = layout;
+  for (let rotations = 0; rotations < 4; rotations++) {
+    const key = JSON.stringify(current);
+    if (!seen.has(key)) {
+      seen.add(key);
+      result.push({ layout: current, rotations });
+    }
+    current = rotateLayout(current);
+  }
+  return result;
+};
+
+const getShapeCells = (layout: ShapeLayout, r: number, c: number): { r: number, c: number }[] => {
+  const cells: { r: number, c: number }[] = [];
+  layout.forEach((row, i) => row.forEach((val, j) => { if (val === 1) cells.push({ r: r + i, c: c + j }); }));
+  return cells;
+};
+
+/**
+ * Lists every placement of the tray and held shape, rated.
+ * Outcomes are simulated with the engine itself, but only the resulting grid and
+ * the shapes already known are rated, so a hint never peeks at the next deal.
+ */
+export const listMoves = (state: GameState): HintMove[] => {
+  if (state.isGameOver) return [];
+
+  const candidates: { source: HintMove['source'], shapeIndex: number, shape: Shape }[] =
+    state.shapes.map((shape, shapeIndex) => ({ source: 'TRAY' as const, shapeIndex, shape }));
+  // Swapping the held shape in needs a tray shape to trade places with
+  if (state.holdShape && state.shapes.length > 0) {
+    candidates.push({ source: 'HOLD', shapeIndex: 0, shape: state.holdShape });
+  }
+
+  const moves: HintMove[] = [];
+  candidates.forEach(({ source, shapeIndex, shape }) => {
+    const base: GameState = source === 'HOLD'
+      ? { ...state, shapes: state.shapes.map((s, i) => i === shapeIndex ? shape : s), holdShape: state.shapes[shapeIndex] }
+      : state;
+    const others = [
+      ...base.shapes.filter((_, i) => i !== shapeIndex),
+      ...(base.holdShape ? [base.holdShape] : [])
+    ];
+
+    getRotations(shape.layout).forEach(({ layout, rotations }) => {
+      const rotated = { ...shape, layout };
+      // No special cell spawns in the trial, or the rating would score (and give away) a random future cell
+      const trial: GameState = {
+        ...base,
+        shapes: base.shapes.map((s, i) => i === shapeIndex ? rotated : s),
+        difficulty: base.difficulty && { ...base.difficulty, spawnInterval: 0 }
+      };
+
+      for (let r = 0; r < trial.grid.length; r++) {
+        for (let c = 0; c < trial.grid[r].length; c++) {
+          if (!canPlaceShape(trial.grid, rotated, r, c)) continue;
+
+          const { state: next, events } = applyAction(trial, { type: 'PLACE', shapeIndex, r, c });
+          const cleared = events.find(e => e.type === 'LINES_CLEARED');
+          const lines = cleared?.type === 'LINES_CLEARED' ? cleared.lines : 0;
+          const stranded = others.filter(s => !canFitShapeWithRotation(next.grid, s)).length;
+          const rating = lines * WEIGHTS.LINE
+            + countHoles(next.grid) * WEIGHTS.HOLE
+            + countMobility(next.grid) * WEIGHTS.MOBILITY
+            + stranded * WEIGHTS.STRANDED_SHAPE;
+
+          moves.push({ source, shapeIndex, rotations, r, c, cells: getShapeCells(layout, r, c), lines, rating });
+        }
+      }
+    });
+  });
+  return moves;
+};
+
+/** The best-rated placement, or null when nothing fits */
+export const findBestMove = (state: GameState): HintMove | null =>
+  listMoves(state).reduce<HintMove | null>((best, move) => !best || move.rating > best.rating ? move : best, null);
+
+/** The engine actions that carry out a move, from swapping in the held shape to placing it */
+export const getMoveActions = (move: HintMove): GameAction[] => [
+  ...(move.source === 'HOLD' ? [{ type: 'HOLD' as const, shapeIndex: move.shapeIndex }] : []),
+  ...Array.from({ length: move.rotations }, () => ({ type: 'ROTATE' as const, shapeIndex: move.shapeIndex })),
+  { type: 'PLACE', shapeIndex: move.shapeIndex, r: move.r, c: move.c }
+];
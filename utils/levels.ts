@@ -0,0 +1,185 @@
+/**
+ * Puzzle Levels
+ * Handcrafted boards with a fixed shape queue, a goal and a move limit.
+ * Level files are plain JSON (see config/levels.json); this module validates them,
+ * builds the starting engine state and tracks goal progress during a run.
+ */
+
+import { GameState, GameAction, GameEvent, GridCell, LevelDefinition, LevelGoal, Shape } from '../types';
+import { BLOCK_GAME_CONFIG } from '../config/gameConfig';
+import { COLORS, NO_POWER_UPS, SHAPES_TEMPLATES, hasAvailableMove } from './blockEngine';
+import { seedFromString } from './random';
+import { createSpecialCell } from './cells';
+import levelData from '../config/levels.json';
+
+const GRID_SIZE = BLOCK_GAME_CONFIG.GRID_SIZE;
+
+export const STONE_COLOR = '#64748b';
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+const cellFromChar = (ch: string): GridCell => {
+  if (ch === '.') return null;
+  if (ch === 'G') return createSpecialCell('GOLD');
+  if (ch === 'I') return createSpecialCell('ICE');
+  if (ch === 'P') return createSpecialCell('PRESENT');
+  if (ch === 'C') return createSpecialCell('COAL');
+  if (ch === 'X') return STONE_COLOR;
+  return COLORS[parseInt(ch, 10) % COLORS.length];
+};
+
+const isValidGoal = (goal: unknown): goal is LevelGoal => {
+  if (!goal || typeof goal !== 'object') return false;
+  const g = goal as { type?: unknown, target?: unknown };
+  if (g.type === 'CLEAR_GOLD' || g.type === 'OPEN_PRESENTS') return true;
+  return (g.type === 'CLEAR_LINES' || g.type === 'REACH_SCORE') && typeof g.target === 'number' && g.target > 0;
+};
+
+/**
+ * Validates a level file entry. Throws with a readable message so broken
+ * level files fail loudly during development instead of producing odd boards.
+ */
+export const parseLevel = (raw: unknown): LevelDefinition => {
+  const level = raw as Partial<LevelDefinition>;
+  const label = typeof level?.id === 'string' ? level.id : 'unknown level';
+
+  if (typeof level?.id !== 'string' || typeof level.name !== 'string') {
+    throw new Error(`[Levels] ${label}: missing id or name`);
+  }
+  if (!Array.isArray(level.grid) || level.grid.length !== GRID_SIZE
+      || level.grid.some(row => typeof row !== 'string' || row.length !== GRID_SIZE || !/^[.GIPCX0-9]+$/.test(row))) {
+    throw new Error(`[Levels] ${label}: grid must be ${GRID_SIZE} rows of ${GRID_SIZE} characters from ".GIPCX0-9"`);
+  }
+  if (!Array.isArray(level.shapes) || level.shapes.length === 0
+      || level.shapes.some(id => !SHAPES_TEMPLATES.some(t => t.id === id))) {
+    throw new Error(`[Levels] ${label}: shapes must be a non-empty list of SHAPES_TEMPLATES ids`);
+  }
+  if (!isValidGoal(level.goal)) {
+    throw new Error(`[Levels] ${label}: invalid goal`);
+  }
+  // Without anything to collect these goals would be won before the first move
+  if (level.goal.type === 'CLEAR_GOLD' && !level.grid.some(row => row.includes('G'))) {
+    throw new Error(`[Levels] ${label}: CLEAR_GOLD needs at least one gold cell ("G")`);
+  }
+  if (level.goal.type === 'OPEN_PRESENTS' && !level.grid.some(row => row.includes('P'))) {
+    throw new Error(`[Levels] ${label}: OPEN_PRESENTS needs at least one present ("P")`);
+  }
+  if (typeof level.moveLimit !== 'number' || level.moveLimit < 1) {
+    throw new Error(`[Levels] ${label}: moveLimit must be at least 1`);
+  }
+  return level as LevelDefinition;
+};
+
+/** The campaign that ships with the app, in play order */
+export const LEVELS: LevelDefinition[] = (levelData as unknown[]).map(parseLevel);
+
+// =============================================================================
+// Run State
+// =============================================================================
+
+const findCells = (level: LevelDefinition, char: string): string[] => {
+  const cells: string[] = [];
+  level.grid.forEach((row, r) => row.split('').forEach((ch, c) => {
+    if (ch === char) cells.push(`${r},${c}`);
+  }));
+  return cells;
+};
+
+export const getGoldCells = (level: LevelDefinition): string[] => findCells(level, 'G');
+
+/** Builds the engine state for a level: fixed board, queued shapes and no power-ups */
+export const createLevelState = (level: LevelDefinition): GameState => {
+  const queue: Shape[] = level.shapes.map((id, i) => ({
+    id: `shape-${i + 1}`,
+    layout: SHAPES_TEMPLATES.find(t => t.id === id)!.layout,
+    color: COLORS[i % COLORS.length],
+    templateId: id
+  }));
+  const seed = seedFromString(level.id);
+
+  return {
+    grid: level.grid.map(row => row.split('').map(cellFromChar)),
+    shapes: queue.slice(0, 3),
+    holdShape: null,
+    score: 0,
+    comboCount: 0,
+    streakCount: 0,
+    powerUps: { ...NO_POWER_UPS },
+    rescueMode: false,
+    isGameOver: false,
+    shapeCounter: queue.length,
+    seed,
+    rngState: seed,
+    shapeQueue: queue.slice(3)
+  };
+};
+
+/** Goal bookkeeping that the engine itself doesn't track */
+export interface LevelRun {
+  movesUsed: number;
+  linesCleared: number;
+  goldLeft: string[]; // "r,c" of starting gold cells not yet cleared
+  presentsOpened: number;
+}
+
+export type LevelStatus = 'PLAYING' | 'WON' | 'LOST';
+
+export const createLevelRun = (level: LevelDefinition): LevelRun => ({
+  movesUsed: 0,
+  linesCleared: 0,
+  goldLeft: getGoldCells(level),
+  presentsOpened: 0
+});
+
+export const updateLevelRun = (run: LevelRun, action: GameAction, events: GameEvent[]): LevelRun => {
+  let { movesUsed, linesCleared, goldLeft, presentsOpened } = run;
+  events.forEach(event => {
+    if (event.type === 'SHAPE_PLACED' && action.type === 'PLACE') movesUsed += 1;
+    if (event.type === 'LINES_CLEARED' || event.type === 'POWER_UP_USED') {
+      const cleared = new Set(event.cells.map(cell => `${cell.r},${cell.c}`));
+      goldLeft = goldLeft.filter(key => !cleared.has(key));
+    }
+    if (event.type === 'LINES_CLEARED') linesCleared += event.lines;
+    if (event.type === 'PRESENT_OPENED') presentsOpened += 1;
+  });
+  return { movesUsed, linesCleared, goldLeft, presentsOpened };
+};
+
+export const getGoalProgress = (level: LevelDefinition, state: GameState, run: LevelRun): { current: number, target: number } => {
+  switch (level.goal.type) {
+    case 'CLEAR_LINES': return { current: Math.min(run.linesCleared, level.goal.target), target: level.goal.target };
+    case 'REACH_SCORE': return { current: Math.min(state.score, level.goal.target), target: level.goal.target };
+    case 'CLEAR_GOLD': {
+      const total = getGoldCells(level).length;
+      return { current: total - run.goldLeft.length, target: total };
+    }
+    case 'OPEN_PRESENTS': return { current: run.presentsOpened, target: findCells(level, 'P').length };
+  }
+};
+
+export const getLevelStatus = (level: LevelDefinition, state: GameState, run: LevelRun): LevelStatus => {
+  const { current, target } = getGoalProgress(level, state, run);
+  if (current >= target) return 'WON';
+  if (state.isGameOver || run.movesUsed >= level.moveLimit || !hasAvailableMove(state)) return 'LOST';
+  return 'PLAYING';
+};
+
+/** 1 star for finishing, more for moves to spare */
+export const getLevelStars = (level: LevelDefinition, run: LevelRun): number => {
+  const movesLeft = level.moveLimit - run.movesUsed;
+  const [twoStars, threeStars] = level.stars ?? [1, 2];
+  if (movesLeft >= threeStars) return 3;
+  if (movesLeft >= twoStars) return 2;
+  return 1;
+};
+
+export const describeGoal = (goal: LevelGoal): string => {
+  switch (goal.type) {
+    case 'CLEAR_LINES': return `Fjern ${goal.target} ${goal.target === 1 ? 'linje' : 'linjer'}`;
+    case 'REACH_SCORE': return `Nå ${goal.target} poeng`;
+    case 'CLEAR_GOLD': return 'Fjern alt gullet';
+    case 'OPEN_PRESENTS': return 'Åpne alle gavene';
+  }
+};
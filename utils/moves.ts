@@ -0,0 +1,150 @@
+/**
+ * Move Data
+ * Damage used to live only as printed text ("20+", "30x2") and effects only in the
+ * Norwegian description. These helpers turn both into numbers, clean up the
+ * structured moves Gemini returns, and migrate cards stored before the change.
+ */
+
+import { DamageModifier, MonsterCard, Move, MoveEffect, MoveEffectType } from '../types';
+import { MOVE_EFFECT_CONFIG } from '../config/gameConfig';
+
+export const MOVE_EFFECT_TYPES: MoveEffectType[] = ['HEAL', 'BURN', 'STUN', 'SHIELD', 'MULTI_HIT'];
+
+// =============================================================================
+// Printed Damage
+// =============================================================================
+
+export interface ParsedDamage {
+  baseDamage: number;
+  damageModifier?: DamageModifier;
+}
+
+/** "30" is plain, "20+" gets a bonus, "30x2", "30x" and "x2" are multiplied; anything else counts its first number */
+export const parseDamageText = (damage: string, cost: number): ParsedDamage => {
+  const text = damage.trim().toLowerCase().replace(/[×*]/g, 'x');
+
+  const times = text.match(/^(\d+)?\s*x\s*(\d+)?$/);
+  if (times && (times[1] || times[2])) {
+    const baseDamage = times[1] ? parseInt(times[1], 10) : cost * MOVE_EFFECT_CONFIG.DAMAGE_PER_COST;
+    const factor = times[2] ? parseInt(times[2], 10) : MOVE_EFFECT_CONFIG.OPEN_TIMES_FACTOR;
+    return { baseDamage, damageModifier: { kind: 'TIMES', value: Math.min(factor, MOVE_EFFECT_CONFIG.MAX_HITS) } };
+  }
+
+  const plus = text.match(/^(\d+)\s*\+$/);
+  if (plus) {
+    const baseDamage = parseInt(plus[1], 10);
+    return { baseDamage, damageModifier: { kind: 'PLUS', value: Math.max(1, Math.round(baseDamage * MOVE_EFFECT_CONFIG.PLUS_BONUS_SHARE)) } };
+  }
+
+  const plain = text.match(/\d+/);
+  return { baseDamage: plain ? parseInt(plain[0], 10) : 0 };
+};
+
+// =============================================================================
+// Effects
+// =============================================================================
+
+// Words in old descriptions that hint at an effect. The first match per effect type counts.
+const EFFECT_HINTS: [RegExp, MoveEffect][] = [
+  [/helbred|\bheler\b|\blege[rs]?\b|kraft tilbake/i, { type: 'HEAL', amount: MOVE_EFFECT_CONFIG.INFERRED_HEAL }],
+  [/skjold|beskytt/i, { type: 'SHIELD', amount: MOVE_EFFECT_CONFIG.INFERRED_SHIELD }],
+  [/brenn|brann|flamme/i, { type: 'BURN', amount: MOVE_EFFECT_CONFIG.INFERRED_BURN_DAMAGE, turns: MOVE_EFFECT_CONFIG.INFERRED_BURN_TURNS }],
+  [/fryse|lamme|bedøv|blend|forvirr|fanger/i, { type: 'STUN', amount: MOVE_EFFECT_CONFIG.INFERRED_STUN_TURNS }],
+  [/to ganger|dobbelt/i, { type: 'MULTI_HIT', amount: 2 }],
+  [/tre ganger/i, { type: 'MULTI_HIT', amount: 3 }],
+];
+
+/** Best guess at the effects an old free-text description promises */
+export const inferMoveEffects = (description: string): MoveEffect[] => {
+  const effects: MoveEffect[] = [];
+  EFFECT_HINTS.forEach(([pattern, effect]) => {
+    if (pattern.test(description) && !effects.some(e => e.type === effect.type)) effects.push({ ...effect });
+  });
+  return effects;
+};
+
+const toCount = (value: unknown): number => typeof value === 'number' && Number.isFinite(value) ? Math.max(0, Math.round(value)) : 0;
+
+/** Keeps known effect types with usable amounts, at most one per type, within the caps */
+export const sanitizeMoveEffects = (raw: unknown): MoveEffect[] => {
+  if (!Array.isArray(raw)) return [];
+  const effects: MoveEffect[] = [];
+  raw.forEach(item => {
+    const type = item?.type as MoveEffectType;
+    const amount = toCount(item?.amount);
+    if (!MOVE_EFFECT_TYPES.includes(type) || amount === 0 || effects.some(e => e.type === type)) return;
+    switch (type) {
+      case 'BURN':
+        effects.push({ type, amount, turns: Math.min(MOVE_EFFECT_CONFIG.MAX_BURN_TURNS, Math.max(1, toCount(item.turns))) });
+        break;
+      case 'STUN':
+        effects.push({ type, amount: Math.min(amount, MOVE_EFFECT_CONFIG.MAX_STUN_TURNS) });
+        break;
+      case 'MULTI_HIT':
+        if (amount > 1) effects.push({ type, amount: Math.min(amount, MOVE_EFFECT_CONFIG.MAX_HITS) });
+        break;
+      default:
+        effects.push({ type, amount });
+    }
+  });
+  return effects;
+};
+
+export const sanitizeDamageModifier = (raw: unknown): DamageModifier | undefined => {
+  const kind = (raw as DamageModifier | undefined)?.kind;
+  const value = toCount((raw as DamageModifier | undefined)?.value);
+  if ((kind !== 'PLUS' && kind !== 'TIMES') || value === 0) return undefined;
+  if (kind === 'TIMES') return value > 1 ? { kind, value: Math.min(value, MOVE_EFFECT_CONFIG.MAX_HITS) } : undefined;
+  return { kind, value };
+};
+
+export const MOVE_EFFECT_ICONS: Record<MoveEffectType, string> = {
+  HEAL: '💚',
+  SHIELD: '🛡️',
+  BURN: '🔥',
+  STUN: '💫',
+  MULTI_HIT: '👊'
+};
+
+const describeEffectText = (effect: MoveEffect): string => {
+  switch (effect.type) {
+    case 'HEAL': return `Helbreder ${effect.amount}`;
+    case 'SHIELD': return `Skjold ${effect.amount}`;
+    case 'BURN': return `Brenner ${effect.amount} i ${effect.turns ?? 1} ${effect.turns === 1 ? 'runde' : 'runder'}`;
+    case 'STUN': return `Lammer i ${effect.amount} ${effect.amount === 1 ? 'runde' : 'runder'}`;
+    case 'MULTI_HIT': return `Treffer ${effect.amount} ganger`;
+  }
+};
+
+export const describeMoveEffect = (effect: MoveEffect): string => `${MOVE_EFFECT_ICONS[effect.type]} ${describeEffectText(effect)}`;
+
+export const describeDamageModifier = (modifier: DamageModifier): string =>
+  modifier.kind === 'PLUS' ? `+${modifier.value} med energi til overs` : `×${modifier.value}`;
+
+// =============================================================================
+// Stored Cards
+// =============================================================================
+
+/** A move as stored before structured damage existed */
+export type StoredMove = Omit<Move, 'baseDamage'> & { baseDamage?: number };
+
+export const migrateMove = (move: StoredMove): Move => {
+  if (typeof move.baseDamage === 'number') return move as Move;
+  const effects = inferMoveEffects(move.description ?? '');
+  return {
+    ...move,
+    ...parseDamageText(move.damage ?? '', move.cost ?? 1),
+    ...(effects.length > 0 ? { effects } : {})
+  };
+};
+
+/** True for cards stored without a moves list, too; those get an empty one */
+export const needsMoveMigration = (card: { moves?: unknown }): boolean =>
+  !Array.isArray(card.moves) || (card.moves as StoredMove[]).some(move => typeof move?.baseDamage !== 'number');
+
+/** Cards stored before structured moves get their numbers filled in; newer cards come back unchanged */
+export const migrateCard = (card: Omit<MonsterCard, 'moves'> & { moves?: StoredMove[] }): MonsterCard => {
+  if (!needsMoveMigration(card)) return card as MonsterCard;
+  const moves = Array.isArray(card.moves) ? card.moves.filter(move => move && typeof move === 'object') : [];
+  return { ...card, moves: moves.map(migrateMove) };
+};
@@ -0,0 +1,71 @@
+/**
+ * Personal-Best Pace
+ * A finished run is boiled down to its score and board after every placement,
+ * so a new run can be compared with the best one move for move.
+ * Boards are stored as one character per cell, rows separated by '/'.
+ */
+
+import { GridCell, PaceTrack, ReplayLog, SpecialCellKind } from '../types';
+import { COLORS } from './blockEngine';
+import { SPECIAL_CELL_COLORS, createSpecialCell, isSpecialCell } from './cells';
+import { buildReplayFrames } from './replay';
+
+const SPECIAL_CHARS: Record<SpecialCellKind, string> = { ICE: 'i', PRESENT: 'p', GOLD: 'g', COAL: 'c', HOLE: '_' };
+const OTHER_COLOR_CHAR = '#'; // Blocks outside the palette, e.g. level stones
+const OTHER_COLOR = '#94a3b8';
+
+// =============================================================================
+// Board Snapshots
+// =============================================================================
+
+export const encodeBoard = (grid: GridCell[][]): string =>
+  grid.map(row => row.map(cell => {
+    if (cell === null) return '.';
+    if (isSpecialCell(cell)) return SPECIAL_CHARS[cell.kind];
+    const index = COLORS.indexOf(cell);
+    return index >= 0 ? String(index) : OTHER_COLOR_CHAR;
+  }).join('')).join('/');
+
+/** Cracked ice and half-opened presents come back fresh; the snapshot is only for show */
+export const decodeBoard = (encoded: string): GridCell[][] =>
+  encoded.split('/').map(row => [...row].map(ch => {
+    if (ch === '.') return null;
+    if (ch === OTHER_COLOR_CHAR) return OTHER_COLOR;
+    const kind = (Object.keys(SPECIAL_CHARS) as SpecialCellKind[]).find(k => SPECIAL_CHARS[k] === ch);
+    if (kind) return createSpecialCell(kind);
+    return COLORS[Number(ch)] ?? SPECIAL_CELL_COLORS.COAL;
+  }));
+
+// =============================================================================
+// Tracks
+// =============================================================================
+
+/** Re-runs the finished run and keeps the score and board after each placement */
+export const buildPaceTrack = (log: ReplayLog, score: number): PaceTrack => {
+  const placements = buildReplayFrames(log).filter(frame => frame.action?.type === 'PLACE');
+  return {
+    score,
+    scores: placements.map(frame => frame.state.score),
+    boards: placements.map(frame => encodeBoard(frame.state.grid)),
+    recordedAt: Date.now()
+  };
+};
+
+export const countPlacements = (log: ReplayLog): number =>
+  log.actions.filter(action => action.type === 'PLACE').length;
+
+export interface PaceComparison {
+  diff: number; // Points ahead (positive) or behind (negative)
+  bestScore: number; // The best run's score at the same move
+  board: string; // The best run's board at the same move
+  isPastEnd: boolean; // The best run had already ended by this move
+}
+
+/** Compares the current score with the best run after the same number of placements */
+export const comparePace = (track: PaceTrack, placements: number, score: number): PaceComparison | null => {
+  if (placements <= 0 || track.scores.length === 0) return null;
+  const index = Math.min(placements, track.scores.length) - 1;
+  const isPastEnd = placements > track.scores.length;
+  const bestScore = isPastEnd ? track.score : track.scores[index];
+  return { diff: score - bestScore, bestScore, board: track.boards[index], isPastEnd };
+};
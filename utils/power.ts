@@ -0,0 +1,50 @@
+/**
+ * Card Power
+ * One number to compare cards by, built from parts the player can check:
+ * health, damage per energy, number of moves, rarity and shiny status.
+ * Every part is listed with its points so the total never feels arbitrary.
+ */
+
+import { MonsterCard } from '../types';
+import { POWER_CONFIG } from '../config/gameConfig';
+import { RARITY_POWER, RARITY_TRANSLATIONS } from '../constants';
+import { getMoveDamage, getMoveHits } from './battle';
+
+export type PowerPartKey = 'HP' | 'DAMAGE' | 'MOVES' | 'RARITY' | 'SHINY';
+
+export interface PowerPart {
+  key: PowerPartKey;
+  label: string;
+  detail: string; // What the points were counted from, e.g. "90 HP × 0.5"
+  points: number;
+}
+
+export interface PowerRating {
+  total: number;
+  parts: PowerPart[];
+}
+
+const round1 = (value: number): number => Math.round(value * 10) / 10;
+
+/** Average damage each energy buys, counting every hit of multi-hit moves */
+export const getDamagePerEnergy = (card: MonsterCard): number => {
+  if (card.moves.length === 0) return 0;
+  const sum = card.moves.reduce((total, move) => total + (getMoveDamage(move) * getMoveHits(move)) / Math.max(1, move.cost), 0);
+  return sum / card.moves.length;
+};
+
+export const getPowerRating = (card: MonsterCard): PowerRating => {
+  const damagePerEnergy = getDamagePerEnergy(card);
+  const exact: PowerPart[] = [
+    { key: 'HP', label: 'Helse', detail: `${card.hp} HP × ${POWER_CONFIG.HP_WEIGHT}`, points: card.hp * POWER_CONFIG.HP_WEIGHT },
+    { key: 'DAMAGE', label: 'Skade per energi', detail: `${round1(damagePerEnergy)} × ${POWER_CONFIG.DAMAGE_PER_ENERGY_WEIGHT}`, points: damagePerEnergy * POWER_CONFIG.DAMAGE_PER_ENERGY_WEIGHT },
+    { key: 'MOVES', label: 'Trekk', detail: `${card.moves.length} × ${POWER_CONFIG.MOVE_POINTS}`, points: card.moves.length * POWER_CONFIG.MOVE_POINTS },
+    { key: 'RARITY', label: 'Sjeldenhet', detail: RARITY_TRANSLATIONS[card.rarity], points: RARITY_POWER[card.rarity] },
+    { key: 'SHINY', label: 'Shiny', detail: card.isShiny ? 'Ja' : 'Nei', points: card.isShiny ? POWER_CONFIG.SHINY_BONUS : 0 }
+  ];
+  const parts = exact.map(part => ({ ...part, points: Math.round(part.points) }));
+
+  return { total: parts.reduce((sum, part) => sum + part.points, 0), parts };
+};
+
+export const getPower = (card: MonsterCard): number => getPowerRating(card).total;
@@ -0,0 +1,59 @@
+/**
+ * Seeded Random Numbers
+ * Small deterministic PRNG (mulberry32) so block games can be reproduced from a seed.
+ * The whole generator state is a single 32-bit integer, which makes it cheap to store
+ * in saved sessions and replays.
+ */
+
+export interface Rng {
+  /** Returns a float in [0, 1), like Math.random() */
+  next: () => number;
+  /** Current internal state. Pass it to createRng() to continue the sequence later. */
+  readonly state: number;
+}
+
+export const createRng = (seed: number): Rng => {
+  let state = seed >>> 0;
+  return {
+    next: () => {
+      state = (state + 0x6D2B79F5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    },
+    get state() {
+      return state;
+    }
+  };
+};
+
+/** Fresh seed for a new free-play game */
+export const randomSeed = (): number => Math.floor(Math.random() * 4294967296);
+
+/** Derives a stable seed from any string (e.g. a shared challenge code) */
+export const seedFromString = (value: string): number => {
+  // FNV-1a hash
+  let hash = 0x811C9DC5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/** Short, human-friendly representation for showing and sharing seeds */
+export const formatSeed = (seed: number): string => (seed >>> 0).toString(36).toUpperCase();
+
+export const pickRandom = <T>(rng: Rng, items: readonly T[]): T =>
+  items[Math.floor(rng.next() * items.length)];
+
+/** Fisher-Yates shuffle, returns a new array */
+export const shuffle = <T>(rng: Rng, items: readonly T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(rng.next() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
@@ -0,0 +1,203 @@
+/**
+ * Game Stats
+ * Keeps running totals for the current run from engine events, turns a finished
+ * run into a GameStatsRecord and summarizes the stored records for the stats screen.
+ * Puzzle levels keep their own progress records and are not counted here.
+ */
+
+import { BlockGameMode, GameEvent, GameStatsRecord, PowerUpType, RunStats, ScoreSource, Shape } from '../types';
+import { STATS_CONFIG } from '../config/gameConfig';
+import { SHAPES_TEMPLATES, rotateLayout } from './blockEngine';
+
+// =============================================================================
+// Current Run
+// =============================================================================
+
+export const createRunStats = (now: number = Date.now()): RunStats => ({
+  playTimeMs: 0,
+  lastActionAt: now,
+  linesCleared: 0,
+  bestCombo: 0,
+  bestStreak: 0,
+  placements: 0,
+  powerUpsUsed: {},
+  powerUpsRewarded: 0,
+  scoreBySource: {},
+  scoreLog: []
+});
+
+const countPowerUp = (used: RunStats['powerUpsUsed'], powerUp: PowerUpType): RunStats['powerUpsUsed'] =>
+  ({ ...used, [powerUp]: (used[powerUp] ?? 0) + 1 });
+
+/** Adds the events of one accepted action; breaks longer than the idle cap count as the cap */
+export const updateRunStats = (stats: RunStats, events: GameEvent[], now: number = Date.now()): RunStats => {
+  let next: RunStats = {
+    ...stats,
+    playTimeMs: stats.playTimeMs + Math.min(Math.max(0, now - stats.lastActionAt), STATS_CONFIG.IDLE_CAP_MS),
+    lastActionAt: now
+  };
+  events.forEach(event => {
+    switch (event.type) {
+      case 'SHAPE_PLACED':
+        next = { ...next, placements: next.placements + 1 };
+        break;
+      case 'LINES_CLEARED':
+        next = {
+          ...next,
+          linesCleared: next.linesCleared + event.lines,
+          bestCombo: Math.max(next.bestCombo, event.combo),
+          bestStreak: Math.max(next.bestStreak, event.streak)
+        };
+        break;
+      case 'POWER_UP_USED':
+      case 'TRAY_POWER_UP_USED':
+        next = { ...next, powerUpsUsed: countPowerUp(next.powerUpsUsed, event.powerUp) };
+        break;
+      case 'STREAK_FROZEN':
+        next = { ...next, powerUpsUsed: countPowerUp(next.powerUpsUsed, 'FREEZE') };
+        break;
+      case 'SHAPES_DEALT':
+        if (event.reason === 'REFRESH') next = { ...next, powerUpsUsed: countPowerUp(next.powerUpsUsed, 'REFRESH') };
+        break;
+      case 'POWER_UP_REWARDED':
+        next = { ...next, powerUpsRewarded: (next.powerUpsRewarded ?? 0) + 1 };
+        break;
+      case 'SCORED': {
+        const bySource = next.scoreBySource ?? {};
+        const total = bySource[event.source] ?? { points: 0, count: 0 };
+        next = {
+          ...next,
+          scoreBySource: { ...bySource, [event.source]: { points: total.points + event.points, count: total.count + 1 } },
+          scoreLog: [
+            ...(next.scoreLog ?? []),
+            { placement: next.placements, source: event.source, base: event.base, points: event.points, multipliers: event.multipliers }
+          ].slice(-STATS_CONFIG.SCORE_LOG_LENGTH)
+        };
+        break;
+      }
+    }
+  });
+  return next;
+};
+
+export interface ScoreBreakdownRow {
+  source: ScoreSource;
+  points: number;
+  count: number;
+}
+
+const SCORE_SOURCE_ORDER: ScoreSource[] = ['BLOCKS', 'LINES', 'GOLD', 'PRESENT', 'POWER_UP'];
+
+/** Points per source in a fixed order, skipping sources that gave nothing */
+export const getScoreBreakdown = (stats: RunStats): ScoreBreakdownRow[] =>
+  SCORE_SOURCE_ORDER
+    .map(source => ({ source, points: stats.scoreBySource?.[source]?.points ?? 0, count: stats.scoreBySource?.[source]?.count ?? 0 }))
+    .filter(row => row.count > 0);
+
+/** Template of a shape; older saves lack the id, so those are matched by layout in any rotation */
+export const getShapeTemplateId = (shape: Shape): string => {
+  if (shape.templateId) return shape.templateId;
+  const key = JSON.stringify(shape.layout);
+  const match = SHAPES_TEMPLATES.find(template => {
+    let layout = template.layout;
+    for (let i = 0; i < 4; i++) {
+      if (JSON.stringify(layout) === key) return true;
+      layout = rotateLayout(layout);
+    }
+    return false;
+  });
+  return match?.id ?? '?';
+};
+
+export const createGameStatsRecord = (
+  stats: RunStats,
+  run: { mode: BlockGameMode, boardId: string, score: number, coinsEarned: number, endingShapes: Shape[] }
+): GameStatsRecord => {
+  const finishedAt = Date.now();
+  return {
+    id: `stats-${finishedAt}-${Math.floor(Math.random() * 1e6)}`,
+    mode: run.mode,
+    boardId: run.boardId,
+    score: run.score,
+    durationMs: stats.playTimeMs,
+    linesCleared: stats.linesCleared,
+    bestCombo: stats.bestCombo,
+    bestStreak: stats.bestStreak,
+    placements: stats.placements,
+    powerUpsUsed: stats.powerUpsUsed,
+    coinsEarned: run.coinsEarned,
+    endingShapes: run.endingShapes.map(getShapeTemplateId),
+    finishedAt
+  };
+};
+
+// =============================================================================
+// Analytics
+// =============================================================================
+
+export interface StatsSummary {
+  games: number;
+  bestScore: number;
+  averageScore: number;
+  averageDurationMs: number;
+  averageLines: number;
+  totalLines: number;
+  totalCoins: number;
+  bestCombo: number;
+  bestStreak: number;
+  trend: { score: number, average: number }[]; // Oldest first, with a running average over the window
+  scoreBuckets: { from: number, count: number }[];
+  powerUpsUsed: { powerUp: PowerUpType, count: number }[]; // Most used first
+  endingShapes: { templateId: string, count: number }[]; // Most common first
+}
+
+const average = (values: number[]): number => values.length === 0 ? 0 : values.reduce((sum, v) => sum + v, 0) / values.length;
+
+const countBy = (keys: string[]): { key: string, count: number }[] => {
+  const counts = new Map<string, number>();
+  keys.forEach(key => counts.set(key, (counts.get(key) ?? 0) + 1));
+  return [...counts.entries()].map(([key, count]) => ({ key, count })).sort((a, b) => b.count - a.count);
+};
+
+/** Summary of the given records, which may come in any order */
+export const summarizeStats = (records: GameStatsRecord[]): StatsSummary => {
+  const sorted = [...records].sort((a, b) => a.finishedAt - b.finishedAt);
+  const scores = sorted.map(r => r.score);
+
+  const recent = sorted.slice(-STATS_CONFIG.TREND_LENGTH);
+  const trend = recent.map((record, i) => ({
+    score: record.score,
+    average: Math.round(average(recent.slice(0, i + 1).map(r => r.score)))
+  }));
+
+  const bestScore = scores.length > 0 ? Math.max(...scores) : 0;
+  const bucketSize = Math.max(100, Math.ceil(bestScore / STATS_CONFIG.SCORE_BUCKETS / 100) * 100);
+  const bucketCount = scores.length === 0 ? 0 : Math.floor(bestScore / bucketSize) + 1;
+  const scoreBuckets = Array.from({ length: bucketCount }, (_, i) => ({
+    from: i * bucketSize,
+    count: scores.filter(score => Math.floor(score / bucketSize) === i).length
+  }));
+
+  const powerUpTotals: Partial<Record<PowerUpType, number>> = {};
+  sorted.forEach(r => (Object.entries(r.powerUpsUsed) as [PowerUpType, number][]).forEach(([powerUp, count]) => {
+    powerUpTotals[powerUp] = (powerUpTotals[powerUp] ?? 0) + count;
+  }));
+
+  return {
+    games: sorted.length,
+    bestScore,
+    averageScore: Math.round(average(scores)),
+    averageDurationMs: average(sorted.map(r => r.durationMs)),
+    averageLines: average(sorted.map(r => r.linesCleared)),
+    totalLines: sorted.reduce((sum, r) => sum + r.linesCleared, 0),
+    totalCoins: sorted.reduce((sum, r) => sum + r.coinsEarned, 0),
+    bestCombo: sorted.reduce((max, r) => Math.max(max, r.bestCombo), 0),
+    bestStreak: sorted.reduce((max, r) => Math.max(max, r.bestStreak), 0),
+    trend,
+    scoreBuckets,
+    powerUpsUsed: (Object.entries(powerUpTotals) as [PowerUpType, number][])
+      .map(([powerUp, count]) => ({ powerUp, count }))
+      .sort((a, b) => b.count - a.count),
+    endingShapes: countBy(sorted.flatMap(r => r.endingShapes)).map(({ key, count }) => ({ templateId: key, count }))
+  };
+};
@@ -0,0 +1,59 @@
+/**
+ * Hot-Seat Versus
+ * Two players take turns on separate classic boards that are dealt the same
+ * shape sequence. Multi-line clears send garbage rows to the opponent, who
+ * gets them at the start of their next turn.
+ */
+
+import { GameState } from '../types';
+import { VERSUS_CONFIG } from '../config/gameConfig';
+import { NO_POWER_UPS, createInitialState, hasAvailableMove, withDealStream } from './blockEngine';
+import { createFixedDealDifficulty } from './difficulty';
+
+export type VersusPlayer = 0 | 1;
+
+export interface VersusSide {
+  game: GameState;
+  turns: number; // Placements made so far
+  pendingGarbage: number; // Rows waiting to be added when this player's turn starts
+}
+
+export interface VersusResult {
+  winner: VersusPlayer | null; // null is a draw
+  reason: 'TOPPED_OUT' | 'NO_MOVES' | 'TURN_LIMIT';
+}
+
+export const PLAYER_NAMES: Record<VersusPlayer, string> = { 0: 'Spiller 1', 1: 'Spiller 2' };
+
+export const otherPlayer = (player: VersusPlayer): VersusPlayer => (player === 0 ? 1 : 0);
+
+/**
+ * A board for one side. Trays come from a deal stream of their own, and nothing
+ * about the board steers the deal (no adaptive difficulty, no playable guarantee),
+ * so both sides see exactly the same shapes in the same order.
+ */
+export const createVersusSide = (seed: number): VersusSide => {
+  const game = createInitialState(NO_POWER_UPS, seed, createFixedDealDifficulty());
+  return { game: withDealStream(game), turns: 0, pendingGarbage: 0 };
+};
+
+/** Garbage rows sent for clearing this many lines with one placement */
+export const getGarbageRows = (lines: number): number => {
+  const table = VERSUS_CONFIG.GARBAGE_ROWS;
+  return table[Math.min(lines, table.length - 1)];
+};
+
+/**
+ * The result once a player is about to start a turn, or null while the match goes on.
+ * A player who topped out or has no move left loses; after the turn limit the higher score wins.
+ */
+export const getVersusResult = (sides: [VersusSide, VersusSide], toMove: VersusPlayer): VersusResult | null => {
+  const current = sides[toMove];
+  if (current.game.isGameOver) return { winner: otherPlayer(toMove), reason: 'TOPPED_OUT' };
+  if (sides.every(side => side.turns >= VERSUS_CONFIG.TURN_LIMIT)) {
+    const [a, b] = sides.map(side => side.game.score);
+    return { winner: a === b ? null : (a > b ? 0 : 1), reason: 'TURN_LIMIT' };
+  }
+  if (!hasAvailableMove(current.game)) return { winner: otherPlayer(toMove), reason: 'NO_MOVES' };
+  return null;
+};